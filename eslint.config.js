@@ -61,5 +61,17 @@ module.exports = [
     rules: {
       camelcase: ["error", { properties: "always" }]
     }
+  },
+  {
+    // Indexer queries, deployment manifests keyed by package name, and the
+    // node responses that the tests stub all have snake case keys.
+    files: [
+      "scripts/typescript/utils/eventScanner.ts",
+      "scripts/typescript/deployAndInitializeToken.ts",
+      "test/**/*.ts"
+    ],
+    rules: {
+      camelcase: ["error", { properties: "never" }]
+    }
   }
 ];
@@ -0,0 +1,31 @@
+// Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// Withdraws an amount of the stablecoin from the burner's primary store and burns it.
+/// The signer must be a minter.
+script {
+    use aptos_framework::fungible_asset::Metadata;
+    use aptos_framework::object;
+    use aptos_framework::primary_fungible_store;
+    use stablecoin::stablecoin::stablecoin_address;
+    use stablecoin::treasury;
+
+    fun burn(burner: &signer, amount: u64) {
+        let metadata = object::address_to_object<Metadata>(stablecoin_address());
+        let asset = primary_fungible_store::withdraw(burner, metadata, amount);
+        treasury::burn(burner, asset);
+    }
+}
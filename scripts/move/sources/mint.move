@@ -0,0 +1,27 @@
+// Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// Mints an amount of the stablecoin and deposits it into the recipient's primary store.
+/// The signer must be a minter with sufficient mint allowance.
+script {
+    use aptos_framework::primary_fungible_store;
+    use stablecoin::treasury;
+
+    fun mint(minter: &signer, recipient: address, amount: u64) {
+        let asset = treasury::mint(minter, amount);
+        primary_fungible_store::deposit(recipient, asset);
+    }
+}
@@ -16,37 +16,48 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 import { getAptosClient, validateAddresses } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("accept-admin")
-  .description("Completes the two-step admin transfer for the package")
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extensions package is located."
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--new-admin-key <string>", "New admin's private key")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(acceptAdmin);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("accept-admin")
+    .description("Completes the two-step admin transfer for the package")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--new-admin-key <string>",
+      "New admin's private key. Required if --build-only is unset"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(acceptAdmin);
 
 export async function acceptAdmin({
   aptosExtensionsPackageId,
   stablecoinPackageId,
   newAdminKey,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-  newAdminKey: string;
+  newAdminKey?: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
 
   const aptos = getAptosClient(rpcUrl);
@@ -55,16 +66,25 @@ export async function acceptAdmin({
     aptosExtensionsPackageId
   );
 
-  const newAdmin = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(newAdminKey)
-  });
+  const newAdminAddress = getSenderAddress(newAdminKey, buildOnlyOptions);
 
   console.log(
-    `Accepting the Admin role transfer to ${newAdmin.accountAddress.toString()}...`
+    `Accepting the Admin role transfer to ${newAdminAddress.toString()}...`
   );
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.manageable.acceptAdminPayload(
+        stablecoinPackageId
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.manageable.acceptAdmin(
-    newAdmin,
+    getSigner(newAdminKey),
     stablecoinPackageId
   );
 }
@@ -16,38 +16,49 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import { getAptosClient, validateAddresses } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("accept-ownership")
-  .description("Completes the two-step ownership transfer for the stablecoin")
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extensions package is located."
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--new-owner-key <string>", "New owner's private key")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(acceptOwnership);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("accept-ownership")
+    .description("Completes the two-step ownership transfer for the stablecoin")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--new-owner-key <string>",
+      "New owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(acceptOwnership);
 
 export async function acceptOwnership({
   aptosExtensionsPackageId,
   stablecoinPackageId,
   newOwnerKey,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-  newOwnerKey: string;
+  newOwnerKey?: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
 
   const aptos = getAptosClient(rpcUrl);
@@ -57,18 +68,27 @@ export async function acceptOwnership({
   );
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const newOwner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(newOwnerKey)
-  });
+  const newOwnerAddress = getSenderAddress(newOwnerKey, buildOnlyOptions);
 
   console.log(
-    `Accepting the Owner role transfer to ${newOwner.accountAddress.toString()}...`
+    `Accepting the Owner role transfer to ${newOwnerAddress.toString()}...`
   );
 
   const stablecoinAddress =
     await stablecoinPackage.stablecoin.stablecoinAddress();
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.ownable.acceptOwnershipPayload(
+        stablecoinAddress
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.ownable.acceptOwnership(
-    newOwner,
+    getSigner(newOwnerKey),
     stablecoinAddress
   );
 }
@@ -0,0 +1,56 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import { AddressListResult } from "./utils/addressList";
+import {
+  BlocklistStatusOptions,
+  setBlocklistStatus
+} from "./utils/blocklistStatus";
+import { addBuildOnlyOptions } from "./utils/buildOnly";
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("blocklist")
+    .description("Blocklists a list of addresses")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--blocklister-key <string>",
+      "Blocklister's private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--address-file <string>",
+      "Path to a CSV or JSON file listing the addresses to blocklist, with optional case IDs"
+    )
+    .requiredOption(
+      "--report-file <string>",
+      "The path to write the per-address result report to"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(async (options) => {
+  await blocklist(options);
+});
+
+export async function blocklist(
+  options: BlocklistStatusOptions
+): Promise<AddressListResult[]> {
+  return setBlocklistStatus(true, options);
+}
@@ -0,0 +1,161 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  MAX_U64,
+  validateAddresses,
+  waitForUserConfirmation
+} from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
+import { getTypedEvent } from "./utils/events";
+import { buildMoveScript } from "./utils/moveScripts";
+import { formatTokenAmount } from "./utils/formatting";
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("burn")
+    .description("Burns stablecoins from the burner's primary store")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--burner-key <string>",
+      "Burner's private key. The burner must be a minter. Required if --build-only is unset"
+    )
+    .requiredOption("--amount <string>", "The amount (in subunits) to burn")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(burn);
+
+export async function burn({
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  burnerKey,
+  amount,
+  rpcUrl,
+  ...buildOnlyOptions
+}: {
+  aptosExtensionsPackageId: string;
+  stablecoinPackageId: string;
+  burnerKey?: string;
+  amount: string;
+  rpcUrl: string;
+} & BuildOnlyOptions) {
+  validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
+  if (BigInt(amount) <= BigInt(0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+  if (BigInt(amount) > MAX_U64) {
+    throw new Error("Amount exceeds MAX_U64");
+  }
+
+  const aptos = getAptosClient(rpcUrl);
+  const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
+  const aptosExtensionsPackage = new AptosExtensionsPackage(
+    aptos,
+    aptosExtensionsPackageId
+  );
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  // Check the conditions that treasury::burn asserts on, so that the
+  // transaction does not abort on-chain.
+  const burner = getSenderAddress(burnerKey, buildOnlyOptions).toString();
+  if (await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress)) {
+    throw new Error(`The stablecoin ${stablecoinAddress} is paused!`);
+  }
+  if (!(await stablecoinPackage.treasury.isMinter(burner))) {
+    throw new Error(`The sender ${burner} is not a minter!`);
+  }
+  if (await stablecoinPackage.blocklistable.isBlocklisted(burner)) {
+    throw new Error(`The burner ${burner} is blocklisted!`);
+  }
+
+  const decimals =
+    await aptosFrameworkPackage.fungibleAsset.getDecimals(stablecoinAddress);
+  const balance = await aptosFrameworkPackage.primaryFungibleStore.balance(
+    burner,
+    stablecoinAddress
+  );
+  if (balance < BigInt(amount)) {
+    throw new Error(
+      `The balance of ${formatTokenAmount(balance, decimals)} is insufficient to burn ${formatTokenAmount(amount, decimals)}!`
+    );
+  }
+
+  console.log(
+    `Burning ${formatTokenAmount(amount, decimals)} from ${burner}. The balance of the burner is ${formatTokenAmount(balance, decimals)}.`
+  );
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  const scriptBytecode = buildMoveScript("burn", {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  });
+
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.burnPayload(
+        scriptBytecode,
+        BigInt(amount)
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  const txOutput = await stablecoinPackage.treasury.burn(
+    getSigner(burnerKey),
+    scriptBytecode,
+    BigInt(amount)
+  );
+
+  const { data: burnEvent } = getTypedEvent(
+    txOutput,
+    stablecoinPackageId,
+    "treasury::Burn"
+  );
+  if (burnEvent.burner !== burner || burnEvent.amount !== BigInt(amount)) {
+    throw new Error(
+      `Unexpected Burn event for burner ${burnEvent.burner} with amount ${burnEvent.amount}!`
+    );
+  }
+
+  console.log(
+    `\u001b[32mBurned ${formatTokenAmount(amount, decimals)} from ${burner}\u001b[0m`
+  );
+}
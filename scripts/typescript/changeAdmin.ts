@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 import {
@@ -24,36 +23,48 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("change-admin")
-  .description("Starts a two-step admin transfer for the package")
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extensions package is located."
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--admin-key <string>", "Admin's private key")
-  .requiredOption("--new-admin <string>", "The new admin's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(changeAdmin);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("change-admin")
+    .description("Starts a two-step admin transfer for the package")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--admin-key <string>",
+      "Admin's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--new-admin <string>", "The new admin's address")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(changeAdmin);
 
 export async function changeAdmin({
   aptosExtensionsPackageId,
   stablecoinPackageId,
   adminKey,
   newAdmin,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-  adminKey: string;
+  adminKey?: string;
   newAdmin: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId, newAdmin);
 
   const aptos = getAptosClient(rpcUrl);
@@ -62,19 +73,29 @@ export async function changeAdmin({
     aptosExtensionsPackageId
   );
 
-  const admin = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(adminKey)
-  });
+  const adminAddress = getSenderAddress(adminKey, buildOnlyOptions);
 
   console.log(
-    `Starting the Admin role transfer from ${admin.accountAddress.toString()} to ${newAdmin}...`
+    `Starting the Admin role transfer from ${adminAddress.toString()} to ${newAdmin}...`
   );
   if (!(await waitForUserConfirmation())) {
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.manageable.changeAdminPayload(
+        stablecoinPackageId,
+        newAdmin
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.manageable.changeAdmin(
-    admin,
+    getSigner(adminKey),
     stablecoinPackageId,
     newAdmin
   );
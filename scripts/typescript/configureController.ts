@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import {
   getAptosClient,
@@ -24,49 +23,68 @@ import {
   waitForUserConfirmation
 } from "./utils";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("configure-controller")
-  .description("Configures a controller")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--master-minter-key <string>", "Master Minter's private key")
-  .requiredOption("--controller <string>", "The controller's address")
-  .requiredOption("--minter <string>", "The minter's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(configureController);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("configure-controller")
+    .description("Configures a controller")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--master-minter-key <string>",
+      "Master Minter's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--controller <string>", "The controller's address")
+    .requiredOption("--minter <string>", "The minter's address")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(configureController);
 
 export async function configureController({
   stablecoinPackageId,
   masterMinterKey,
   controller,
   minter,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  masterMinterKey: string;
+  masterMinterKey?: string;
   controller: string;
   minter: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId, controller, minter);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const masterMinter = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(masterMinterKey)
-  });
-
   console.log(`Configuring controller ${controller} for minter ${minter}...`);
   if (!(await waitForUserConfirmation())) {
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.configureControllerPayload(
+        controller,
+        minter
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await stablecoinPackage.treasury.configureController(
-    masterMinter,
+    getSigner(masterMinterKey),
     controller,
     minter
   );
@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
@@ -26,36 +25,45 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("configure-minter")
-  .description("Configures a minter")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption(
-    "--controller-key <string>",
-    "Minter's controller private key"
-  )
-  .requiredOption(
-    "--mint-allowance <string>",
-    "The mint allowance (in subunits) to set"
-  )
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(configureMinter);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("configure-minter")
+    .description("Configures a minter")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--controller-key <string>",
+      "Minter's controller private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--mint-allowance <string>",
+      "The mint allowance (in subunits) to set"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(configureMinter);
 
 export async function configureMinter({
   stablecoinPackageId,
   controllerKey,
   mintAllowance,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  controllerKey: string;
+  controllerKey?: string;
   mintAllowance: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId);
   if (BigInt(mintAllowance) > MAX_U64) {
     throw new Error("Mint allowance exceeds MAX_U64");
@@ -65,12 +73,8 @@ export async function configureMinter({
   const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const controller = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(controllerKey)
-  });
-  const minter = await stablecoinPackage.treasury.getMinter(
-    controller.accountAddress
-  );
+  const controllerAddress = getSenderAddress(controllerKey, buildOnlyOptions);
+  const minter = await stablecoinPackage.treasury.getMinter(controllerAddress);
 
   const stablecoinAddress =
     await stablecoinPackage.stablecoin.stablecoinAddress();
@@ -84,8 +88,19 @@ export async function configureMinter({
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.configureMinterPayload(
+        BigInt(mintAllowance)
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await stablecoinPackage.treasury.configureMinter(
-    controller,
+    getSigner(controllerKey),
     BigInt(mintAllowance)
   );
 }
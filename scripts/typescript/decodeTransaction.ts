@@ -18,22 +18,81 @@
 
 import {
   AccountAddress,
+  AnyRawTransaction,
+  Bool,
   Deserializable,
   Deserializer,
+  EntryFunction,
   EntryFunctionArgument,
   EntryFunctionBytes,
   FixedBytes,
   Hex,
+  MoveModule,
   MoveVector,
+  MultiAgentTransaction,
+  ScriptFunctionArgument,
   Serializable,
+  Serialized,
   SimpleTransaction,
+  TransactionPayload,
   TransactionPayloadEntryFunction,
+  TransactionPayloadMultiSig,
+  TransactionPayloadScript,
+  U128,
+  U16,
+  U256,
+  U32,
+  U64,
   U8
 } from "@aptos-labs/ts-sdk";
-import { program } from "commander";
+import { Option, program } from "commander";
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
-import { REPOSITORY_ROOT } from "./utils";
+import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import { getAptosClient, REPOSITORY_ROOT, validateAddresses } from "./utils";
+import {
+  decodeEntryFunctionArguments,
+  fetchModuleAbis,
+  findEntryFunctionAbi,
+  readModuleAbis,
+  UnsupportedArgumentTypeError,
+  writeModuleAbis
+} from "./utils/abiDecoder";
+import { isKnownPackageFunction, KnownPackageIds } from "./utils/knownPackages";
+import {
+  buildReviewSheet,
+  fetchTokenState,
+  renderReviewSheet,
+  REVIEW_SHEET_FORMATS,
+  ReviewContext,
+  ReviewSheetFormat
+} from "./utils/reviewSheet";
+
+export type DecodedEntryFunction = {
+  function: string;
+  typeArgs: string[];
+  args: unknown[];
+};
+
+export type DecodedPayload =
+  | DecodedEntryFunction
+  | {
+      multisig: {
+        multisigAddress: string;
+        payload: DecodedEntryFunction | null;
+      };
+    }
+  | {
+      script: {
+        bytecodeHash: string;
+        typeArgs: string[];
+        args: { type: string; value: unknown }[];
+      };
+    };
+
+export type DecodedTransaction = ReturnType<typeof decodeRawTransaction>;
 
 export default program
   .createCommand("decode-transaction")
@@ -44,8 +103,36 @@ export default program
   )
   .requiredOption("-o, --output <string>", "The output file path.")
   .option(
-    "--function-name <string>",
-    "The name of the function that is being decoded. Required for argument decoding."
+    "-r, --rpc-url <string>",
+    "Network RPC URL. If set, the ABI of the called module is fetched to decode the arguments"
+  )
+  .option(
+    "--abi-file <string>",
+    "Path to a JSON file containing module ABIs, for decoding the arguments offline"
+  )
+  .option(
+    "--save-abi <string>",
+    "Path to save the fetched module ABIs to, for later offline use"
+  )
+  .addOption(
+    new Option(
+      "--format <string>",
+      "The output format. Markdown and text output a review sheet for signers"
+    )
+      .choices(["json", ...REVIEW_SHEET_FORMATS])
+      .default("json")
+  )
+  .option(
+    "--aptos-extensions-package-id <string>",
+    "The address where the aptos_extensions package is located. Its entry functions are decoded and described with the built-in decoders. If set together with --stablecoin-package-id and --rpc-url, the review sheet shows the live state of the stablecoin"
+  )
+  .option(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located. Its entry functions are decoded and described with the built-in decoders. If set together with --aptos-extensions-package-id and --rpc-url, the review sheet shows the live state of the stablecoin"
+  )
+  .option(
+    "--decimals <number>",
+    "The token's decimals, for formatting token amounts in the review sheet when the live state is not queried"
   )
   .action(async (options) => {
     await decodeTransaction(options);
@@ -54,46 +141,153 @@ export default program
 export async function decodeTransaction({
   txBytes,
   output,
-  functionName
+  rpcUrl,
+  abiFile,
+  saveAbi,
+  format = "json",
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  decimals
 }: {
   txBytes: string;
   output: string;
-  functionName?: string;
+  rpcUrl?: string;
+  abiFile?: string;
+  saveAbi?: string;
+  format?: "json" | ReviewSheetFormat;
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId?: string;
+  decimals?: string;
 }) {
-  // Deserialize the transaction bytes into a SimpleTransaction.
-  const tx = SimpleTransaction.deserialize(
-    new Deserializer(Hex.fromHexString(txBytes).toUint8Array())
+  const packageIds: KnownPackageIds = {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  };
+  validateAddresses(
+    ...Object.values(packageIds).filter(
+      (packageId): packageId is string => packageId != null
+    )
   );
 
-  if (!(tx.rawTransaction.payload instanceof TransactionPayloadEntryFunction)) {
-    throw new Error(
-      "Only transactions with entry function payloads are supported."
+  const tx = deserializeTransaction(txBytes);
+
+  // Load the module ABIs, if available.
+  let abis: MoveModule[] = [];
+  const entryFunction = getEntryFunction(tx);
+  if (abiFile != null) {
+    abis = readModuleAbis(abiFile);
+  } else if (rpcUrl != null && entryFunction != null) {
+    abis = await fetchModuleAbis(
+      getAptosClient(rpcUrl),
+      entryFunction.module_name.address
     );
   }
 
-  const txPayload = tx.rawTransaction.payload.entryFunction;
+  if (saveAbi != null) {
+    writeModuleAbis(saveAbi, abis);
+    console.log(`Module ABIs saved to: '${saveAbi}'`);
+  }
+
+  const decodedTx = decodeRawTransaction(tx, abis, packageIds);
 
-  // Attempt to decode the arguments for the function.
-  const txPayloadArguments = txPayload.args as EntryFunctionBytes[];
-  const isArgDecoderSupportedForFunction =
-    functionName != null &&
-    Object.keys(argumentDecoders).includes(functionName);
+  let outputContent: string;
+  if (format === "json") {
+    outputContent = JSON.stringify(decodedTx, null, 2);
+  } else {
+    const context: ReviewContext = {
+      decimals: decimals != null ? Number(decimals) : undefined,
+      packageIds
+    };
 
-  if (!isArgDecoderSupportedForFunction) {
-    console.log(
-      `NOTE: Argument decoding is either disabled or is unsupported for the entry function called. The decoded transaction will return the arguments as its raw BCS-serialized bytes.`
+    // Query the live state of the stablecoin, if the packages are known.
+    if (
+      rpcUrl != null &&
+      aptosExtensionsPackageId != null &&
+      stablecoinPackageId != null
+    ) {
+      const aptos = getAptosClient(rpcUrl);
+      context.stablecoinPackage = new StablecoinPackage(
+        aptos,
+        stablecoinPackageId
+      );
+      context.state = await fetchTokenState(
+        aptos,
+        new AptosExtensionsPackage(aptos, aptosExtensionsPackageId),
+        context.stablecoinPackage
+      );
+    }
+
+    outputContent = renderReviewSheet(
+      await buildReviewSheet(decodedTx, context),
+      format
     );
   }
 
-  const args = isArgDecoderSupportedForFunction
-    ? txPayloadArguments.map((arg, i) =>
-        argumentDecoders[functionName][i](arg.value)
-      )
-    : txPayloadArguments.map((arg) => arg.bcsToHex().toString());
+  // Write the decoded transaction to a file.
+  const outputFilePath = path.join(REPOSITORY_ROOT, output);
+  console.log(
+    `\u001b[32mTransaction successfully decoded and saved to: '${outputFilePath}'\u001b[0m`
+  );
+  fs.writeFileSync(outputFilePath, outputContent);
+}
+
+/**
+ * Deserializes transaction bytes into either a SimpleTransaction, or a
+ * MultiAgentTransaction if the bytes list secondary signers.
+ */
+export function deserializeTransaction(txBytes: string): AnyRawTransaction {
+  const bytes = Hex.fromHexString(txBytes).toUint8Array();
 
-  // Decode the transaction.
-  const decodedTx = {
+  // Both transaction types start with the raw transaction, and can only be
+  // told apart by whether the remaining bytes deserialize completely.
+  const deserializer = new Deserializer(bytes);
+  try {
+    const tx = SimpleTransaction.deserialize(deserializer);
+    if (deserializer.remaining() === 0) {
+      return tx;
+    }
+  } catch {
+    // Fall through to deserializing a MultiAgentTransaction.
+  }
+
+  const multiAgentDeserializer = new Deserializer(bytes);
+  const tx = MultiAgentTransaction.deserialize(multiAgentDeserializer);
+  if (multiAgentDeserializer.remaining() !== 0) {
+    throw new Error("Unexpected trailing bytes in the transaction!");
+  }
+  return tx;
+}
+
+/**
+ * Decodes a SimpleTransaction or MultiAgentTransaction into a human-readable format.
+ *
+ * Entry function payloads, including those wrapped in a multisig payload, have
+ * their arguments decoded from the entry function's parameter types if its
+ * module ABI is provided. Otherwise, they are decoded if the entry function is
+ * supported by one of the built-in argument decoders, which are selected from the
+ * payload's module and function names. The built-in decoders are only used for
+ * entry functions whose module address matches one of the given package IDs.
+ * If neither is available, the arguments are returned as raw BCS-serialized bytes.
+ *
+ * Script payloads are decoded into the hash of the script's bytecode, together
+ * with its typed arguments.
+ *
+ * @param tx - The transaction to decode.
+ * @param abis - The module ABIs to decode the arguments with.
+ * @param packageIds - The addresses of the aptos_extensions and stablecoin packages.
+ * @returns The decoded transaction.
+ */
+export function decodeRawTransaction(
+  tx: AnyRawTransaction,
+  abis: MoveModule[] = [],
+  packageIds: KnownPackageIds = {}
+) {
+  return {
     sender: tx.rawTransaction.sender.toString(),
+    secondarySigners:
+      tx instanceof MultiAgentTransaction
+        ? tx.secondarySignerAddresses.map((address) => address.toString())
+        : undefined,
     sequenceNumber: tx.rawTransaction.sequence_number.toString(),
     maxGasAmount: tx.rawTransaction.max_gas_amount.toString(),
     gasUnitPrice: tx.rawTransaction.gas_unit_price.toString(),
@@ -101,43 +295,281 @@ export async function decodeTransaction({
       tx.rawTransaction.expiration_timestamp_secs.toString(),
     chainId: tx.rawTransaction.chain_id.chainId.toString(),
     feePayer: tx.feePayerAddress?.toString(),
-    payload: {
-      function: `${txPayload.module_name.address.toString()}::${txPayload.module_name.name.identifier}::${txPayload.function_name.identifier}`,
-      typeArgs: txPayload.type_args.map((tyArg) => tyArg.toString()),
-      args
-    }
+    payload: decodePayload(tx.rawTransaction.payload, abis, packageIds)
   };
+}
 
-  // Write the decoded transaction to a file.
-  const outputFilePath = path.join(REPOSITORY_ROOT, output);
-  console.log(
-    `\u001b[32mTransaction successfully decoded and saved to: '${outputFilePath}'\u001b[0m`
+function decodePayload(
+  payload: TransactionPayload,
+  abis: MoveModule[],
+  packageIds: KnownPackageIds
+): DecodedPayload {
+  if (payload instanceof TransactionPayloadEntryFunction) {
+    return decodeEntryFunction(payload.entryFunction, abis, packageIds);
+  }
+
+  if (payload instanceof TransactionPayloadMultiSig) {
+    const innerPayload = payload.multiSig.transaction_payload;
+    return {
+      multisig: {
+        multisigAddress: payload.multiSig.multisig_address.toString(),
+        // The payload is omitted if the multisig transaction is executed
+        // by the hash of its payload.
+        payload:
+          innerPayload != null
+            ? decodeEntryFunction(
+                innerPayload.transaction_payload,
+                abis,
+                packageIds
+              )
+            : null
+      }
+    };
+  }
+
+  if (payload instanceof TransactionPayloadScript) {
+    return {
+      script: {
+        bytecodeHash: `0x${createHash("sha3-256")
+          .update(payload.script.bytecode)
+          .digest("hex")}`,
+        typeArgs: payload.script.type_args.map((tyArg) => tyArg.toString()),
+        args: payload.script.args.map(decodeScriptArgument)
+      }
+    };
+  }
+
+  throw new Error("Unsupported transaction payload!");
+}
+
+function decodeEntryFunction(
+  entryFunction: EntryFunction,
+  abis: MoveModule[],
+  packageIds: KnownPackageIds
+): DecodedEntryFunction {
+  const functionId = `${entryFunction.module_name.address.toString()}::${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`;
+
+  // Attempt to decode the arguments for the function.
+  const txPayloadArguments = entryFunction.args as EntryFunctionBytes[];
+  const functionAbi = findEntryFunctionAbi(
+    abis,
+    entryFunction.module_name.address,
+    entryFunction.module_name.name.identifier,
+    entryFunction.function_name.identifier
   );
-  fs.writeFileSync(outputFilePath, JSON.stringify(decodedTx, null, 2));
+  const argDecoders = isKnownPackageFunction(functionId, packageIds)
+    ? argumentDecoders[
+        `${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`
+      ]
+    : undefined;
+
+  let args: unknown[];
+  if (functionAbi != null) {
+    try {
+      args = decodeEntryFunctionArguments(
+        functionAbi,
+        entryFunction.type_args,
+        txPayloadArguments.map((arg) => arg.value.value)
+      );
+    } catch (error) {
+      if (!(error instanceof UnsupportedArgumentTypeError)) {
+        throw error;
+      }
+      console.log(
+        `NOTE: ${error.message}. The decoded transaction will return the arguments as its raw BCS-serialized bytes.`
+      );
+      args = txPayloadArguments.map((arg) => arg.bcsToHex().toString());
+    }
+  } else if (argDecoders != null) {
+    if (argDecoders.length !== txPayloadArguments.length) {
+      throw new Error(
+        `The entry function ${functionId} takes ${argDecoders.length} arguments, but the transaction passes ${txPayloadArguments.length}!`
+      );
+    }
+    args = txPayloadArguments.map((arg, i) => argDecoders[i](arg.value));
+  } else {
+    console.log(
+      `NOTE: Argument decoding is unsupported for the entry function called, or its package ID was not provided. The decoded transaction will return the arguments as its raw BCS-serialized bytes.`
+    );
+    args = txPayloadArguments.map((arg) => arg.bcsToHex().toString());
+  }
+
+  return {
+    function: functionId,
+    typeArgs: entryFunction.type_args.map((tyArg) => tyArg.toString()),
+    args
+  };
+}
+
+/**
+ * Returns the entry function that a transaction calls, either directly or
+ * through a multisig account.
+ */
+export function getEntryFunction(
+  tx: AnyRawTransaction
+): EntryFunction | undefined {
+  const payload = tx.rawTransaction.payload;
+  if (payload instanceof TransactionPayloadEntryFunction) {
+    return payload.entryFunction;
+  }
+  if (payload instanceof TransactionPayloadMultiSig) {
+    return payload.multiSig.transaction_payload?.transaction_payload;
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a script argument, which is tagged with its type.
+ */
+function decodeScriptArgument(arg: ScriptFunctionArgument): {
+  type: string;
+  value: unknown;
+} {
+  if (arg instanceof U8) return { type: "u8", value: arg.value };
+  if (arg instanceof U16) return { type: "u16", value: arg.value };
+  if (arg instanceof U32) return { type: "u32", value: arg.value };
+  if (arg instanceof U64) return { type: "u64", value: arg.value.toString() };
+  if (arg instanceof U128) return { type: "u128", value: arg.value.toString() };
+  if (arg instanceof U256) return { type: "u256", value: arg.value.toString() };
+  if (arg instanceof Bool) return { type: "bool", value: arg.value };
+  if (arg instanceof AccountAddress) {
+    return { type: "address", value: arg.toString() };
+  }
+  if (arg instanceof MoveVector) {
+    return { type: "vector<u8>", value: convertMoveVectorU8ToHex(arg) };
+  }
+  if (arg instanceof Serialized) {
+    // Arguments of other types are passed in as raw BCS-serialized bytes.
+    return {
+      type: "serialized",
+      value: Hex.fromHexInput(arg.value).toString()
+    };
+  }
+  throw new Error("Unsupported script argument!");
 }
 
 // ==== Argument Decoders ====
+const decodeAddress = (arg: FixedBytes) =>
+  AccountAddress.deserialize(new Deserializer(arg.value)).toString();
+
+// Object<T> arguments are serialized as the object's address.
+const decodeObject = decodeAddress;
+
+const decodeU8 = (arg: FixedBytes) =>
+  new Deserializer(arg.value).deserializeU8();
+
+const decodeU64 = (arg: FixedBytes) =>
+  new Deserializer(arg.value).deserializeU64().toString();
+
+const decodeString = (arg: FixedBytes) =>
+  new Deserializer(arg.value).deserializeStr();
+
+const decodeOptionString = (arg: FixedBytes) =>
+  new Deserializer(arg.value).deserializeOption("string") ?? null;
+
+const decodeVectorU8 = (arg: FixedBytes) => {
+  const vector = MoveVector.deserialize(new Deserializer(arg.value), U8);
+  return convertMoveVectorU8ToHex(vector);
+};
+
+const decodeVectorVectorU8 = (arg: FixedBytes) => {
+  const vector = TwoLevelMoveVector.deserialize(
+    new Deserializer(arg.value),
+    U8
+  );
+  return vector.values.map(convertMoveVectorU8ToHex);
+};
+
+/**
+ * Argument decoders for the entry functions in the stablecoin and aptos_extensions
+ * packages, keyed by "<module_name>::<function_name>".
+ */
 const argumentDecoders: Record<string, ((arg: FixedBytes) => any)[]> = {
-  // aptos_extensions::upgradable::upgrade_package
-  upgradePackage: [
-    // resource_acct: address,
-    (arg: FixedBytes) =>
-      AccountAddress.deserialize(new Deserializer(arg.value)).toString(),
-
-    // metadata_serialized: vector<u8>,
-    (arg: FixedBytes) => {
-      const vector = MoveVector.deserialize(new Deserializer(arg.value), U8);
-      return convertMoveVectorU8ToHex(vector);
-    },
-
-    // code: vector<vector<u8>>
-    (arg: FixedBytes) => {
-      const vector = TwoLevelMoveVector.deserialize(
-        new Deserializer(arg.value),
-        U8
-      );
-      return vector.values.map(convertMoveVectorU8ToHex);
-    }
+  // aptos_extensions::manageable
+  "manageable::change_admin": [
+    decodeAddress, // resource_address: address
+    decodeAddress // new_admin: address
+  ],
+  "manageable::accept_admin": [
+    decodeAddress // resource_address: address
+  ],
+
+  // aptos_extensions::ownable
+  "ownable::transfer_ownership": [
+    decodeObject, // obj: Object<OwnerRole>
+    decodeAddress // new_owner: address
+  ],
+  "ownable::accept_ownership": [
+    decodeObject // obj: Object<OwnerRole>
+  ],
+
+  // aptos_extensions::pausable
+  "pausable::pause": [
+    decodeObject // obj: Object<PauseState>
+  ],
+  "pausable::unpause": [
+    decodeObject // obj: Object<PauseState>
+  ],
+  "pausable::update_pauser": [
+    decodeObject, // obj: Object<PauseState>
+    decodeAddress // new_pauser: address
+  ],
+
+  // aptos_extensions::upgradable
+  "upgradable::upgrade_package": [
+    decodeAddress, // resource_acct: address
+    decodeVectorU8, // metadata_serialized: vector<u8>
+    decodeVectorVectorU8 // code: vector<vector<u8>>
+  ],
+
+  // stablecoin::blocklistable
+  "blocklistable::blocklist": [
+    decodeAddress // addr_to_block: address
+  ],
+  "blocklistable::unblocklist": [
+    decodeAddress // addr_to_unblock: address
+  ],
+  "blocklistable::update_blocklister": [
+    decodeAddress // new_blocklister: address
+  ],
+
+  // stablecoin::metadata
+  "metadata::update_metadata": [
+    decodeOptionString, // name: Option<String>
+    decodeOptionString, // symbol: Option<String>
+    decodeOptionString, // icon_uri: Option<String>
+    decodeOptionString // project_uri: Option<String>
+  ],
+  "metadata::update_metadata_updater": [
+    decodeAddress // new_metadata_updater: address
+  ],
+
+  // stablecoin::stablecoin
+  "stablecoin::initialize_v1": [
+    decodeString, // name: String
+    decodeString, // symbol: String
+    decodeU8, // decimals: u8
+    decodeString, // icon_uri: String
+    decodeString // project_uri: String
+  ],
+
+  // stablecoin::treasury
+  "treasury::configure_controller": [
+    decodeAddress, // controller: address
+    decodeAddress // minter: address
+  ],
+  "treasury::remove_controller": [
+    decodeAddress // controller: address
+  ],
+  "treasury::configure_minter": [
+    decodeU64 // allowance: u64
+  ],
+  "treasury::increment_minter_allowance": [
+    decodeU64 // allowance_increment: u64
+  ],
+  "treasury::remove_minter": [],
+  "treasury::update_master_minter": [
+    decodeAddress // new_master_minter: address
   ]
 };
 
@@ -24,6 +24,10 @@ import {
   NamedAddress,
   parseNamedAddresses
 } from "./utils/deployUtils";
+import {
+  readMoveCompilerSettings,
+  writeDeploymentManifest
+} from "./utils/deploymentManifest";
 
 export default program
   .createCommand("deploy")
@@ -44,6 +48,10 @@ export default program
     "Whether source code verification is enabled",
     false
   )
+  .option(
+    "--manifest-file <string>",
+    "The file to write the deployment manifest to"
+  )
   .action(async (packageName, options) => {
     const namedDeps = parseNamedAddresses(options.namedDeps);
     await deploy(packageName, { ...options, namedDeps });
@@ -56,13 +64,15 @@ export async function deploy(
     deployerKey,
     seed,
     namedDeps,
-    verifySource
+    verifySource,
+    manifestFile
   }: {
     rpcUrl: string;
     deployerKey: string;
     seed: string;
     namedDeps: NamedAddress[];
     verifySource?: boolean;
+    manifestFile?: string;
   }
 ) {
   const aptos = getAptosClient(rpcUrl);
@@ -77,7 +87,7 @@ export async function deploy(
     process.exit(1);
   }
 
-  const [packageId] = await publishPackageToResourceAccount({
+  const [packageId, txOutput] = await publishPackageToResourceAccount({
     aptos,
     deployer,
     packageName,
@@ -87,4 +97,22 @@ export async function deploy(
   });
 
   console.log(`Deployed package to ${packageId}`);
+
+  if (manifestFile != null) {
+    writeDeploymentManifest(manifestFile, {
+      chainId: (await aptos.getLedgerInfo()).chain_id,
+      deployer: deployer.accountAddress.toString(),
+      seeds: { [packageName]: seed },
+      packageIds: { [packageName]: packageId },
+      transactions: [
+        {
+          name: `publish ${packageName}`,
+          hash: txOutput.hash,
+          version: txOutput.version
+        }
+      ],
+      ...readMoveCompilerSettings(),
+      sourceUploaded: !!verifySource
+    });
+  }
 }
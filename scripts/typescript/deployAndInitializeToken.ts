@@ -18,18 +18,46 @@
 
 import {
   Account,
+  AccountAddress,
   Aptos,
+  createResourceAddress,
   Ed25519Account,
   Ed25519PrivateKey
 } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { inspect } from "util";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
-import { getAptosClient, waitForUserConfirmation } from "./utils";
-import { publishPackageToResourceAccount } from "./utils/deployUtils";
+import {
+  callViewFunction,
+  getAptosClient,
+  getPackageMetadata,
+  LOCAL_FAUCET_URL,
+  LOCAL_RPC_URL,
+  waitForUserConfirmation
+} from "./utils";
+import { buildPublishToResourceAccountPayload } from "./utils/deployUtils";
+import { DeploymentJournal } from "./utils/deploymentJournal";
+import {
+  getManifestTransactions,
+  hashFile,
+  readMoveCompilerSettings,
+  writeDeploymentManifest
+} from "./utils/deploymentManifest";
+import {
+  DeploymentStep,
+  formatApt,
+  getTotalGasUsed,
+  renderSimulatedSteps,
+  runDeploymentSteps,
+  SimulatedStep,
+  simulateDeploymentSteps
+} from "./utils/deploymentSteps";
 import { readTokenConfig, TokenConfig } from "./utils/tokenConfig";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 
+const APTOS_EXTENSIONS_SEED = "aptos_extensions";
+const STABLECOIN_SEED = "stablecoin";
+
 export default program
   .createCommand("deploy-and-initialize-token")
   .description("Deploy all packages and initialize the token")
@@ -41,6 +69,34 @@ export default program
     "Whether source code verification is enabled",
     false
   )
+  .option(
+    "--journal-file <string>",
+    "The file to record each deployment step and its transaction hash to"
+  )
+  .option(
+    "--resume",
+    "Resumes an interrupted deployment from --journal-file, skipping the steps that already took effect",
+    false
+  )
+  .option(
+    "--manifest-file <string>",
+    "The file to write the deployment manifest to"
+  )
+  .option(
+    "--dry-run",
+    "Simulates the deployment on a stand-in network, and estimates its cost on the target network",
+    false
+  )
+  .option(
+    "--stand-in-rpc-url <string>",
+    "RPC URL of the network that the dry run executes the steps on",
+    LOCAL_RPC_URL
+  )
+  .option(
+    "--stand-in-faucet-url <string>",
+    "Faucet URL of the network that the dry run executes the steps on",
+    LOCAL_FAUCET_URL
+  )
   .action(async (options) => {
     await deployAndInitializeToken(options);
   });
@@ -49,18 +105,42 @@ export async function deployAndInitializeToken({
   rpcUrl,
   deployerKey,
   tokenConfigPath,
-  verifySource
+  verifySource,
+  journalFile,
+  resume,
+  manifestFile,
+  dryRun,
+  standInRpcUrl,
+  standInFaucetUrl
 }: {
   rpcUrl: string;
   deployerKey: string;
   tokenConfigPath: string;
   verifySource?: boolean;
+  journalFile?: string;
+  resume?: boolean;
+  manifestFile?: string;
+  dryRun?: boolean;
+  standInRpcUrl?: string;
+  standInFaucetUrl?: string;
 }): Promise<{
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
   stablecoinAddress: string;
 }> {
-  const aptos = getAptosClient(rpcUrl);
+  if (dryRun && (journalFile != null || resume || manifestFile != null)) {
+    throw new Error(
+      "--dry-run cannot be combined with --journal-file, --resume or --manifest-file!"
+    );
+  }
+  if (resume && journalFile == null) {
+    throw new Error("--resume requires --journal-file!");
+  }
+
+  const targetAptos = getAptosClient(rpcUrl);
+  const aptos = dryRun
+    ? getAptosClient(standInRpcUrl, standInFaucetUrl)
+    : targetAptos;
 
   const deployer = Account.fromPrivateKey({
     privateKey: new Ed25519PrivateKey(deployerKey)
@@ -76,9 +156,61 @@ export async function deployAndInitializeToken({
     process.exit(1);
   }
 
+  // The packages are published to resource accounts, whose addresses only
+  // depend on the deployer and the seeds.
+  const aptosExtensionsPackageId = createResourceAddress(
+    deployer.accountAddress,
+    new Uint8Array(Buffer.from(APTOS_EXTENSIONS_SEED))
+  ).toString();
+  const stablecoinPackageId = createResourceAddress(
+    deployer.accountAddress,
+    new Uint8Array(Buffer.from(STABLECOIN_SEED))
+  ).toString();
+
+  const journal = DeploymentJournal.open(
+    journalFile,
+    {
+      deployer: deployer.accountAddress.toString(),
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    },
+    !!resume
+  );
+
+  // In a dry run, the steps are executed on the stand-in network instead,
+  // for each step to be simulated against the state left by the previous ones.
+  const simulatedSteps: SimulatedStep[] = [];
+  const runSteps = async (steps: DeploymentStep[]) => {
+    if (dryRun) {
+      simulatedSteps.push(
+        ...(await simulateDeploymentSteps(
+          aptos,
+          deployer,
+          steps,
+          simulatedSteps.length === 0 ? targetAptos : undefined
+        ))
+      );
+    } else {
+      await runDeploymentSteps(aptos, deployer, steps, journal, !!resume);
+    }
+  };
+  if (dryRun) {
+    await prepareStandIn(targetAptos, aptos, deployer, [
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    ]);
+  }
+
   console.log("Publishing packages...");
-  const { aptosExtensionsPackageId, stablecoinPackageId } =
-    await publishPackages(aptos, deployer, !!verifySource);
+  await runSteps(
+    getPublishSteps(
+      aptos,
+      deployer,
+      !!verifySource,
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    )
+  );
 
   const aptosExtensionsPackage = new AptosExtensionsPackage(
     aptos,
@@ -97,14 +229,54 @@ export async function deployAndInitializeToken({
   );
 
   console.log("Initializing stablecoin");
-  await initializeStablecoin(
-    aptosExtensionsPackage,
-    stablecoinPackage,
-    stablecoinAddress,
-    deployer,
-    tokenConfig
+  await runSteps(
+    getInitializationSteps(
+      aptos,
+      aptosExtensionsPackage,
+      stablecoinPackage,
+      stablecoinAddress,
+      deployer,
+      tokenConfig,
+      journal
+    )
   );
-  console.log(`Stablecoin initialized for ${tokenConfig.symbol}`);
+
+  if (dryRun) {
+    await reportDryRun(targetAptos, deployer, simulatedSteps);
+  } else {
+    console.log(`Stablecoin initialized for ${tokenConfig.symbol}`);
+  }
+
+  if (manifestFile != null) {
+    // Steps that were executed in an earlier run are taken from the journal.
+    const { transactions, unrecoveredSteps } = await getManifestTransactions(
+      aptos,
+      journal.data.steps
+    );
+    for (const name of unrecoveredSteps) {
+      console.log(
+        `\u001b[33mThe transaction of '${name}' could not be recovered, and is listed as unrecovered in the manifest.\u001b[0m`
+      );
+    }
+    writeDeploymentManifest(manifestFile, {
+      chainId: (await aptos.getLedgerInfo()).chain_id,
+      deployer: deployer.accountAddress.toString(),
+      seeds: {
+        aptos_extensions: APTOS_EXTENSIONS_SEED,
+        stablecoin: STABLECOIN_SEED
+      },
+      packageIds: {
+        aptos_extensions: aptosExtensionsPackageId,
+        stablecoin: stablecoinPackageId
+      },
+      stablecoinAddress,
+      transactions,
+      unrecoveredSteps,
+      tokenConfigHash: hashFile(tokenConfigPath),
+      ...readMoveCompilerSettings(),
+      sourceUploaded: !!verifySource
+    });
+  }
 
   return {
     aptosExtensionsPackageId,
@@ -113,117 +285,264 @@ export async function deployAndInitializeToken({
   };
 }
 
-async function publishPackages(
-  aptos: Aptos,
+/**
+ * Checks that the stand-in is a different network than the target, as the
+ * dry run executes the deployment on it, and funds the deployer there.
+ * The resource accounts must not exist on the stand-in yet, as an earlier
+ * dry run with the same deployer leaves its packages behind.
+ */
+async function prepareStandIn(
+  targetAptos: Aptos,
+  standInAptos: Aptos,
   deployer: Ed25519Account,
-  verifySource: boolean
+  packageIds: string[]
 ) {
-  const [aptosExtensionsPackageId] = await publishPackageToResourceAccount({
-    aptos,
-    deployer,
-    packageName: "aptos_extensions",
-    seed: new Uint8Array(Buffer.from("aptos_extensions")),
-    namedDeps: [
-      { name: "deployer", address: deployer.accountAddress.toString() }
-    ],
-    verifySource
-  });
+  const targetChainId = (await targetAptos.getLedgerInfo()).chain_id;
+  const standInChainId = (await standInAptos.getLedgerInfo()).chain_id;
+  if (targetChainId === standInChainId) {
+    throw new Error(
+      `The stand-in network must differ from the target network, but both have chain ID ${targetChainId}!`
+    );
+  }
 
-  const [stablecoinPackageId] = await publishPackageToResourceAccount({
-    aptos,
-    deployer,
-    packageName: "stablecoin",
-    namedDeps: [
-      { name: "aptos_extensions", address: aptosExtensionsPackageId },
-      { name: "deployer", address: deployer.accountAddress.toString() }
-    ],
-    seed: new Uint8Array(Buffer.from("stablecoin")),
-    verifySource
+  for (const packageId of packageIds) {
+    const exists = await callViewFunction<boolean>(
+      standInAptos,
+      "0x1::account::exists_at",
+      [],
+      [AccountAddress.fromStrict(packageId)]
+    );
+    if (exists) {
+      throw new Error(
+        `The resource account ${packageId} already exists on the stand-in network, reset the stand-in network and try again!`
+      );
+    }
+  }
+
+  console.log(`Funding the deployer on the stand-in network...`);
+  await standInAptos.fundAccount({
+    accountAddress: deployer.accountAddress,
+    amount: 10 * 10 ** 8,
+    options: { waitForIndexer: false }
   });
+}
 
-  return { aptosExtensionsPackageId, stablecoinPackageId };
+/**
+ * Prints the simulated steps with their cost at the target network's gas
+ * price, and checks that the deployer can pay for them.
+ */
+async function reportDryRun(
+  targetAptos: Aptos,
+  deployer: Ed25519Account,
+  simulatedSteps: SimulatedStep[]
+) {
+  const gasUnitPrice = BigInt(
+    (await targetAptos.getGasPriceEstimation()).gas_estimate
+  );
+  const balance = BigInt(
+    await callViewFunction<string>(
+      targetAptos,
+      "0x1::coin::balance",
+      ["0x1::aptos_coin::AptosCoin"],
+      [deployer.accountAddress]
+    )
+  );
+
+  console.log(renderSimulatedSteps(simulatedSteps, gasUnitPrice));
+  console.log(`Deployer balance: ${formatApt(balance)} APT`);
+
+  const cost = getTotalGasUsed(simulatedSteps) * gasUnitPrice;
+  if (balance < cost) {
+    throw new Error(
+      `The deployer balance of ${formatApt(balance)} APT does not cover the estimated cost of ${formatApt(cost)} APT!`
+    );
+  }
+  console.log("\u001b[32mThe dry run succeeded!\u001b[0m");
 }
 
-async function initializeStablecoin(
+function getPublishSteps(
+  aptos: Aptos,
+  deployer: Ed25519Account,
+  verifySource: boolean,
+  aptosExtensionsPackageId: string,
+  stablecoinPackageId: string
+): DeploymentStep[] {
+  const isPublished = async (packageId: string, packageName: string) => {
+    try {
+      return !!(await getPackageMetadata(aptos, packageId, packageName));
+    } catch {
+      // The resource account does not exist yet.
+      return false;
+    }
+  };
+
+  return [
+    {
+      name: "publish aptos_extensions",
+      isDone: () => isPublished(aptosExtensionsPackageId, "AptosExtensions"),
+      payload: () =>
+        buildPublishToResourceAccountPayload({
+          deployer: deployer.accountAddress,
+          packageName: "aptos_extensions",
+          seed: new Uint8Array(Buffer.from(APTOS_EXTENSIONS_SEED)),
+          namedDeps: [
+            { name: "deployer", address: deployer.accountAddress.toString() }
+          ],
+          verifySource
+        })
+    },
+    {
+      name: "publish stablecoin",
+      isDone: () => isPublished(stablecoinPackageId, "Stablecoin"),
+      payload: () =>
+        buildPublishToResourceAccountPayload({
+          deployer: deployer.accountAddress,
+          packageName: "stablecoin",
+          namedDeps: [
+            { name: "aptos_extensions", address: aptosExtensionsPackageId },
+            { name: "deployer", address: deployer.accountAddress.toString() }
+          ],
+          seed: new Uint8Array(Buffer.from(STABLECOIN_SEED)),
+          verifySource
+        })
+    }
+  ];
+}
+
+function getInitializationSteps(
+  aptos: Aptos,
   aptosExtensionsPackage: AptosExtensionsPackage,
   stablecoinPackage: StablecoinPackage,
   stablecoinAddress: string,
   deployer: Ed25519Account,
-  tokenConfig: TokenConfig
-) {
+  tokenConfig: TokenConfig,
+  journal: DeploymentJournal
+): DeploymentStep[] {
+  const { treasury, blocklistable, metadata } = stablecoinPackage;
+  const { ownable, manageable, pausable } = aptosExtensionsPackage;
+  const deployerAddress = deployer.accountAddress.toString();
+  const steps: DeploymentStep[] = [];
+
   // Initialize the stablecoin.
-  await stablecoinPackage.stablecoin.initializeV1(
-    deployer,
-    tokenConfig.name,
-    tokenConfig.symbol,
-    tokenConfig.decimals,
-    tokenConfig.iconUri,
-    tokenConfig.projectUri
-  );
+  steps.push({
+    name: "initialize stablecoin",
+    isDone: async () => {
+      const stablecoinState = await aptos.getAccountResource({
+        accountAddress: stablecoinAddress,
+        resourceType: `${stablecoinPackage.id}::stablecoin::StablecoinState`
+      });
+      return Number(stablecoinState.initialized_version) > 0;
+    },
+    payload: async () =>
+      stablecoinPackage.stablecoin.initializeV1Payload(
+        tokenConfig.name,
+        tokenConfig.symbol,
+        tokenConfig.decimals,
+        tokenConfig.iconUri,
+        tokenConfig.projectUri
+      )
+  });
 
   // Configure the minters.
   for (const [minter, mintAllowance] of Object.entries(tokenConfig.minters)) {
     // Configure deployer as the temporary controller for the minter.
-    await stablecoinPackage.treasury.configureController(
-      deployer,
-      deployer.accountAddress,
-      minter
-    );
+    steps.push({
+      name: `configure temporary controller for minter ${minter}`,
+      isDone: async () =>
+        (await treasury.isMinter(minter)) ||
+        (await treasury.getMinter(deployerAddress)) === minter,
+      payload: async () =>
+        treasury.configureControllerPayload(deployer.accountAddress, minter)
+    });
 
     // Configure the minter.
-    await stablecoinPackage.treasury.configureMinter(
-      deployer,
-      BigInt(mintAllowance)
-    );
+    steps.push({
+      name: `configure minter ${minter}`,
+      isDone: () => treasury.isMinter(minter),
+      payload: async () =>
+        treasury.configureMinterPayload(BigInt(mintAllowance))
+    });
   }
 
   // Remove the deployer from the controllers list, if it was configured as a temporary controller.
   if (Object.keys(tokenConfig.minters).length > 0) {
-    await stablecoinPackage.treasury.removeController(
-      deployer,
-      deployer.accountAddress
-    );
+    const name = "remove temporary controller";
+    steps.push({
+      name,
+      // The deployer may also be configured as a controller in a later step,
+      // so the journal is checked too.
+      isDone: async () =>
+        journal.isExecuted(name) ||
+        (await treasury.getMinter(deployerAddress)) == null,
+      payload: async () =>
+        treasury.removeControllerPayload(deployer.accountAddress)
+    });
   }
 
   // Configure the controllers.
   for (const [controller, minter] of Object.entries(tokenConfig.controllers)) {
-    await stablecoinPackage.treasury.configureController(
-      deployer,
-      controller,
-      minter
-    );
+    steps.push({
+      name: `configure controller ${controller}`,
+      isDone: async () => (await treasury.getMinter(controller)) === minter,
+      payload: async () =>
+        treasury.configureControllerPayload(controller, minter)
+    });
   }
 
   // Rotate privileged roles to the addresses defined in the config.
-  await stablecoinPackage.treasury.updateMasterMinter(
-    deployer,
-    tokenConfig.masterMinter
-  );
-  await stablecoinPackage.blocklistable.updateBlocklister(
-    deployer,
-    tokenConfig.blocklister
-  );
-  await stablecoinPackage.metadata.updateMetadataUpdater(
-    deployer,
-    tokenConfig.metadataUpdater
-  );
-  await aptosExtensionsPackage.pausable.updatePauser(
-    deployer,
-    stablecoinAddress,
-    tokenConfig.pauser
+  steps.push(
+    {
+      name: "update master minter",
+      isDone: async () =>
+        (await treasury.masterMinter()) === tokenConfig.masterMinter,
+      payload: async () =>
+        treasury.updateMasterMinterPayload(tokenConfig.masterMinter)
+    },
+    {
+      name: "update blocklister",
+      isDone: async () =>
+        (await blocklistable.blocklister()) === tokenConfig.blocklister,
+      payload: async () =>
+        blocklistable.updateBlocklisterPayload(tokenConfig.blocklister)
+    },
+    {
+      name: "update metadata updater",
+      isDone: async () =>
+        (await metadata.metadataUpdater()) === tokenConfig.metadataUpdater,
+      payload: async () =>
+        metadata.updateMetadataUpdaterPayload(tokenConfig.metadataUpdater)
+    },
+    {
+      name: "update pauser",
+      isDone: async () =>
+        (await pausable.pauser(stablecoinAddress)) === tokenConfig.pauser,
+      payload: async () =>
+        pausable.updatePauserPayload(stablecoinAddress, tokenConfig.pauser)
+    }
   );
 
   // Start the two-step ownership and admin transfer.
   // Note that the recipients of these roles will need to separately
   // submit a transaction that accepts these roles.
-  await aptosExtensionsPackage.ownable.transferOwnership(
-    deployer,
-    stablecoinAddress,
-    tokenConfig.owner
-  );
-  await aptosExtensionsPackage.manageable.changeAdmin(
-    deployer,
-    stablecoinPackage.id,
-    tokenConfig.admin
+  steps.push(
+    {
+      name: "transfer ownership",
+      isDone: async () =>
+        (await ownable.pendingOwner(stablecoinAddress)) === tokenConfig.owner ||
+        (await ownable.owner(stablecoinAddress)) === tokenConfig.owner,
+      payload: async () =>
+        ownable.transferOwnershipPayload(stablecoinAddress, tokenConfig.owner)
+    },
+    {
+      name: "change admin",
+      isDone: async () =>
+        (await manageable.pendingAdmin(stablecoinPackage.id)) ===
+          tokenConfig.admin ||
+        (await manageable.admin(stablecoinPackage.id)) === tokenConfig.admin,
+      payload: async () =>
+        manageable.changeAdminPayload(stablecoinPackage.id, tokenConfig.admin)
+    }
   );
+
+  return steps;
 }
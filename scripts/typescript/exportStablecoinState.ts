@@ -0,0 +1,165 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import fs from "fs";
+import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  normalizeAddress,
+  pinAptosClient,
+  validateAddresses
+} from "./utils";
+import {
+  buildCurrentTokenState,
+  ConfigFile,
+  configSchema,
+  getTreasuryKeysFromEvents
+} from "./validateStablecoinState";
+
+export default program
+  .createCommand("export-stablecoin-state")
+  .description(
+    "Exports the live stablecoin state as a validate-stablecoin-state config file"
+  )
+  .requiredOption(
+    "--aptos-extensions-package-id <string>",
+    "The address where the aptos_extensions package is located."
+  )
+  .requiredOption(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located."
+  )
+  .requiredOption("-o, --output <string>", "The config file to write")
+  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+  .requiredOption(
+    "--indexer-url <string>",
+    "Indexer GraphQL API URL, used to enumerate the controllers and minters"
+  )
+  .action(async (options) => {
+    await exportStablecoinState(options);
+  });
+
+/**
+ * Exports the live state of a stablecoin in the format of a
+ * validate-stablecoin-state config file, so that it can be reviewed and used
+ * as a baseline for later validations. Reads are pinned to the latest ledger
+ * version, and the event history is replayed up to the same version.
+ */
+export async function exportStablecoinState({
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  output,
+  rpcUrl,
+  indexerUrl
+}: {
+  aptosExtensionsPackageId: string;
+  stablecoinPackageId: string;
+  output: string;
+  rpcUrl: string;
+  indexerUrl: string;
+}): Promise<ConfigFile> {
+  validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
+
+  const latestAptos = getAptosClient(rpcUrl, undefined, indexerUrl);
+  const ledgerVersion = BigInt(
+    (await latestAptos.getLedgerInfo()).ledger_version
+  );
+  const aptos = pinAptosClient(latestAptos, ledgerVersion);
+  const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
+  const aptosExtensionsPackage = new AptosExtensionsPackage(
+    aptos,
+    aptosExtensionsPackageId
+  );
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  const tokenState = await buildCurrentTokenState(
+    aptos,
+    aptosFrameworkPackage,
+    aptosExtensionsPackage,
+    stablecoinPackage,
+    stablecoinAddress
+  );
+
+  // The controllers and minters tables cannot be enumerated, so their keys are
+  // rebuilt from the event history, and checked against the table sizes in
+  // case the indexer is behind.
+  const treasuryKeys = await getTreasuryKeysFromEvents(
+    aptos,
+    stablecoinPackageId,
+    stablecoinAddress,
+    ledgerVersion
+  );
+  const treasuryStateResource = await aptos.getAccountResource({
+    accountAddress: stablecoinAddress,
+    resourceType: `${stablecoinPackageId}::treasury::TreasuryState`
+  });
+  const controllerCount = Number(treasuryStateResource.controllers.size);
+  const minterCount = Number(treasuryStateResource.mint_allowances.size);
+  if (
+    treasuryKeys.controllers.size !== controllerCount ||
+    treasuryKeys.minters.size !== minterCount
+  ) {
+    throw new Error(
+      `The event history has ${treasuryKeys.controllers.size} controllers and ${treasuryKeys.minters.size} minters, but ${controllerCount} controllers and ${minterCount} minters are configured!`
+    );
+  }
+
+  const controllers: Record<string, string> = {};
+  for (const controller of treasuryKeys.controllers) {
+    const minter = await stablecoinPackage.treasury.getMinter(controller);
+    if (minter == null) {
+      throw new Error(`The controller ${controller} is not configured!`);
+    }
+    controllers[controller] = minter;
+  }
+
+  const minters: Record<string, string> = {};
+  for (const minter of treasuryKeys.minters) {
+    minters[minter] = (
+      await stablecoinPackage.treasury.mintAllowance(minter)
+    ).toString();
+  }
+
+  const blocklistStateResource = await aptos.getAccountResource({
+    accountAddress: stablecoinAddress,
+    resourceType: `${stablecoinPackageId}::blocklistable::BlocklistState`
+  });
+  const blocklist: string[] =
+    blocklistStateResource.blocklist.map(normalizeAddress);
+
+  // Ensure that the exported config is accepted by validate-stablecoin-state.
+  const config = configSchema.validateSync(
+    {
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      expectedStates: { ...tokenState, controllers, minters, blocklist }
+    },
+    { abortEarly: false, strict: true }
+  );
+
+  fs.writeFileSync(output, JSON.stringify(config, null, 2) + "\n");
+  console.log(
+    `\u001b[32mStablecoin state at ledger version ${ledgerVersion} exported to: '${output}'\u001b[0m`
+  );
+  return config;
+}
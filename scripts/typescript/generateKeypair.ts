@@ -19,6 +19,12 @@
 import { Account, Aptos, AptosApiType } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { getAptosClient } from "./utils";
+import {
+  DEFAULT_KEYSTORE_PASSWORD_ENV,
+  encryptPrivateKey,
+  getKeystorePassword,
+  writeKeystore
+} from "./utils/keystore";
 
 export default program
   .createCommand("generate-keypair")
@@ -32,20 +38,43 @@ export default program
     "--faucet-url <string>",
     "Faucet URL, required when prefund is enabled"
   )
+  .option(
+    "--keystore <string>",
+    "Path to write an encrypted keystore to. The secret key is not printed if set"
+  )
+  .option(
+    "--keystore-password-env <string>",
+    `Name of the environment variable containing the keystore password. Defaults to ${DEFAULT_KEYSTORE_PASSWORD_ENV}`
+  )
   .action(async (options) => {
     const keypair = await generateKeypair(options);
     console.log("Account address:", keypair.accountAddress.toString());
     console.log("Public key:", keypair.publicKey.toString());
-    console.log("Secret key:", keypair.privateKey.toString());
+    if (!options.keystore) {
+      console.log("Secret key:", keypair.privateKey.toString());
+    }
   });
 
 export async function generateKeypair(options: {
   rpcUrl?: string;
   faucetUrl?: string;
   prefund?: boolean;
+  keystore?: string;
+  keystorePasswordEnv?: string;
 }) {
   const keypair = Account.generate();
 
+  if (options.keystore) {
+    writeKeystore(
+      options.keystore,
+      encryptPrivateKey(
+        keypair.privateKey,
+        getKeystorePassword(options.keystorePasswordEnv)
+      )
+    );
+    console.log(`Encrypted keystore saved to: '${options.keystore}'`);
+  }
+
   if (options.prefund) {
     let aptos: Aptos;
 
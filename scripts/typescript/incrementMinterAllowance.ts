@@ -0,0 +1,150 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  MAX_U64,
+  validateAddresses,
+  waitForUserConfirmation
+} from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
+import { getTypedEvent } from "./utils/events";
+import { formatTokenAmount } from "./utils/formatting";
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("increment-minter-allowance")
+    .description("Increments a minter's mint allowance")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--controller-key <string>",
+      "Minter's controller private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--allowance-increment <string>",
+      "The amount (in subunits) to add to the mint allowance"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(incrementMinterAllowance);
+
+export async function incrementMinterAllowance({
+  stablecoinPackageId,
+  controllerKey,
+  allowanceIncrement,
+  rpcUrl,
+  ...buildOnlyOptions
+}: {
+  stablecoinPackageId: string;
+  controllerKey?: string;
+  allowanceIncrement: string;
+  rpcUrl: string;
+} & BuildOnlyOptions) {
+  validateAddresses(stablecoinPackageId);
+  if (BigInt(allowanceIncrement) <= BigInt(0)) {
+    throw new Error("Allowance increment must be greater than zero");
+  }
+  if (BigInt(allowanceIncrement) > MAX_U64) {
+    throw new Error("Allowance increment exceeds MAX_U64");
+  }
+
+  const aptos = getAptosClient(rpcUrl);
+  const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+
+  const controllerAddress = getSenderAddress(controllerKey, buildOnlyOptions);
+  const minter = await stablecoinPackage.treasury.getMinter(controllerAddress);
+  if (minter == null) {
+    throw new Error(
+      `The sender ${controllerAddress.toString()} is not a controller!`
+    );
+  }
+  if (!(await stablecoinPackage.treasury.isMinter(minter))) {
+    throw new Error(`The minter ${minter} is not configured!`);
+  }
+
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+  const decimals =
+    await aptosFrameworkPackage.fungibleAsset.getDecimals(stablecoinAddress);
+
+  // The transaction would abort on-chain if the new allowance overflows.
+  const currentAllowance =
+    await stablecoinPackage.treasury.mintAllowance(minter);
+  const newAllowance = currentAllowance + BigInt(allowanceIncrement);
+  if (newAllowance > MAX_U64) {
+    throw new Error(
+      `The new mint allowance ${newAllowance} exceeds MAX_U64! The current mint allowance is ${currentAllowance}.`
+    );
+  }
+
+  console.log(
+    `The current mint allowance of minter ${minter} is ${formatTokenAmount(currentAllowance, decimals)}.`
+  );
+  console.log(
+    `Incrementing the mint allowance by ${formatTokenAmount(allowanceIncrement, decimals)} to ${formatTokenAmount(newAllowance, decimals)}...`
+  );
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.incrementMinterAllowancePayload(
+        BigInt(allowanceIncrement)
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  const txOutput = await stablecoinPackage.treasury.incrementMinterAllowance(
+    getSigner(controllerKey),
+    BigInt(allowanceIncrement)
+  );
+
+  const { data: incrementedEvent } = getTypedEvent(
+    txOutput,
+    stablecoinPackageId,
+    "treasury::MinterAllowanceIncremented"
+  );
+  if (
+    incrementedEvent.minter !== minter ||
+    incrementedEvent.allowanceIncrement !== BigInt(allowanceIncrement)
+  ) {
+    throw new Error(
+      `Unexpected MinterAllowanceIncremented event for minter ${incrementedEvent.minter} with increment ${incrementedEvent.allowanceIncrement}!`
+    );
+  }
+
+  console.log(
+    `\u001b[32mIncremented the mint allowance of minter ${minter} by ${formatTokenAmount(incrementedEvent.allowanceIncrement, decimals)}. The new mint allowance is ${formatTokenAmount(incrementedEvent.newAllowance, decimals)}.\u001b[0m`
+  );
+}
@@ -20,6 +20,8 @@ import { program } from "commander";
 
 import acceptAdmin from "./acceptAdmin";
 import acceptOwnership from "./acceptOwnership";
+import blocklist from "./blocklist";
+import burn from "./burn";
 import calculateDeploymentAddresses from "./calculateDeploymentAddresses";
 import changeAdmin from "./changeAdmin";
 import configureController from "./configureController";
@@ -28,12 +30,25 @@ import decodeTransaction from "./decodeTransaction";
 import deploy from "./deploy";
 import deployAndInitializeToken from "./deployAndInitializeToken";
 import executeTransaction from "./executeTransaction";
+import exportStablecoinState from "./exportStablecoinState";
 import generateKeypair from "./generateKeypair";
+import incrementMinterAllowance from "./incrementMinterAllowance";
+import mint from "./mint";
+import monitorStablecoinState from "./monitorStablecoinState";
+import pause from "./pause";
+import reconcileSupply from "./reconcileSupply";
 import removeController from "./removeController";
 import removeMinter from "./removeMinter";
+import roleHistory from "./roleHistory";
+import scanEvents from "./scanEvents";
+import signingCeremony from "./signingCeremony";
+import signTransaction from "./signTransaction";
 import transferOwnership from "./transferOwnership";
+import unblocklist from "./unblocklist";
+import unpause from "./unpause";
 import updateBlocklister from "./updateBlocklister";
 import updateMasterMinter from "./updateMasterMinter";
+import updateMetadata from "./updateMetadata";
 import updateMetadataUpdater from "./updateMetadataUpdater";
 import updatePauser from "./updatePauser";
 import upgradeStablecoinPackage from "./upgradeStablecoinPackage";
@@ -46,6 +61,8 @@ program
   .description("Scripts related to Aptos development")
   .addCommand(acceptAdmin)
   .addCommand(acceptOwnership)
+  .addCommand(blocklist)
+  .addCommand(burn)
   .addCommand(calculateDeploymentAddresses)
   .addCommand(changeAdmin)
   .addCommand(configureController)
@@ -54,12 +71,25 @@ program
   .addCommand(deploy)
   .addCommand(deployAndInitializeToken)
   .addCommand(executeTransaction)
+  .addCommand(exportStablecoinState)
   .addCommand(generateKeypair)
+  .addCommand(incrementMinterAllowance)
+  .addCommand(mint)
+  .addCommand(monitorStablecoinState)
+  .addCommand(pause)
+  .addCommand(reconcileSupply)
   .addCommand(removeController)
   .addCommand(removeMinter)
+  .addCommand(roleHistory)
+  .addCommand(scanEvents)
+  .addCommand(signingCeremony)
+  .addCommand(signTransaction)
   .addCommand(transferOwnership)
+  .addCommand(unblocklist)
+  .addCommand(unpause)
   .addCommand(updateBlocklister)
   .addCommand(updateMasterMinter)
+  .addCommand(updateMetadata)
   .addCommand(updateMetadataUpdater)
   .addCommand(updatePauser)
   .addCommand(upgradeStablecoinPackage)
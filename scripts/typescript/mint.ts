@@ -0,0 +1,168 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  MAX_U64,
+  validateAddresses,
+  waitForUserConfirmation
+} from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
+import { getTypedEvent } from "./utils/events";
+import { buildMoveScript } from "./utils/moveScripts";
+import { formatTokenAmount } from "./utils/formatting";
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("mint")
+    .description(
+      "Mints stablecoins and deposits them into the recipient's primary store"
+    )
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--minter-key <string>",
+      "Minter's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--recipient <string>", "The recipient's address")
+    .requiredOption("--amount <string>", "The amount (in subunits) to mint")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(mint);
+
+export async function mint({
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  minterKey,
+  recipient,
+  amount,
+  rpcUrl,
+  ...buildOnlyOptions
+}: {
+  aptosExtensionsPackageId: string;
+  stablecoinPackageId: string;
+  minterKey?: string;
+  recipient: string;
+  amount: string;
+  rpcUrl: string;
+} & BuildOnlyOptions) {
+  validateAddresses(aptosExtensionsPackageId, stablecoinPackageId, recipient);
+  if (BigInt(amount) <= BigInt(0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+  if (BigInt(amount) > MAX_U64) {
+    throw new Error("Amount exceeds MAX_U64");
+  }
+
+  const aptos = getAptosClient(rpcUrl);
+  const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
+  const aptosExtensionsPackage = new AptosExtensionsPackage(
+    aptos,
+    aptosExtensionsPackageId
+  );
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  // Check the conditions that treasury::mint asserts on, so that the
+  // transaction does not abort on-chain.
+  const minter = getSenderAddress(minterKey, buildOnlyOptions).toString();
+  if (await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress)) {
+    throw new Error(`The stablecoin ${stablecoinAddress} is paused!`);
+  }
+  if (!(await stablecoinPackage.treasury.isMinter(minter))) {
+    throw new Error(`The sender ${minter} is not a minter!`);
+  }
+  if (await stablecoinPackage.blocklistable.isBlocklisted(minter)) {
+    throw new Error(`The minter ${minter} is blocklisted!`);
+  }
+  if (await stablecoinPackage.blocklistable.isBlocklisted(recipient)) {
+    throw new Error(`The recipient ${recipient} is blocklisted!`);
+  }
+
+  const decimals =
+    await aptosFrameworkPackage.fungibleAsset.getDecimals(stablecoinAddress);
+  const mintAllowance = await stablecoinPackage.treasury.mintAllowance(minter);
+  if (mintAllowance < BigInt(amount)) {
+    throw new Error(
+      `The mint allowance of ${formatTokenAmount(mintAllowance, decimals)} is insufficient to mint ${formatTokenAmount(amount, decimals)}!`
+    );
+  }
+
+  console.log(
+    `Minting ${formatTokenAmount(amount, decimals)} to ${recipient}. The mint allowance of minter ${minter} is ${formatTokenAmount(mintAllowance, decimals)}.`
+  );
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  const scriptBytecode = buildMoveScript("mint", {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  });
+
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.mintPayload(
+        scriptBytecode,
+        recipient,
+        BigInt(amount)
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  const txOutput = await stablecoinPackage.treasury.mint(
+    getSigner(minterKey),
+    scriptBytecode,
+    recipient,
+    BigInt(amount)
+  );
+
+  const { data: mintEvent } = getTypedEvent(
+    txOutput,
+    stablecoinPackageId,
+    "treasury::Mint"
+  );
+  if (mintEvent.minter !== minter || mintEvent.amount !== BigInt(amount)) {
+    throw new Error(
+      `Unexpected Mint event for minter ${mintEvent.minter} with amount ${mintEvent.amount}!`
+    );
+  }
+
+  console.log(
+    `\u001b[32mMinted ${formatTokenAmount(amount, decimals)} to ${recipient}\u001b[0m`
+  );
+}
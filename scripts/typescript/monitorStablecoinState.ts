@@ -0,0 +1,193 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import fs from "fs";
+import { isBigIntable } from "./utils";
+import {
+  DriftNotification,
+  JsonlFileSink,
+  NotificationSink,
+  StdoutSink,
+  WebhookSink
+} from "./utils/notificationSinks";
+import { ValidationMismatch } from "./utils/validationReport";
+import { configSchema, getValidationResult } from "./validateStablecoinState";
+
+export default program
+  .createCommand("monitor-stablecoin-state")
+  .description(
+    "Repeatedly validates the stablecoin state, and notifies when drift from the expected state appears or clears"
+  )
+  .argument("<string>", "Path to a validateStablecoinState config file")
+  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+  .option(
+    "--indexer-url <string>",
+    "Indexer GraphQL API URL. If set, unexpected controllers and minters are identified from the event history"
+  )
+  .option(
+    "--interval <number>",
+    "The number of seconds to wait between validations",
+    "60"
+  )
+  .option(
+    "--iterations <number>",
+    "The number of validations to run. Runs until stopped if unset"
+  )
+  .option(
+    "--jsonl-file <string>",
+    "A file to append notifications to, as JSON lines"
+  )
+  .option("--webhook-url <string>", "A URL to post notifications to, as JSON")
+  .action(async (configFilePath, options) => {
+    await monitorStablecoinState(configFilePath, options);
+  });
+
+/**
+ * Validates the stablecoin state at a fixed interval. Notifications are only
+ * sent when the set of mismatches changes, so a persisting drift is reported
+ * once when it appears, and once more when it clears.
+ *
+ * Notifications are printed, and also sent to a JSONL file and a webhook if
+ * they are set. A validation that fails to run, for example because the RPC
+ * is unavailable, is logged and retried at the next interval.
+ *
+ * @returns the notifications that were sent.
+ */
+export async function monitorStablecoinState(
+  configFilePath: string,
+  {
+    rpcUrl,
+    indexerUrl,
+    interval = "60",
+    iterations,
+    jsonlFile,
+    webhookUrl
+  }: {
+    rpcUrl: string;
+    indexerUrl?: string;
+    interval?: string;
+    iterations?: string;
+    jsonlFile?: string;
+    webhookUrl?: string;
+  }
+): Promise<DriftNotification[]> {
+  for (const [name, value] of Object.entries({ interval, iterations })) {
+    if (value != null && (!isBigIntable(value) || Number(value) < 0)) {
+      throw new Error(`Invalid ${name} ${value}!`);
+    }
+  }
+
+  const config = configSchema.validateSync(
+    JSON.parse(fs.readFileSync(configFilePath, "utf8")),
+    { abortEarly: false, strict: true }
+  );
+
+  const sinks: NotificationSink[] = [new StdoutSink()];
+  if (jsonlFile != null) {
+    sinks.push(new JsonlFileSink(jsonlFile));
+  }
+  if (webhookUrl != null) {
+    sinks.push(new WebhookSink(webhookUrl));
+  }
+
+  const notifications: DriftNotification[] = [];
+  let previousMismatches = new Map<string, ValidationMismatch>();
+
+  for (
+    let iteration = 0;
+    iterations == null || iteration < Number(iterations);
+    iteration++
+  ) {
+    if (iteration > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, Number(interval) * 1000)
+      );
+    }
+
+    let result;
+    try {
+      result = await getValidationResult(config, { rpcUrl, indexerUrl });
+    } catch (error) {
+      console.error(`Failed to validate the stablecoin state: ${error}`);
+      continue;
+    }
+
+    const mismatches = new Map(
+      result.mismatches.map((mismatch) => [getMismatchKey(mismatch), mismatch])
+    );
+    const appeared = [...mismatches].filter(
+      ([key]) => !previousMismatches.has(key)
+    );
+    const cleared = [...previousMismatches].filter(
+      ([key]) => !mismatches.has(key)
+    );
+
+    if (appeared.length > 0 || cleared.length > 0) {
+      const notification: DriftNotification = {
+        timestamp: new Date().toISOString(),
+        ledgerVersion: result.ledgerVersion,
+        status:
+          mismatches.size === 0
+            ? "cleared"
+            : previousMismatches.size === 0
+              ? "drift"
+              : "changed",
+        mismatches: result.mismatches,
+        appeared: appeared.map(([, mismatch]) => mismatch),
+        cleared: cleared.map(([, mismatch]) => mismatch)
+      };
+      await notify(sinks, notification);
+      notifications.push(notification);
+    } else {
+      console.log(
+        `No change in drift at ledger version ${result.ledgerVersion} (${mismatches.size} mismatches)`
+      );
+    }
+    previousMismatches = mismatches;
+  }
+
+  return notifications;
+}
+
+/**
+ * Sends a notification to every sink. A failing sink does not stop the others.
+ */
+async function notify(
+  sinks: NotificationSink[],
+  notification: DriftNotification
+) {
+  const results = await Promise.allSettled(
+    sinks.map((sink) => sink.notify(notification))
+  );
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      console.error(`Failed to notify ${sinks[i].name}: ${result.reason}`);
+    }
+  });
+}
+
+function getMismatchKey(mismatch: ValidationMismatch): string {
+  return JSON.stringify([
+    mismatch.field,
+    mismatch.severity,
+    mismatch.message,
+    mismatch.expected,
+    mismatch.actual
+  ]);
+}
@@ -21,6 +21,7 @@ import {
   AccountAddressInput,
   Aptos,
   Ed25519Account,
+  InputEntryFunctionData,
   HexInput,
   MoveVector,
   UserTransactionResponse
@@ -74,16 +75,24 @@ class Upgradable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::upgrade_package`,
-        functionArguments: [
-          AccountAddress.fromStrict(packageId),
-          MoveVector.U8(metadataBytes),
-          new MoveVector(bytecode.map(MoveVector.U8))
-        ]
-      }
+      data: this.upgradePackagePayload(packageId, metadataBytes, bytecode)
     });
   }
+
+  upgradePackagePayload(
+    packageId: AccountAddressInput,
+    metadataBytes: HexInput,
+    bytecode: HexInput[]
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::upgrade_package`,
+      functionArguments: [
+        AccountAddress.fromStrict(packageId),
+        MoveVector.U8(metadataBytes),
+        new MoveVector(bytecode.map(MoveVector.U8))
+      ]
+    };
+  }
 }
 
 class Manageable {
@@ -122,16 +131,23 @@ class Manageable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::change_admin`,
-        functionArguments: [
-          AccountAddress.fromStrict(packageId),
-          AccountAddress.fromStrict(newAdmin)
-        ]
-      }
+      data: this.changeAdminPayload(packageId, newAdmin)
     });
   }
 
+  changeAdminPayload(
+    packageId: AccountAddressInput,
+    newAdmin: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::change_admin`,
+      functionArguments: [
+        AccountAddress.fromStrict(packageId),
+        AccountAddress.fromStrict(newAdmin)
+      ]
+    };
+  }
+
   async acceptAdmin(
     sender: Ed25519Account,
     packageId: AccountAddressInput
@@ -139,12 +155,16 @@ class Manageable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::accept_admin`,
-        functionArguments: [AccountAddress.fromStrict(packageId)]
-      }
+      data: this.acceptAdminPayload(packageId)
     });
   }
+
+  acceptAdminPayload(packageId: AccountAddressInput): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::accept_admin`,
+      functionArguments: [AccountAddress.fromStrict(packageId)]
+    };
+  }
 }
 
 class Ownable {
@@ -183,16 +203,23 @@ class Ownable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::transfer_ownership`,
-        functionArguments: [
-          AccountAddress.fromStrict(objectId),
-          AccountAddress.fromStrict(newAdmin)
-        ]
-      }
+      data: this.transferOwnershipPayload(objectId, newAdmin)
     });
   }
 
+  transferOwnershipPayload(
+    objectId: AccountAddressInput,
+    newAdmin: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::transfer_ownership`,
+      functionArguments: [
+        AccountAddress.fromStrict(objectId),
+        AccountAddress.fromStrict(newAdmin)
+      ]
+    };
+  }
+
   async acceptOwnership(
     sender: Ed25519Account,
     objectId: AccountAddressInput
@@ -200,12 +227,18 @@ class Ownable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::accept_ownership`,
-        functionArguments: [AccountAddress.fromStrict(objectId)]
-      }
+      data: this.acceptOwnershipPayload(objectId)
     });
   }
+
+  acceptOwnershipPayload(
+    objectId: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::accept_ownership`,
+      functionArguments: [AccountAddress.fromStrict(objectId)]
+    };
+  }
 }
 
 class Pausable {
@@ -236,6 +269,42 @@ class Pausable {
     return normalizeAddress(result);
   }
 
+  async pause(
+    sender: Ed25519Account,
+    objectId: AccountAddressInput
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.pausePayload(objectId)
+    });
+  }
+
+  pausePayload(objectId: AccountAddressInput): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::pause`,
+      functionArguments: [AccountAddress.fromStrict(objectId)]
+    };
+  }
+
+  async unpause(
+    sender: Ed25519Account,
+    objectId: AccountAddressInput
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.unpausePayload(objectId)
+    });
+  }
+
+  unpausePayload(objectId: AccountAddressInput): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::unpause`,
+      functionArguments: [AccountAddress.fromStrict(objectId)]
+    };
+  }
+
   async updatePauser(
     sender: Ed25519Account,
     objectId: AccountAddressInput,
@@ -244,13 +313,20 @@ class Pausable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::update_pauser`,
-        functionArguments: [
-          AccountAddress.fromStrict(objectId),
-          AccountAddress.fromStrict(newPauser)
-        ]
-      }
+      data: this.updatePauserPayload(objectId, newPauser)
     });
   }
+
+  updatePauserPayload(
+    objectId: AccountAddressInput,
+    newPauser: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::update_pauser`,
+      functionArguments: [
+        AccountAddress.fromStrict(objectId),
+        AccountAddress.fromStrict(newPauser)
+      ]
+    };
+  }
 }
@@ -22,10 +22,15 @@ import { callViewFunction, normalizeAddress } from "../utils";
 export class AptosFrameworkPackage {
   readonly id: AccountAddressInput;
   readonly fungibleAsset: FungibleAsset;
+  readonly primaryFungibleStore: PrimaryFungibleStore;
 
   constructor(aptos: Aptos) {
     this.id = normalizeAddress("0x1");
     this.fungibleAsset = new FungibleAsset(aptos, `${this.id}::fungible_asset`);
+    this.primaryFungibleStore = new PrimaryFungibleStore(
+      aptos,
+      `${this.id}::primary_fungible_store`
+    );
   }
 }
 
@@ -59,3 +64,24 @@ class FungibleAsset {
     );
   }
 }
+
+class PrimaryFungibleStore {
+  constructor(
+    private readonly aptos: Aptos,
+    private readonly moduleId: `${string}::${string}`
+  ) {}
+
+  async balance(
+    owner: AccountAddressInput,
+    faAddress: AccountAddressInput
+  ): Promise<bigint> {
+    const result = await callViewFunction<string>(
+      this.aptos,
+      `${this.moduleId}::balance`,
+      ["0x1::fungible_asset::Metadata"],
+      [AccountAddress.fromStrict(owner), AccountAddress.fromStrict(faAddress)]
+    );
+
+    return BigInt(result);
+  }
+}
@@ -21,6 +21,9 @@ import {
   AccountAddressInput,
   Aptos,
   Ed25519Account,
+  InputEntryFunctionData,
+  InputScriptData,
+  MoveOption,
   MoveString,
   U64,
   U8,
@@ -33,6 +36,18 @@ import {
   validateAddresses
 } from "../utils";
 
+// Limits enforced by 0x1::fungible_asset on the metadata fields, in bytes.
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 512;
+
+export type MetadataUpdate = {
+  name?: string;
+  symbol?: string;
+  iconUri?: string;
+  projectUri?: string;
+};
+
 export class StablecoinPackage {
   readonly id: AccountAddressInput;
   readonly stablecoin: Stablecoin;
@@ -84,18 +99,34 @@ class Stablecoin {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::initialize_v1`,
-        functionArguments: [
-          new MoveString(name),
-          new MoveString(symbol),
-          new U8(decimals),
-          new MoveString(iconUri),
-          new MoveString(projectUri)
-        ]
-      }
+      data: this.initializeV1Payload(
+        name,
+        symbol,
+        decimals,
+        iconUri,
+        projectUri
+      )
     });
   }
+
+  initializeV1Payload(
+    name: string,
+    symbol: string,
+    decimals: number,
+    iconUri: string,
+    projectUri: string
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::initialize_v1`,
+      functionArguments: [
+        new MoveString(name),
+        new MoveString(symbol),
+        new U8(decimals),
+        new MoveString(iconUri),
+        new MoveString(projectUri)
+      ]
+    };
+  }
 }
 
 class Treasury {
@@ -156,16 +187,23 @@ class Treasury {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::configure_controller`,
-        functionArguments: [
-          AccountAddress.fromStrict(controller),
-          AccountAddress.fromStrict(minter)
-        ]
-      }
+      data: this.configureControllerPayload(controller, minter)
     });
   }
 
+  configureControllerPayload(
+    controller: AccountAddressInput,
+    minter: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::configure_controller`,
+      functionArguments: [
+        AccountAddress.fromStrict(controller),
+        AccountAddress.fromStrict(minter)
+      ]
+    };
+  }
+
   async configureMinter(
     sender: Ed25519Account,
     mintAllowance: bigint
@@ -173,13 +211,88 @@ class Treasury {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::configure_minter`,
-        functionArguments: [new U64(mintAllowance)]
-      }
+      data: this.configureMinterPayload(mintAllowance)
+    });
+  }
+
+  configureMinterPayload(mintAllowance: bigint): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::configure_minter`,
+      functionArguments: [new U64(mintAllowance)]
+    };
+  }
+
+  async incrementMinterAllowance(
+    sender: Ed25519Account,
+    allowanceIncrement: bigint
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.incrementMinterAllowancePayload(allowanceIncrement)
+    });
+  }
+
+  incrementMinterAllowancePayload(
+    allowanceIncrement: bigint
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::increment_minter_allowance`,
+      functionArguments: [new U64(allowanceIncrement)]
+    };
+  }
+
+  /**
+   * Mints to the recipient's primary store, using the compiled `mint` script.
+   * `treasury::mint` is not an entry function, so it can only be called from a script.
+   */
+  async mint(
+    sender: Ed25519Account,
+    scriptBytecode: Uint8Array,
+    recipient: AccountAddressInput,
+    amount: bigint
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.mintPayload(scriptBytecode, recipient, amount)
+    });
+  }
+
+  mintPayload(
+    scriptBytecode: Uint8Array,
+    recipient: AccountAddressInput,
+    amount: bigint
+  ): InputScriptData {
+    return {
+      bytecode: scriptBytecode,
+      functionArguments: [AccountAddress.fromStrict(recipient), new U64(amount)]
+    };
+  }
+
+  /**
+   * Burns from the sender's primary store, using the compiled `burn` script.
+   * `treasury::burn` is not an entry function, so it can only be called from a script.
+   */
+  async burn(
+    sender: Ed25519Account,
+    scriptBytecode: Uint8Array,
+    amount: bigint
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.burnPayload(scriptBytecode, amount)
     });
   }
 
+  burnPayload(scriptBytecode: Uint8Array, amount: bigint): InputScriptData {
+    return {
+      bytecode: scriptBytecode,
+      functionArguments: [new U64(amount)]
+    };
+  }
+
   async removeController(
     sender: Ed25519Account,
     controller: AccountAddressInput
@@ -187,24 +300,34 @@ class Treasury {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::remove_controller`,
-        functionArguments: [AccountAddress.fromStrict(controller)]
-      }
+      data: this.removeControllerPayload(controller)
     });
   }
 
+  removeControllerPayload(
+    controller: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::remove_controller`,
+      functionArguments: [AccountAddress.fromStrict(controller)]
+    };
+  }
+
   async removeMinter(sender: Ed25519Account): Promise<UserTransactionResponse> {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::remove_minter`,
-        functionArguments: []
-      }
+      data: this.removeMinterPayload()
     });
   }
 
+  removeMinterPayload(): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::remove_minter`,
+      functionArguments: []
+    };
+  }
+
   async updateMasterMinter(
     sender: Ed25519Account,
     newMasterMinter: AccountAddressInput
@@ -212,12 +335,18 @@ class Treasury {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::update_master_minter`,
-        functionArguments: [AccountAddress.fromStrict(newMasterMinter)]
-      }
+      data: this.updateMasterMinterPayload(newMasterMinter)
     });
   }
+
+  updateMasterMinterPayload(
+    newMasterMinter: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::update_master_minter`,
+      functionArguments: [AccountAddress.fromStrict(newMasterMinter)]
+    };
+  }
 }
 
 class Blocklistable {
@@ -255,13 +384,19 @@ class Blocklistable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::update_blocklister`,
-        functionArguments: [AccountAddress.fromStrict(newBlocklister)]
-      }
+      data: this.updateBlocklisterPayload(newBlocklister)
     });
   }
 
+  updateBlocklisterPayload(
+    newBlocklister: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::update_blocklister`,
+      functionArguments: [AccountAddress.fromStrict(newBlocklister)]
+    };
+  }
+
   async blocklist(
     sender: Ed25519Account,
     address: AccountAddressInput
@@ -269,13 +404,17 @@ class Blocklistable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::blocklist`,
-        functionArguments: [AccountAddress.fromStrict(address)]
-      }
+      data: this.blocklistPayload(address)
     });
   }
 
+  blocklistPayload(address: AccountAddressInput): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::blocklist`,
+      functionArguments: [AccountAddress.fromStrict(address)]
+    };
+  }
+
   async unblocklist(
     sender: Ed25519Account,
     address: AccountAddressInput
@@ -283,12 +422,16 @@ class Blocklistable {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::unblocklist`,
-        functionArguments: [AccountAddress.fromStrict(address)]
-      }
+      data: this.unblocklistPayload(address)
     });
   }
+
+  unblocklistPayload(address: AccountAddressInput): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::unblocklist`,
+      functionArguments: [AccountAddress.fromStrict(address)]
+    };
+  }
 }
 
 class Metadata {
@@ -315,10 +458,70 @@ class Metadata {
     return executeTransaction({
       aptos: this.aptos,
       sender,
-      data: {
-        function: `${this.moduleId}::update_metadata_updater`,
-        functionArguments: [AccountAddress.fromStrict(newMetadataUpdater)]
-      }
+      data: this.updateMetadataUpdaterPayload(newMetadataUpdater)
     });
   }
+
+  updateMetadataUpdaterPayload(
+    newMetadataUpdater: AccountAddressInput
+  ): InputEntryFunctionData {
+    return {
+      function: `${this.moduleId}::update_metadata_updater`,
+      functionArguments: [AccountAddress.fromStrict(newMetadataUpdater)]
+    };
+  }
+
+  async updateMetadata(
+    sender: Ed25519Account,
+    update: MetadataUpdate
+  ): Promise<UserTransactionResponse> {
+    return executeTransaction({
+      aptos: this.aptos,
+      sender,
+      data: this.updateMetadataPayload(update)
+    });
+  }
+
+  /**
+   * Builds the payload to update a subset of the metadata fields.
+   * Fields that are not set in the update are left unchanged.
+   * @throws if no field is set, or if a field exceeds its length limit.
+   */
+  updateMetadataPayload(update: MetadataUpdate): InputEntryFunctionData {
+    validateMetadataUpdate(update);
+
+    const toOption = (value?: string) =>
+      new MoveOption(value != null ? new MoveString(value) : undefined);
+
+    return {
+      function: `${this.moduleId}::update_metadata`,
+      functionArguments: [
+        toOption(update.name),
+        toOption(update.symbol),
+        toOption(update.iconUri),
+        toOption(update.projectUri)
+      ]
+    };
+  }
+}
+
+function validateMetadataUpdate(update: MetadataUpdate) {
+  const { name, symbol, iconUri, projectUri } = update;
+  if ([name, symbol, iconUri, projectUri].every((value) => value == null)) {
+    throw new Error("At least one metadata field must be updated!");
+  }
+
+  const limits: [string, string | undefined, number][] = [
+    ["name", name, MAX_NAME_LENGTH],
+    ["symbol", symbol, MAX_SYMBOL_LENGTH],
+    ["icon URI", iconUri, MAX_URI_LENGTH],
+    ["project URI", projectUri, MAX_URI_LENGTH]
+  ];
+  for (const [field, value, maxLength] of limits) {
+    if (value != null && Buffer.byteLength(value, "utf8") > maxLength) {
+      throw new Error(
+        `The ${field} must be at most ${maxLength} bytes long, got ${Buffer.byteLength(value, "utf8")}!`
+      );
+    }
+  }
 }
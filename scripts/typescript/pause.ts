@@ -0,0 +1,44 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import { addBuildOnlyOptions } from "./utils/buildOnly";
+import { PauseStateOptions, setPauseState } from "./utils/pauseState";
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("pause")
+    .description("Pauses the stablecoin")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--pauser-key <string>",
+      "Pauser's private key. Required if --build-only is unset"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(pause);
+
+export async function pause(options: PauseStateOptions) {
+  await setPauseState(true, options);
+}
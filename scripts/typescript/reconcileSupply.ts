@@ -0,0 +1,230 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { program } from "commander";
+import fs from "fs";
+import { AptosFrameworkPackage } from "./packages/aptosFrameworkPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  isBigIntable,
+  pinAptosClient,
+  validateAddresses
+} from "./utils";
+import { scanStablecoinEvents } from "./utils/eventScanner";
+
+export type MinterSupplyChange = {
+  minter: string;
+  minted: bigint;
+  burned: bigint;
+};
+
+export type SupplyReconciliation = {
+  fromVersion: bigint;
+  toVersion: bigint;
+  supplyAtFromVersion: bigint;
+  supplyAtToVersion: bigint;
+  totalMinted: bigint;
+  totalBurned: bigint;
+  /**
+   * The change in supply that is not explained by Mint and Burn events.
+   */
+  unexplainedDelta: bigint;
+  minters: MinterSupplyChange[];
+};
+
+export default program
+  .createCommand("reconcile-supply")
+  .description(
+    "Checks that the change in total supply between two ledger versions matches the Mint and Burn events"
+  )
+  .requiredOption(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located."
+  )
+  .requiredOption(
+    "--from-version <number>",
+    "The ledger version to reconcile from, exclusive"
+  )
+  .option(
+    "--to-version <number>",
+    "The ledger version to reconcile to, inclusive. Defaults to the latest version that the indexer processed"
+  )
+  .option("-o, --output <string>", "The file to write the result to, as JSON")
+  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+  .requiredOption("--indexer-url <string>", "Indexer GraphQL API URL")
+  .action(async (options) => {
+    await reconcileSupply(options);
+  });
+
+/**
+ * Reconciles the change in total supply between two ledger versions against
+ * the Mint and Burn events emitted in between, broken down by minter.
+ *
+ * @throws if the change in supply is not fully explained by the events.
+ */
+export async function reconcileSupply({
+  stablecoinPackageId,
+  fromVersion,
+  toVersion,
+  output,
+  rpcUrl,
+  indexerUrl
+}: {
+  stablecoinPackageId: string;
+  fromVersion: string;
+  toVersion?: string;
+  output?: string;
+  rpcUrl: string;
+  indexerUrl: string;
+}): Promise<SupplyReconciliation> {
+  validateAddresses(stablecoinPackageId);
+  for (const [name, value] of Object.entries({ fromVersion, toVersion })) {
+    if (value != null && !isBigIntable(value)) {
+      throw new Error(`Invalid ${name} ${value}!`);
+    }
+  }
+
+  const aptos = getAptosClient(rpcUrl, undefined, indexerUrl);
+  // Events after the last version that the indexer processed are missing, so
+  // the to version defaults to the latest version that both the node and the
+  // indexer have reached.
+  const indexedVersion = await aptos.getIndexerLastSuccessVersion();
+  const ledgerVersion = BigInt((await aptos.getLedgerInfo()).ledger_version);
+  const from = BigInt(fromVersion);
+  const to =
+    toVersion != null
+      ? BigInt(toVersion)
+      : indexedVersion < ledgerVersion
+        ? indexedVersion
+        : ledgerVersion;
+  if (from >= to) {
+    throw new Error(
+      `The from version ${from} must be lower than the to version ${to}!`
+    );
+  }
+  if (indexedVersion < to) {
+    throw new Error(
+      `The indexer has only processed up to version ${indexedVersion}, but the to version is ${to}!`
+    );
+  }
+
+  const stablecoinAddress = await new StablecoinPackage(
+    aptos,
+    stablecoinPackageId
+  ).stablecoin.stablecoinAddress();
+  const supplyAt = (version: bigint) =>
+    new AptosFrameworkPackage(
+      pinAptosClient(aptos, version)
+    ).fungibleAsset.supply(stablecoinAddress);
+  const supplyAtFromVersion = await supplyAt(from);
+  const supplyAtToVersion = await supplyAt(to);
+
+  const minters = new Map<string, MinterSupplyChange>();
+  const getMinter = (minter: string) => {
+    if (!minters.has(minter)) {
+      minters.set(minter, { minter, minted: BigInt(0), burned: BigInt(0) });
+    }
+    return minters.get(minter)!;
+  };
+
+  await scanStablecoinEvents({
+    aptos,
+    stablecoinPackageId,
+    stablecoinAddress,
+    eventTypes: ["treasury::Mint", "treasury::Burn"],
+    // The supply at the from version includes all of its events, so scanning
+    // starts after the last event of the from version.
+    checkpoint: {
+      transactionVersion: from.toString(),
+      eventIndex: Number.MAX_SAFE_INTEGER
+    },
+    maxTransactionVersion: to,
+    onPage: (events) => {
+      for (const event of events) {
+        if (event.type === "treasury::Mint") {
+          getMinter(event.data.minter).minted += event.data.amount;
+        } else if (event.type === "treasury::Burn") {
+          getMinter(event.data.burner).burned += event.data.amount;
+        }
+      }
+    }
+  });
+
+  const sortedMinters = [...minters.values()].sort((a, b) =>
+    a.minter.localeCompare(b.minter)
+  );
+  const totalMinted = sortedMinters.reduce(
+    (sum, m) => sum + m.minted,
+    BigInt(0)
+  );
+  const totalBurned = sortedMinters.reduce(
+    (sum, m) => sum + m.burned,
+    BigInt(0)
+  );
+  const result: SupplyReconciliation = {
+    fromVersion: from,
+    toVersion: to,
+    supplyAtFromVersion,
+    supplyAtToVersion,
+    totalMinted,
+    totalBurned,
+    unexplainedDelta:
+      supplyAtToVersion - supplyAtFromVersion - (totalMinted - totalBurned),
+    minters: sortedMinters
+  };
+
+  console.log(renderSupplyReconciliation(result));
+  if (output != null) {
+    fs.writeFileSync(
+      output,
+      JSON.stringify(
+        result,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+        2
+      ) + "\n"
+    );
+    console.log(`Supply reconciliation saved to: '${output}'`);
+  }
+
+  if (result.unexplainedDelta !== BigInt(0)) {
+    throw new Error(
+      `The supply changed by ${result.unexplainedDelta} more than the Mint and Burn events explain!`
+    );
+  }
+  console.log("\u001b[32mThe supply is reconciled!\u001b[0m");
+  return result;
+}
+
+function renderSupplyReconciliation(result: SupplyReconciliation): string {
+  return [
+    `Supply at version ${result.fromVersion}: ${result.supplyAtFromVersion}`,
+    `Supply at version ${result.toVersion}: ${result.supplyAtToVersion}`,
+    "",
+    "| Minter | Minted | Burned | Net |",
+    "| --- | --- | --- | --- |",
+    ...result.minters.map(
+      (m) =>
+        `| ${m.minter} | ${m.minted} | ${m.burned} | ${m.minted - m.burned} |`
+    ),
+    `| Total | ${result.totalMinted} | ${result.totalBurned} | ${result.totalMinted - result.totalBurned} |`,
+    "",
+    `Change in supply: ${result.supplyAtToVersion - result.supplyAtFromVersion}`,
+    `${result.unexplainedDelta === BigInt(0) ? "\u001b[32m" : "\u001b[31m"}Unexplained delta: ${result.unexplainedDelta}\u001b[0m`
+  ].join("\n");
+}
@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import {
@@ -24,43 +23,62 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("remove-controller")
-  .description("Removes a controller")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--master-minter-key <string>", "Master Minter's private key")
-  .requiredOption("--controller <string>", "The controller's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(removeController);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("remove-controller")
+    .description("Removes a controller")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--master-minter-key <string>",
+      "Master Minter's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--controller <string>", "The controller's address")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(removeController);
 
 export async function removeController({
   stablecoinPackageId,
   masterMinterKey,
   controller,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  masterMinterKey: string;
+  masterMinterKey?: string;
   controller: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId, controller);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const masterMinter = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(masterMinterKey)
-  });
-
   console.log(`Removing controller ${controller}...`);
   if (!(await waitForUserConfirmation())) {
     process.exit(1);
   }
 
-  await stablecoinPackage.treasury.removeController(masterMinter, controller);
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.removeControllerPayload(controller),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  await stablecoinPackage.treasury.removeController(
+    getSigner(masterMinterKey),
+    controller
+  );
 }
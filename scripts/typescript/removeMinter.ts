@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import {
@@ -24,46 +23,60 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("remove-minter")
-  .description("Removes a minter")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption(
-    "--controller-key <string>",
-    "Minter's controller private key"
-  )
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(removeMinter);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("remove-minter")
+    .description("Removes a minter")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--controller-key <string>",
+      "Minter's controller private key. Required if --build-only is unset"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(removeMinter);
 
 export async function removeMinter({
   stablecoinPackageId,
   controllerKey,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  controllerKey: string;
+  controllerKey?: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const controller = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(controllerKey)
-  });
-  const minter = await stablecoinPackage.treasury.getMinter(
-    controller.accountAddress
-  );
+  const controllerAddress = getSenderAddress(controllerKey, buildOnlyOptions);
+  const minter = await stablecoinPackage.treasury.getMinter(controllerAddress);
 
   console.log(`Removing minter ${minter}...`);
   if (!(await waitForUserConfirmation())) {
     process.exit(1);
   }
 
-  await stablecoinPackage.treasury.removeMinter(controller);
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.removeMinterPayload(),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  await stablecoinPackage.treasury.removeMinter(getSigner(controllerKey));
 }
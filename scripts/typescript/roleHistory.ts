@@ -0,0 +1,301 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Option, program } from "commander";
+import fs from "fs";
+import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import { StablecoinPackage } from "./packages/stablecoinPackage";
+import { getAptosClient, validateAddresses } from "./utils";
+import {
+  DetailedScannedEvent,
+  scanStablecoinEvents
+} from "./utils/eventScanner";
+import { fetchTokenState, TokenState } from "./utils/reviewSheet";
+
+export const PRIVILEGED_ROLES = [
+  "owner",
+  "pendingOwner",
+  "admin",
+  "pendingAdmin",
+  "pauser",
+  "blocklister",
+  "masterMinter",
+  "metadataUpdater"
+] as const;
+export type PrivilegedRole = (typeof PRIVILEGED_ROLES)[number];
+
+export const ROLE_HISTORY_FORMATS = ["markdown", "json"] as const;
+export type RoleHistoryFormat = (typeof ROLE_HISTORY_FORMATS)[number];
+
+export type RoleChange = {
+  role: PrivilegedRole;
+  previousHolder: string | null;
+  newHolder: string | null;
+  event: string;
+  timestamp: string;
+  transactionVersion: string;
+  transactionHash: string;
+  signer: string | null;
+};
+
+export type RoleHistory = {
+  timeline: RoleChange[];
+  /**
+   * The holder of each role at the `asOf` date, if one was given.
+   */
+  holders?: Record<PrivilegedRole, string | null>;
+};
+
+export default program
+  .createCommand("role-history")
+  .description(
+    "Reconstructs the history of the stablecoin's privileged roles from its events"
+  )
+  .requiredOption(
+    "--aptos-extensions-package-id <string>",
+    "The address where the aptos_extensions package is located."
+  )
+  .requiredOption(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located."
+  )
+  .option(
+    "--as-of <date>",
+    "An ISO 8601 date. If set, the holder of each role at this date is also reported"
+  )
+  .addOption(
+    new Option("--format <string>", "The output format")
+      .choices(ROLE_HISTORY_FORMATS)
+      .default("markdown")
+  )
+  .option(
+    "-o, --output <string>",
+    "The file to write the report to. The report is printed if unset"
+  )
+  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+  .requiredOption("--indexer-url <string>", "Indexer GraphQL API URL")
+  .action(async (options) => {
+    await roleHistory(options);
+  });
+
+export async function roleHistory({
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  asOf,
+  format = "markdown",
+  output,
+  rpcUrl,
+  indexerUrl
+}: {
+  aptosExtensionsPackageId: string;
+  stablecoinPackageId: string;
+  asOf?: string;
+  format?: RoleHistoryFormat;
+  output?: string;
+  rpcUrl: string;
+  indexerUrl: string;
+}): Promise<RoleHistory> {
+  validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
+
+  const asOfDate = asOf != null ? new Date(asOf) : undefined;
+  if (asOfDate != null && isNaN(asOfDate.getTime())) {
+    throw new Error(`Invalid date ${asOf}!`);
+  }
+
+  const aptos = getAptosClient(rpcUrl, undefined, indexerUrl);
+  const aptosExtensionsPackage = new AptosExtensionsPackage(
+    aptos,
+    aptosExtensionsPackageId
+  );
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  const events: DetailedScannedEvent[] = [];
+  await scanStablecoinEvents({
+    aptos,
+    aptosExtensionsPackageId,
+    stablecoinPackageId,
+    stablecoinAddress,
+    withTransactionDetails: true,
+    onPage: (page) => {
+      events.push(...page);
+    }
+  });
+
+  const history: RoleHistory = { timeline: buildRoleTimeline(events) };
+  if (asOfDate != null) {
+    const state = await fetchTokenState(
+      aptos,
+      aptosExtensionsPackage,
+      stablecoinPackage
+    );
+    history.holders = getHoldersAt(history.timeline, state, asOfDate);
+  }
+
+  const report =
+    format === "json"
+      ? JSON.stringify(history, null, 2)
+      : renderRoleHistory(history, asOfDate);
+  if (output != null) {
+    fs.writeFileSync(output, report);
+    console.log(
+      `\u001b[32mRole history with ${history.timeline.length} changes saved to: '${output}'\u001b[0m`
+    );
+  } else {
+    console.log(report);
+  }
+  return history;
+}
+
+/**
+ * Converts the role change events into a timeline of role changes, in the order
+ * that they were emitted.
+ *
+ * Roles that are set during initialization do not emit events, so a role only
+ * appears in the timeline once it has changed. Starting a two-step transfer
+ * sets the pending role, and completing it moves the pending holder into the
+ * role and clears the pending role.
+ */
+export function buildRoleTimeline(
+  events: DetailedScannedEvent[]
+): RoleChange[] {
+  const timeline: RoleChange[] = [];
+  let pendingOwner: string | null = null;
+  let pendingAdmin: string | null = null;
+
+  for (const event of events) {
+    const change = (
+      role: PrivilegedRole,
+      previousHolder: string | null,
+      newHolder: string | null
+    ) => {
+      timeline.push({
+        role,
+        previousHolder,
+        newHolder,
+        event: event.type,
+        timestamp: event.timestamp,
+        transactionVersion: event.transactionVersion.toString(),
+        transactionHash: event.transactionHash,
+        signer: event.sender
+      });
+    };
+
+    switch (event.type) {
+      case "ownable::OwnershipTransferStarted":
+        change("pendingOwner", pendingOwner, event.data.newOwner);
+        pendingOwner = event.data.newOwner;
+        break;
+      case "ownable::OwnershipTransferred":
+        change("owner", event.data.oldOwner, event.data.newOwner);
+        change("pendingOwner", pendingOwner, null);
+        pendingOwner = null;
+        break;
+      case "manageable::AdminChangeStarted":
+        change("pendingAdmin", pendingAdmin, event.data.newAdmin);
+        pendingAdmin = event.data.newAdmin;
+        break;
+      case "manageable::AdminChanged":
+        change("admin", event.data.oldAdmin, event.data.newAdmin);
+        change("pendingAdmin", pendingAdmin, null);
+        pendingAdmin = null;
+        break;
+      case "pausable::PauserChanged":
+        change("pauser", event.data.oldPauser, event.data.newPauser);
+        break;
+      case "blocklistable::BlocklisterChanged":
+        change(
+          "blocklister",
+          event.data.oldBlocklister,
+          event.data.newBlocklister
+        );
+        break;
+      case "treasury::MasterMinterChanged":
+        change(
+          "masterMinter",
+          event.data.oldMasterMinter,
+          event.data.newMasterMinter
+        );
+        break;
+      case "metadata::MetadataUpdaterChanged":
+        change(
+          "metadataUpdater",
+          event.data.oldMetadataUpdater,
+          event.data.newMetadataUpdater
+        );
+        break;
+    }
+  }
+  return timeline;
+}
+
+/**
+ * Returns the holder of each role at a date, by undoing the changes that were
+ * made after the date from the current state.
+ */
+export function getHoldersAt(
+  timeline: RoleChange[],
+  state: TokenState,
+  date: Date
+): Record<PrivilegedRole, string | null> {
+  const holders = Object.fromEntries(
+    PRIVILEGED_ROLES.map((role) => [role, state[role]])
+  ) as Record<PrivilegedRole, string | null>;
+
+  for (const change of [...timeline].reverse()) {
+    if (new Date(change.timestamp) > date) {
+      holders[change.role] = change.previousHolder;
+    }
+  }
+  return holders;
+}
+
+function renderRoleHistory(history: RoleHistory, asOfDate?: Date): string {
+  const lines = [
+    "# Role history",
+    "",
+    "| Time | Role | Previous holder | New holder | Transaction | Signer |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...history.timeline.map((change) => {
+      const row = [
+        change.timestamp,
+        change.role,
+        change.previousHolder ?? "none",
+        change.newHolder ?? "none",
+        `${change.transactionHash} (version ${change.transactionVersion})`,
+        change.signer ?? "none"
+      ];
+      return `| ${row.join(" | ")} |`;
+    })
+  ];
+
+  if (history.holders != null && asOfDate != null) {
+    lines.push(
+      "",
+      `## Holders as of ${asOfDate.toISOString()}`,
+      "",
+      "| Role | Holder |",
+      "| --- | --- |",
+      ...PRIVILEGED_ROLES.map(
+        (role) => `| ${role} | ${history.holders![role] ?? "none"} |`
+      )
+    );
+  }
+  return lines.join("\n") + "\n";
+}
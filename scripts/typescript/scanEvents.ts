@@ -0,0 +1,290 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Option, program } from "commander";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import * as yup from "yup";
+import { getAptosClient, validateAddresses } from "./utils";
+import {
+  DEFAULT_SCAN_PAGE_SIZE,
+  DetailedScannedEvent,
+  EventCheckpoint,
+  scanStablecoinEvents
+} from "./utils/eventScanner";
+
+export const SCAN_OUTPUT_FORMATS = ["jsonl", "sqlite"] as const;
+export type ScanOutputFormat = (typeof SCAN_OUTPUT_FORMATS)[number];
+
+const checkpointSchema = yup.object().shape({
+  transactionVersion: yup.string().required(),
+  eventIndex: yup.number().required()
+});
+
+export default program
+  .createCommand("scan-events")
+  .description(
+    "Exports the event history of a stablecoin, resuming from a checkpoint if one exists"
+  )
+  .option(
+    "--aptos-extensions-package-id <string>",
+    "The address where the aptos_extensions package is located. If set, the stablecoin's pause, ownership, admin and upgrade events are included"
+  )
+  .requiredOption(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located."
+  )
+  .requiredOption(
+    "--stablecoin-address <string>",
+    "The address of the stablecoin object"
+  )
+  .requiredOption("--output <string>", "The file to write the events to")
+  .addOption(
+    new Option("--format <string>", "The output format")
+      .choices(SCAN_OUTPUT_FORMATS)
+      .default("jsonl")
+  )
+  .option(
+    "--checkpoint-file <string>",
+    "The file that tracks the last exported event, so that reruns resume where the previous run stopped"
+  )
+  .option(
+    "--page-size <number>",
+    "The number of events to fetch per request",
+    String(DEFAULT_SCAN_PAGE_SIZE)
+  )
+  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+  .requiredOption("--indexer-url <string>", "Indexer GraphQL API URL")
+  .action(async (options) => {
+    await scanEvents(options);
+  });
+
+export async function scanEvents({
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  stablecoinAddress,
+  output,
+  format = "jsonl",
+  checkpointFile,
+  pageSize = String(DEFAULT_SCAN_PAGE_SIZE),
+  rpcUrl,
+  indexerUrl
+}: {
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId: string;
+  stablecoinAddress: string;
+  output: string;
+  format?: ScanOutputFormat;
+  checkpointFile?: string;
+  pageSize?: string;
+  rpcUrl: string;
+  indexerUrl: string;
+}): Promise<EventCheckpoint | undefined> {
+  validateAddresses(stablecoinPackageId, stablecoinAddress);
+  if (aptosExtensionsPackageId) {
+    validateAddresses(aptosExtensionsPackageId);
+  }
+
+  const aptos = getAptosClient(rpcUrl, undefined, indexerUrl);
+  const checkpoint = checkpointFile
+    ? readCheckpoint(checkpointFile)
+    : undefined;
+  if (checkpoint) {
+    console.log(
+      `Resuming after event ${checkpoint.eventIndex} of transaction ${checkpoint.transactionVersion}...`
+    );
+  }
+
+  // Creating the table also checks that the sqlite3 CLI is installed, before
+  // any events are fetched.
+  if (format === "sqlite") {
+    runSqlite(output, CREATE_EVENTS_TABLE);
+  }
+
+  // A run that is interrupted after writing a page, but before saving its
+  // checkpoint, refetches the page on the next run. SQLite ignores the
+  // duplicate rows, and JSONL skips the events up to the last written line.
+  const lastWrittenEvent =
+    format === "jsonl" ? readLastJsonlEvent(output) : undefined;
+
+  let eventCount = 0;
+  const lastCheckpoint = await scanStablecoinEvents({
+    aptos,
+    aptosExtensionsPackageId,
+    stablecoinPackageId,
+    stablecoinAddress,
+    checkpoint,
+    pageSize: Number(pageSize),
+    withTransactionDetails: true,
+    onPage: (events, pageCheckpoint) => {
+      if (format === "sqlite") {
+        writeSqlite(output, events);
+      } else {
+        const newEvents = events.filter(
+          (event) =>
+            lastWrittenEvent == null || isAfter(event, lastWrittenEvent)
+        );
+        writeJsonl(output, newEvents);
+      }
+      // The checkpoint is only saved once the page is written, so that a rerun
+      // never skips events.
+      if (checkpointFile) {
+        fs.writeFileSync(
+          checkpointFile,
+          JSON.stringify(pageCheckpoint, null, 2)
+        );
+      }
+      eventCount += events.length;
+    }
+  });
+
+  console.log(`Exported ${eventCount} events to '${output}'`);
+  return lastCheckpoint;
+}
+
+function readCheckpoint(checkpointFile: string): EventCheckpoint | undefined {
+  if (!fs.existsSync(checkpointFile)) {
+    return undefined;
+  }
+  return checkpointSchema.validateSync(
+    JSON.parse(fs.readFileSync(checkpointFile, "utf8"))
+  );
+}
+
+// The number of bytes at the end of a JSONL output file that contain its last line.
+const JSONL_TAIL_BYTES = 64 * 1024;
+
+/**
+ * Reads the position of the last event in a JSONL output file.
+ * @returns undefined if the file does not exist or is empty.
+ */
+function readLastJsonlEvent(output: string): EventCheckpoint | undefined {
+  if (!fs.existsSync(output)) {
+    return undefined;
+  }
+
+  // Only the end of the file is read, since the output can grow large.
+  const fd = fs.openSync(output, "r");
+  try {
+    const { size } = fs.fstatSync(fd);
+    const length = Math.min(size, JSONL_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    const lastLine = buffer.toString("utf8").trimEnd().split("\n").pop();
+    if (!lastLine) {
+      return undefined;
+    }
+    return checkpointSchema.validateSync(JSON.parse(lastLine));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function isAfter(
+  event: DetailedScannedEvent,
+  position: EventCheckpoint
+): boolean {
+  const version = BigInt(position.transactionVersion);
+  return (
+    event.transactionVersion > version ||
+    (event.transactionVersion === version &&
+      event.eventIndex > position.eventIndex)
+  );
+}
+
+function serializeEvent(event: DetailedScannedEvent) {
+  return {
+    transactionVersion: event.transactionVersion.toString(),
+    eventIndex: event.eventIndex,
+    timestamp: event.timestamp,
+    transactionHash: event.transactionHash,
+    sender: event.sender,
+    type: event.type,
+    packageId: event.packageId,
+    data: event.data
+  };
+}
+
+function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+function writeJsonl(output: string, events: DetailedScannedEvent[]) {
+  if (events.length === 0) return;
+  fs.appendFileSync(
+    output,
+    events.map((event) => stringifyJson(serializeEvent(event)) + "\n").join("")
+  );
+}
+
+const CREATE_EVENTS_TABLE = `CREATE TABLE IF NOT EXISTS events (
+  transaction_version INTEGER NOT NULL,
+  event_index INTEGER NOT NULL,
+  timestamp TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  sender TEXT,
+  type TEXT NOT NULL,
+  package_id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (transaction_version, event_index)
+);`;
+
+function writeSqlite(output: string, events: DetailedScannedEvent[]) {
+  if (events.length === 0) return;
+
+  // Rows that were already exported by an interrupted run are ignored.
+  const rows = events.map((event) =>
+    [
+      event.transactionVersion.toString(),
+      String(event.eventIndex),
+      sqlString(event.timestamp),
+      sqlString(event.transactionHash),
+      event.sender != null ? sqlString(event.sender) : "NULL",
+      sqlString(event.type),
+      sqlString(event.packageId),
+      sqlString(stringifyJson(event.data))
+    ].join(", ")
+  );
+  runSqlite(
+    output,
+    `BEGIN;\n${rows.map((row) => `INSERT OR IGNORE INTO events VALUES (${row});`).join("\n")}\nCOMMIT;`
+  );
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Runs SQL statements against a SQLite database file, using the sqlite3 CLI.
+ * @throws if the sqlite3 CLI is not installed.
+ */
+function runSqlite(databaseFile: string, sql: string) {
+  try {
+    execFileSync("sqlite3", [databaseFile], { input: sql, encoding: "utf-8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(
+        "The sqlite format requires the sqlite3 CLI, which was not found on the PATH!"
+      );
+    }
+    throw error;
+  }
+}
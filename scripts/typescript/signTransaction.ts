@@ -0,0 +1,181 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { program } from "commander";
+import fs from "fs";
+import { inspect } from "util";
+import {
+  decodeRawTransaction,
+  deserializeTransaction
+} from "./decodeTransaction";
+import { validateAddresses, waitForUserConfirmation } from "./utils";
+import { readModuleAbis } from "./utils/abiDecoder";
+import {
+  decryptPrivateKey,
+  DEFAULT_KEYSTORE_PASSWORD_ENV,
+  getKeystorePassword,
+  readKeystore
+} from "./utils/keystore";
+import { KnownPackageIds } from "./utils/knownPackages";
+
+export type KeySource = {
+  privateKeyFile?: string;
+  privateKeyEnv?: string;
+  keystore?: string;
+  keystorePasswordEnv?: string;
+};
+
+export default program
+  .createCommand("sign-transaction")
+  .description(
+    "Signs a transaction offline. This script never contacts an RPC node."
+  )
+  .requiredOption(
+    "--tx-bytes <string>",
+    "Hex-encoded, BCS-serialized transaction"
+  )
+  .option(
+    "--private-key-file <string>",
+    "Path to a file containing the signer's private key"
+  )
+  .option(
+    "--private-key-env <string>",
+    "Name of the environment variable containing the signer's private key"
+  )
+  .option("--keystore <string>", "Path to the signer's encrypted keystore")
+  .option(
+    "--keystore-password-env <string>",
+    `Name of the environment variable containing the keystore password. Defaults to ${DEFAULT_KEYSTORE_PASSWORD_ENV}`
+  )
+  .option(
+    "--abi-file <string>",
+    "Path to a JSON file containing module ABIs, for decoding the arguments"
+  )
+  .option(
+    "--aptos-extensions-package-id <string>",
+    "The address where the aptos_extensions package is located, for decoding the arguments of its entry functions"
+  )
+  .option(
+    "--stablecoin-package-id <string>",
+    "The address where the stablecoin package is located, for decoding the arguments of its entry functions"
+  )
+  .action(async (options) => {
+    await signTransaction(options);
+  });
+
+export async function signTransaction({
+  txBytes,
+  abiFile,
+  aptosExtensionsPackageId,
+  stablecoinPackageId,
+  ...keySource
+}: {
+  txBytes: string;
+  abiFile?: string;
+} & KnownPackageIds &
+  KeySource): Promise<{ publicKey: string; signature: string }> {
+  const signer = Account.fromPrivateKey({
+    privateKey: loadPrivateKey(keySource)
+  });
+
+  const packageIds: KnownPackageIds = {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  };
+  validateAddresses(
+    ...Object.values(packageIds).filter(
+      (packageId): packageId is string => packageId != null
+    )
+  );
+
+  const tx = deserializeTransaction(txBytes);
+  const decodedTx = decodeRawTransaction(
+    tx,
+    abiFile != null ? readModuleAbis(abiFile) : [],
+    packageIds
+  );
+
+  console.log(inspect(decodedTx, false, 8, true));
+  console.log(`Signing transaction with ${signer.accountAddress.toString()}`);
+  const isSender = tx.rawTransaction.sender.equals(signer.accountAddress);
+  const isSecondarySigner =
+    tx.secondarySignerAddresses?.some((address) =>
+      address.equals(signer.accountAddress)
+    ) ?? false;
+  const isFeePayer = tx.feePayerAddress?.equals(signer.accountAddress) ?? false;
+  if (!isSender && !isSecondarySigner && !isFeePayer) {
+    console.log(
+      "NOTE: The signer is neither the sender, a secondary signer nor the fee payer of the transaction. This is expected if the signer is one of the keys of a multi-sig sender."
+    );
+  }
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  const publicKey = signer.publicKey.bcsToHex().toString();
+  const signature = signer.signTransaction(tx).bcsToHex().toString();
+
+  console.log("Public key:", publicKey);
+  console.log("Signature:", signature);
+
+  return { publicKey, signature };
+}
+
+/**
+ * Loads the signer's private key from exactly one key source.
+ */
+function loadPrivateKey({
+  privateKeyFile,
+  privateKeyEnv,
+  keystore,
+  keystorePasswordEnv
+}: KeySource): Ed25519PrivateKey {
+  const keySources = [privateKeyFile, privateKeyEnv, keystore].filter(
+    (keySource) => keySource != null
+  );
+  if (keySources.length !== 1) {
+    throw new Error(
+      "Exactly one of --private-key-file, --private-key-env or --keystore must be set!"
+    );
+  }
+
+  if (privateKeyFile != null) {
+    if (!fs.existsSync(privateKeyFile)) {
+      throw new Error(`Failed to load private key file: ${privateKeyFile}`);
+    }
+    return new Ed25519PrivateKey(
+      fs.readFileSync(privateKeyFile, "utf8").trim()
+    );
+  }
+
+  if (privateKeyEnv != null) {
+    const privateKey = process.env[privateKeyEnv];
+    if (!privateKey) {
+      throw new Error(
+        `Missing private key! Set the ${privateKeyEnv} environment variable.`
+      );
+    }
+    return new Ed25519PrivateKey(privateKey.trim());
+  }
+
+  return decryptPrivateKey(
+    readKeystore(keystore as string),
+    getKeystorePassword(keystorePasswordEnv)
+  );
+}
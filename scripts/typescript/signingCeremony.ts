@@ -0,0 +1,316 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Deserializer,
+  Ed25519Signature,
+  generateSigningMessageForTransaction,
+  Hex,
+  MultiKey,
+  MultiKeySignature,
+  SimpleTransaction
+} from "@aptos-labs/ts-sdk";
+import { program } from "commander";
+import fs from "fs";
+import * as yup from "yup";
+
+export type SigningCeremony = yup.InferType<typeof signingCeremonySchema>;
+
+export type SigningCeremonyStatus = {
+  sender: string;
+  signaturesRequired: number;
+  signaturesCollected: number;
+  signedKeyIndices: number[];
+  pendingKeyIndices: number[];
+  isThresholdMet: boolean;
+};
+
+const signingCeremonySchema = yup.object().shape({
+  txBytes: yup.string().required(),
+  multiKey: yup.string().required(),
+  signatures: yup
+    .array(
+      yup.object().shape({
+        keyIndex: yup.number().integer().min(0).required(),
+        signature: yup.string().required()
+      })
+    )
+    .required()
+});
+
+const create = program
+  .createCommand("create")
+  .description(
+    "Creates a signing ceremony file for a transaction that is sent from a multi-sig account"
+  )
+  .requiredOption(
+    "--tx-bytes <string>",
+    "Hex-encoded, BCS-serialized transaction"
+  )
+  .requiredOption(
+    "--multi-key <string>",
+    "Hex-encoded, BCS-serialized MultiKey for the sender of the transaction"
+  )
+  .requiredOption(
+    "--ceremony-file <string>",
+    "The path to write the signing ceremony file to"
+  )
+  .action(createSigningCeremony);
+
+const addSignature = program
+  .createCommand("add-signature")
+  .description("Adds a signer's signature to a signing ceremony file")
+  .requiredOption(
+    "--ceremony-file <string>",
+    "The path to the signing ceremony file"
+  )
+  .requiredOption(
+    "--key-index <string>",
+    "The index of the signer's public key in the MultiKey"
+  )
+  .requiredOption(
+    "--signature <string>",
+    "Hex-encoded, BCS-serialized Ed25519 signature over the transaction's signing message"
+  )
+  .action(addSignatureToSigningCeremony);
+
+const status = program
+  .createCommand("status")
+  .description(
+    "Displays the signature collection progress of a signing ceremony"
+  )
+  .requiredOption(
+    "--ceremony-file <string>",
+    "The path to the signing ceremony file"
+  )
+  .action((options) => {
+    getSigningCeremonyStatus(options);
+  });
+
+const assemble = program
+  .createCommand("assemble")
+  .description(
+    "Assembles the collected signatures into a MultiKeySignature that can be passed to execute-transaction"
+  )
+  .requiredOption(
+    "--ceremony-file <string>",
+    "The path to the signing ceremony file"
+  )
+  .action((options) => {
+    assembleMultiKeySignature(options);
+  });
+
+export default program
+  .createCommand("signing-ceremony")
+  .description(
+    "Collects signatures for a transaction that is sent from a multi-sig account"
+  )
+  .addCommand(create)
+  .addCommand(addSignature)
+  .addCommand(status)
+  .addCommand(assemble);
+
+/**
+ * Creates a signing ceremony file that tracks the signatures that have been
+ * collected for a multi-sig transaction.
+ */
+export function createSigningCeremony({
+  txBytes,
+  multiKey,
+  ceremonyFile
+}: {
+  txBytes: string;
+  multiKey: string;
+  ceremonyFile: string;
+}) {
+  const transaction = deserializeTransaction(txBytes);
+  const sender = deserializeMultiKey(multiKey).authKey().derivedAddress();
+
+  if (!transaction.rawTransaction.sender.equals(sender)) {
+    throw new Error(
+      `The transaction sender ${transaction.rawTransaction.sender.toString()} does not match the MultiKey's address ${sender.toString()}!`
+    );
+  }
+
+  if (fs.existsSync(ceremonyFile)) {
+    throw new Error(`Signing ceremony file already exists: ${ceremonyFile}`);
+  }
+
+  writeSigningCeremony(ceremonyFile, { txBytes, multiKey, signatures: [] });
+  console.log(`Signing ceremony created at: '${ceremonyFile}'`);
+}
+
+/**
+ * Verifies a signer's signature against the public key at the given index in
+ * the MultiKey, and adds it to the signing ceremony file.
+ */
+export function addSignatureToSigningCeremony({
+  ceremonyFile,
+  keyIndex,
+  signature
+}: {
+  ceremonyFile: string;
+  keyIndex: string;
+  signature: string;
+}) {
+  const ceremony = readSigningCeremony(ceremonyFile);
+  const multiKey = deserializeMultiKey(ceremony.multiKey);
+  const index = Number(keyIndex);
+
+  if (
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= multiKey.publicKeys.length
+  ) {
+    throw new Error(
+      `Invalid key index ${keyIndex}! The MultiKey has ${multiKey.publicKeys.length} public keys.`
+    );
+  }
+
+  if (ceremony.signatures.some((s) => s.keyIndex === index)) {
+    throw new Error(`A signature for key index ${index} was already added!`);
+  }
+
+  const isValidSignature = multiKey.publicKeys[index].publicKey.verifySignature(
+    {
+      message: generateSigningMessageForTransaction(
+        deserializeTransaction(ceremony.txBytes)
+      ),
+      signature: Ed25519Signature.deserialize(
+        new Deserializer(Hex.fromHexString(signature).toUint8Array())
+      )
+    }
+  );
+  if (!isValidSignature) {
+    throw new Error(
+      `Invalid signature! The signature was not created by the public key at index ${index}.`
+    );
+  }
+
+  ceremony.signatures.push({ keyIndex: index, signature });
+  writeSigningCeremony(ceremonyFile, ceremony);
+
+  console.log(`Added signature for key index ${index}.`);
+  getSigningCeremonyStatus({ ceremonyFile });
+}
+
+/**
+ * Displays the number of signatures that have been collected against the
+ * number of signatures that are required by the MultiKey.
+ */
+export function getSigningCeremonyStatus({
+  ceremonyFile
+}: {
+  ceremonyFile: string;
+}): SigningCeremonyStatus {
+  const ceremony = readSigningCeremony(ceremonyFile);
+  const multiKey = deserializeMultiKey(ceremony.multiKey);
+
+  const signedKeyIndices = ceremony.signatures
+    .map((s) => s.keyIndex)
+    .sort((a, b) => a - b);
+  const pendingKeyIndices = multiKey.publicKeys
+    .map((_, i) => i)
+    .filter((i) => !signedKeyIndices.includes(i));
+
+  const ceremonyStatus: SigningCeremonyStatus = {
+    sender: multiKey.authKey().derivedAddress().toString(),
+    signaturesRequired: multiKey.signaturesRequired,
+    signaturesCollected: signedKeyIndices.length,
+    signedKeyIndices,
+    pendingKeyIndices,
+    isThresholdMet: signedKeyIndices.length >= multiKey.signaturesRequired
+  };
+
+  console.log(
+    `Collected ${ceremonyStatus.signaturesCollected} of ${ceremonyStatus.signaturesRequired} required signatures.`
+  );
+  console.log(`Signed key indices: [${signedKeyIndices.join(", ")}]`);
+  console.log(`Pending key indices: [${pendingKeyIndices.join(", ")}]`);
+
+  return ceremonyStatus;
+}
+
+/**
+ * Assembles the collected signatures into a MultiKeySignature.
+ * @returns the hex-encoded, BCS-serialized MultiKeySignature.
+ * @throws if the signature threshold has not been met.
+ */
+export function assembleMultiKeySignature({
+  ceremonyFile
+}: {
+  ceremonyFile: string;
+}): string {
+  const ceremony = readSigningCeremony(ceremonyFile);
+  const multiKey = deserializeMultiKey(ceremony.multiKey);
+
+  if (ceremony.signatures.length < multiKey.signaturesRequired) {
+    throw new Error(
+      `Signature threshold not met! Collected ${ceremony.signatures.length} of ${multiKey.signaturesRequired} required signatures.`
+    );
+  }
+
+  // Signatures must be ordered by the index of the public key that created them,
+  // as each set bit in the bitmap corresponds to the next signature in the list.
+  const signatures = [...ceremony.signatures]
+    .sort((a, b) => a.keyIndex - b.keyIndex)
+    .slice(0, multiKey.signaturesRequired);
+
+  const multiKeySignature = new MultiKeySignature({
+    signatures: signatures.map((s) =>
+      Ed25519Signature.deserialize(
+        new Deserializer(Hex.fromHexString(s.signature).toUint8Array())
+      )
+    ),
+    bitmap: MultiKeySignature.createBitmap({
+      bits: signatures.map((s) => s.keyIndex)
+    })
+  });
+  const multiKeySignatureHex = multiKeySignature.bcsToHex().toString();
+
+  console.log("Public key:", ceremony.multiKey);
+  console.log("Signature:", multiKeySignatureHex);
+
+  return multiKeySignatureHex;
+}
+
+function readSigningCeremony(ceremonyFile: string): SigningCeremony {
+  if (!fs.existsSync(ceremonyFile)) {
+    throw new Error(`Failed to load signing ceremony file: ${ceremonyFile}`);
+  }
+  return signingCeremonySchema.validateSync(
+    JSON.parse(fs.readFileSync(ceremonyFile, "utf8")),
+    { abortEarly: false, strict: true }
+  );
+}
+
+function writeSigningCeremony(ceremonyFile: string, ceremony: SigningCeremony) {
+  fs.writeFileSync(ceremonyFile, JSON.stringify(ceremony, null, 2));
+}
+
+function deserializeTransaction(txBytes: string): SimpleTransaction {
+  return SimpleTransaction.deserialize(
+    new Deserializer(Hex.fromHexString(txBytes).toUint8Array())
+  );
+}
+
+function deserializeMultiKey(multiKey: string): MultiKey {
+  return MultiKey.deserialize(
+    new Deserializer(Hex.fromHexString(multiKey).toUint8Array())
+  );
+}
@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import {
   getAptosClient,
@@ -25,36 +24,48 @@ import {
 } from "./utils";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("transfer-ownership")
-  .description("Starts a two-step ownership transfer for the stablecoin")
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extensions package is located."
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--owner-key <string>", "Owner's private key")
-  .requiredOption("--new-owner <string>", "The new owner's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(transferOwnership);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("transfer-ownership")
+    .description("Starts a two-step ownership transfer for the stablecoin")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--owner-key <string>",
+      "Owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--new-owner <string>", "The new owner's address")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(transferOwnership);
 
 export async function transferOwnership({
   aptosExtensionsPackageId,
   stablecoinPackageId,
   ownerKey,
   newOwner,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-  ownerKey: string;
+  ownerKey?: string;
   newOwner: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId, newOwner);
 
   const aptos = getAptosClient(rpcUrl);
@@ -64,12 +75,10 @@ export async function transferOwnership({
   );
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const owner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(ownerKey)
-  });
+  const ownerAddress = getSenderAddress(ownerKey, buildOnlyOptions);
 
   console.log(
-    `Starting the Owner role transfer from ${owner.accountAddress.toString()} to ${newOwner}...`
+    `Starting the Owner role transfer from ${ownerAddress.toString()} to ${newOwner}...`
   );
   if (!(await waitForUserConfirmation())) {
     process.exit(1);
@@ -77,8 +86,20 @@ export async function transferOwnership({
 
   const stablecoinAddress =
     await stablecoinPackage.stablecoin.stablecoinAddress();
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.ownable.transferOwnershipPayload(
+        stablecoinAddress,
+        newOwner
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.ownable.transferOwnership(
-    owner,
+    getSigner(ownerKey),
     stablecoinAddress,
     newOwner
   );
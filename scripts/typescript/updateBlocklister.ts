@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import {
@@ -24,38 +23,49 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("update-blocklister")
-  .description("Updates the blocklister for the stablecoin")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--owner-key <string>", "Owner's private key")
-  .requiredOption("--new-blocklister <string>", "The new blocklister's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(updateBlocklister);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("update-blocklister")
+    .description("Updates the blocklister for the stablecoin")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--owner-key <string>",
+      "Owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--new-blocklister <string>",
+      "The new blocklister's address"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(updateBlocklister);
 
 export async function updateBlocklister({
   stablecoinPackageId,
   ownerKey,
   newBlocklister,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  ownerKey: string;
+  ownerKey?: string;
   newBlocklister: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId, newBlocklister);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const owner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(ownerKey)
-  });
   const blocklister = await stablecoinPackage.blocklistable.blocklister();
 
   console.log(
@@ -65,8 +75,19 @@ export async function updateBlocklister({
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.blocklistable.updateBlocklisterPayload(
+        newBlocklister
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await stablecoinPackage.blocklistable.updateBlocklister(
-    owner,
+    getSigner(ownerKey),
     newBlocklister
   );
 }
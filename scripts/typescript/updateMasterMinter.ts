@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import {
@@ -24,41 +23,49 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("update-master-minter")
-  .description("Updates the Master Minter for the stablecoin")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--owner-key <string>", "Owner's private key")
-  .requiredOption(
-    "--new-master-minter <string>",
-    "The new Master Minter's address"
-  )
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(updateMasterMinter);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("update-master-minter")
+    .description("Updates the Master Minter for the stablecoin")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--owner-key <string>",
+      "Owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--new-master-minter <string>",
+      "The new Master Minter's address"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(updateMasterMinter);
 
 export async function updateMasterMinter({
   stablecoinPackageId,
   ownerKey,
   newMasterMinter,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  ownerKey: string;
+  ownerKey?: string;
   newMasterMinter: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId, newMasterMinter);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const owner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(ownerKey)
-  });
   const masterMinter = await stablecoinPackage.treasury.masterMinter();
 
   console.log(
@@ -68,5 +75,19 @@ export async function updateMasterMinter({
     process.exit(1);
   }
 
-  await stablecoinPackage.treasury.updateMasterMinter(owner, newMasterMinter);
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.treasury.updateMasterMinterPayload(
+        newMasterMinter
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  await stablecoinPackage.treasury.updateMasterMinter(
+    getSigner(ownerKey),
+    newMasterMinter
+  );
 }
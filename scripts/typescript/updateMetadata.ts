@@ -0,0 +1,195 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Aptos } from "@aptos-labs/ts-sdk";
+import { program } from "commander";
+import {
+  MetadataUpdate,
+  StablecoinPackage
+} from "./packages/stablecoinPackage";
+import {
+  getAptosClient,
+  validateAddresses,
+  waitForUserConfirmation
+} from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
+import { getTypedEvent } from "./utils/events";
+
+type FungibleAssetMetadata = {
+  name: string;
+  symbol: string;
+  decimals: number;
+  iconUri: string;
+  projectUri: string;
+};
+
+export default addBuildOnlyOptions(
+  program
+    .createCommand("update-metadata")
+    .description("Updates the name, symbol, icon URI or project URI")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--metadata-updater-key <string>",
+      "Metadata Updater's private key. Required if --build-only is unset"
+    )
+    .option("--name <string>", "The new name")
+    .option("--symbol <string>", "The new symbol")
+    .option("--icon-uri <string>", "The new icon URI")
+    .option("--project-uri <string>", "The new project URI")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(updateMetadata);
+
+export async function updateMetadata({
+  stablecoinPackageId,
+  metadataUpdaterKey,
+  name,
+  symbol,
+  iconUri,
+  projectUri,
+  rpcUrl,
+  ...buildOnlyOptions
+}: {
+  stablecoinPackageId: string;
+  metadataUpdaterKey?: string;
+  rpcUrl: string;
+} & MetadataUpdate &
+  BuildOnlyOptions) {
+  validateAddresses(stablecoinPackageId);
+
+  const aptos = getAptosClient(rpcUrl);
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  const update: MetadataUpdate = { name, symbol, iconUri, projectUri };
+  // Validates the update before any further request is made.
+  const payload = stablecoinPackage.metadata.updateMetadataPayload(update);
+
+  const metadataUpdater = await stablecoinPackage.metadata.metadataUpdater();
+  const senderAddress = getSenderAddress(metadataUpdaterKey, buildOnlyOptions);
+  if (senderAddress.toString() !== metadataUpdater) {
+    throw new Error(
+      `The sender ${senderAddress.toString()} is not the metadata updater ${metadataUpdater}!`
+    );
+  }
+
+  const metadataBefore = await getFungibleAssetMetadata(
+    aptos,
+    stablecoinAddress
+  );
+  const expectedMetadata: FungibleAssetMetadata = {
+    ...metadataBefore,
+    ...Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value != null)
+    )
+  };
+
+  console.log(`Updating the metadata of the stablecoin ${stablecoinAddress}:`);
+  printMetadataDiff(metadataBefore, expectedMetadata);
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: payload,
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  const txOutput = await stablecoinPackage.metadata.updateMetadata(
+    getSigner(metadataUpdaterKey),
+    update
+  );
+
+  // Verify that the metadata was updated.
+  const { data: eventMetadata } = getTypedEvent(
+    txOutput,
+    stablecoinPackageId,
+    "metadata::MetadataUpdated"
+  );
+  if (!isMetadataEqual(eventMetadata, expectedMetadata)) {
+    throw new Error(
+      `Unexpected MetadataUpdated event: ${JSON.stringify(eventMetadata)}!`
+    );
+  }
+
+  const metadataAfter = await getFungibleAssetMetadata(
+    aptos,
+    stablecoinAddress
+  );
+  if (!isMetadataEqual(metadataAfter, expectedMetadata)) {
+    throw new Error(
+      `Unexpected metadata after the transaction: ${JSON.stringify(metadataAfter)}!`
+    );
+  }
+
+  console.log("\u001b[32mUpdated the metadata:\u001b[0m");
+  printMetadataDiff(metadataBefore, metadataAfter);
+}
+
+async function getFungibleAssetMetadata(
+  aptos: Aptos,
+  stablecoinAddress: string
+): Promise<FungibleAssetMetadata> {
+  const faMetadata = await aptos.getAccountResource({
+    accountAddress: stablecoinAddress,
+    resourceType: "0x1::fungible_asset::Metadata"
+  });
+
+  return {
+    name: faMetadata.name,
+    symbol: faMetadata.symbol,
+    decimals: Number(faMetadata.decimals),
+    iconUri: faMetadata.icon_uri,
+    projectUri: faMetadata.project_uri
+  };
+}
+
+function isMetadataEqual(
+  self: FungibleAssetMetadata,
+  other: FungibleAssetMetadata
+): boolean {
+  return (Object.keys(self) as (keyof FungibleAssetMetadata)[]).every(
+    (field) => String(self[field]) === String(other[field])
+  );
+}
+
+function printMetadataDiff(
+  before: FungibleAssetMetadata,
+  after: FungibleAssetMetadata
+) {
+  for (const field of Object.keys(before) as (keyof FungibleAssetMetadata)[]) {
+    if (before[field] === after[field]) {
+      console.log(`  ${field}: ${before[field]} (unchanged)`);
+    } else {
+      console.log(`  ${field}: ${before[field]} -> ${after[field]}`);
+    }
+  }
+}
@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
 import {
@@ -24,41 +23,49 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("update-metadata-updater")
-  .description("Updates the Metadata Updater for the stablecoin")
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--owner-key <string>", "Owner's private key")
-  .requiredOption(
-    "--new-metadata-updater <string>",
-    "The new Metadata Updater's address"
-  )
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(updateMetadataUpdater);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("update-metadata-updater")
+    .description("Updates the Metadata Updater for the stablecoin")
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--owner-key <string>",
+      "Owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--new-metadata-updater <string>",
+      "The new Metadata Updater's address"
+    )
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(updateMetadataUpdater);
 
 export async function updateMetadataUpdater({
   stablecoinPackageId,
   ownerKey,
   newMetadataUpdater,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   stablecoinPackageId: string;
-  ownerKey: string;
+  ownerKey?: string;
   newMetadataUpdater: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(stablecoinPackageId, newMetadataUpdater);
 
   const aptos = getAptosClient(rpcUrl);
   const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
 
-  const owner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(ownerKey)
-  });
   const metadataUpdater = await stablecoinPackage.metadata.metadataUpdater();
 
   console.log(
@@ -68,8 +75,19 @@ export async function updateMetadataUpdater({
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: stablecoinPackage.metadata.updateMetadataUpdaterPayload(
+        newMetadataUpdater
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await stablecoinPackage.metadata.updateMetadataUpdater(
-    owner,
+    getSigner(ownerKey),
     newMetadataUpdater
   );
 }
@@ -16,7 +16,6 @@
  * limitations under the License.
  */
 
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 import {
@@ -25,36 +24,47 @@ import {
   waitForUserConfirmation
 } from "./utils";
 import { StablecoinPackage } from "./packages/stablecoinPackage";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSigner
+} from "./utils/buildOnly";
 
-export default program
-  .createCommand("update-pauser")
-  .description("Updates the pauser for the stablecoin")
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extensions package is located."
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
-  )
-  .requiredOption("--owner-key <string>", "Owner's private key")
-  .requiredOption("--new-pauser <string>", "The new pauser's address")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(updatePauser);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("update-pauser")
+    .description("Updates the pauser for the stablecoin")
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "The address where the aptos_extensions package is located."
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "The address where the stablecoin package is located."
+    )
+    .option(
+      "--owner-key <string>",
+      "Owner's private key. Required if --build-only is unset"
+    )
+    .requiredOption("--new-pauser <string>", "The new pauser's address")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+).action(updatePauser);
 
 export async function updatePauser({
   aptosExtensionsPackageId,
   stablecoinPackageId,
   ownerKey,
   newPauser,
-  rpcUrl
+  rpcUrl,
+  ...buildOnlyOptions
 }: {
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-  ownerKey: string;
+  ownerKey?: string;
   newPauser: string;
   rpcUrl: string;
-}) {
+} & BuildOnlyOptions) {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId, newPauser);
 
   const aptos = getAptosClient(rpcUrl);
@@ -66,9 +76,6 @@ export async function updatePauser({
   const stablecoinAddress =
     await stablecoinPackage.stablecoin.stablecoinAddress();
 
-  const owner = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(ownerKey)
-  });
   const pauser =
     await aptosExtensionsPackage.pausable.pauser(stablecoinAddress);
 
@@ -77,8 +84,20 @@ export async function updatePauser({
     process.exit(1);
   }
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.pausable.updatePauserPayload(
+        stablecoinAddress,
+        newPauser
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.pausable.updatePauser(
-    owner,
+    getSigner(ownerKey),
     stablecoinAddress,
     newPauser
   );
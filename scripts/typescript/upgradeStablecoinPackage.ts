@@ -15,7 +15,6 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
 import { program } from "commander";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
 import {
@@ -23,40 +22,52 @@ import {
   validateAddresses,
   waitForUserConfirmation
 } from "./utils";
+import {
+  addBuildOnlyOptions,
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./utils/buildOnly";
 import { readPublishPayload } from "./utils/publishPayload";
 
-export default program
-  .createCommand("upgrade-stablecoin-package")
-  .description("Upgrade the stablecoin package")
-  .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .requiredOption("--admin-key <string>", "Admin private key")
-  .requiredOption(
-    "--payload-file-path <string>",
-    "The publish package JSON payload file path"
-  )
-  .requiredOption(
-    "--aptos-extensions-package-id <string>",
-    "aptos_extensions package address"
-  )
-  .requiredOption(
-    "--stablecoin-package-id <string>",
-    "stablecoin package address"
-  )
-  .action(upgradeStablecoinPackage);
+export default addBuildOnlyOptions(
+  program
+    .createCommand("upgrade-stablecoin-package")
+    .description("Upgrade the stablecoin package")
+    .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
+    .option(
+      "--admin-key <string>",
+      "Admin private key. Required if --build-only is unset"
+    )
+    .requiredOption(
+      "--payload-file-path <string>",
+      "The publish package JSON payload file path"
+    )
+    .requiredOption(
+      "--aptos-extensions-package-id <string>",
+      "aptos_extensions package address"
+    )
+    .requiredOption(
+      "--stablecoin-package-id <string>",
+      "stablecoin package address"
+    )
+).action(upgradeStablecoinPackage);
 
 export async function upgradeStablecoinPackage({
   adminKey,
   rpcUrl,
   payloadFilePath,
   aptosExtensionsPackageId,
-  stablecoinPackageId
+  stablecoinPackageId,
+  ...buildOnlyOptions
 }: {
-  adminKey: string;
+  adminKey?: string;
   rpcUrl: string;
   payloadFilePath: string;
   aptosExtensionsPackageId: string;
   stablecoinPackageId: string;
-}): Promise<void> {
+} & BuildOnlyOptions): Promise<void> {
   validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
 
   const aptos = getAptosClient(rpcUrl);
@@ -65,11 +76,9 @@ export async function upgradeStablecoinPackage({
     aptosExtensionsPackageId
   );
 
-  const admin = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(adminKey)
-  });
+  const adminAddress = getSenderAddress(adminKey, buildOnlyOptions);
 
-  console.log(`Admin account: ${admin.accountAddress}`);
+  console.log(`Admin account: ${adminAddress}`);
 
   const payload = readPublishPayload(payloadFilePath);
   console.log(`Updating package using payload from ${payloadFilePath}`);
@@ -81,8 +90,21 @@ export async function upgradeStablecoinPackage({
   const metadataBytes = payload.args[0].value;
   const bytecode = payload.args[1].value;
 
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: aptosExtensionsPackage.upgradable.upgradePackagePayload(
+        stablecoinPackageId,
+        metadataBytes,
+        bytecode
+      ),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
   await aptosExtensionsPackage.upgradable.upgradePackage(
-    admin,
+    getSigner(adminKey),
     stablecoinPackageId,
     metadataBytes,
     bytecode
@@ -0,0 +1,211 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AccountAddress,
+  Aptos,
+  Deserializer,
+  Hex,
+  MoveFunction,
+  MoveModule,
+  parseTypeTag,
+  TypeTag,
+  TypeTagAddress,
+  TypeTagBool,
+  TypeTagGeneric,
+  TypeTagReference,
+  TypeTagSigner,
+  TypeTagStruct,
+  TypeTagU128,
+  TypeTagU16,
+  TypeTagU256,
+  TypeTagU32,
+  TypeTagU64,
+  TypeTagU8,
+  TypeTagVector
+} from "@aptos-labs/ts-sdk";
+import fs from "fs";
+
+export type DecodedMoveValue =
+  | boolean
+  | number
+  | string
+  | null
+  | DecodedMoveValue[];
+
+/**
+ * Thrown when an argument has a type that the decoder does not model, such as
+ * a struct other than String, Object<T> and Option<T>.
+ */
+export class UnsupportedArgumentTypeError extends Error {}
+
+/**
+ * Fetches the ABIs of all modules that are published at an address.
+ */
+export async function fetchModuleAbis(
+  aptos: Aptos,
+  address: AccountAddress
+): Promise<MoveModule[]> {
+  const modules = await aptos.getAccountModules({ accountAddress: address });
+  return modules
+    .map((module) => module.abi)
+    .filter((abi): abi is MoveModule => abi != null);
+}
+
+/**
+ * Reads module ABIs from a JSON file, which contains either a single module ABI
+ * or a list of module ABIs.
+ */
+export function readModuleAbis(abiFilePath: string): MoveModule[] {
+  if (!fs.existsSync(abiFilePath)) {
+    throw new Error(`Failed to load ABI file: ${abiFilePath}`);
+  }
+  const abis = JSON.parse(fs.readFileSync(abiFilePath, "utf8"));
+  return Array.isArray(abis) ? abis : [abis];
+}
+
+/**
+ * Writes module ABIs to a JSON file, so that they can be used offline.
+ */
+export function writeModuleAbis(abiFilePath: string, abis: MoveModule[]) {
+  fs.writeFileSync(abiFilePath, JSON.stringify(abis, null, 2));
+}
+
+/**
+ * Finds the ABI of an entry function in a list of module ABIs.
+ */
+export function findEntryFunctionAbi(
+  abis: MoveModule[],
+  address: AccountAddress,
+  moduleName: string,
+  functionName: string
+): MoveFunction | undefined {
+  const moduleAbi = abis.find(
+    (abi) =>
+      AccountAddress.from(abi.address).equals(address) &&
+      abi.name === moduleName
+  );
+  return moduleAbi?.exposed_functions.find(
+    (fn) => fn.is_entry && fn.name === functionName
+  );
+}
+
+/**
+ * Decodes the BCS-serialized arguments of an entry function, based on the
+ * parameter types in the function's ABI.
+ *
+ * @param functionAbi - The ABI of the entry function.
+ * @param typeArgs - The type arguments that the function was called with.
+ * @param args - The BCS-serialized arguments, excluding any signers.
+ * @returns The decoded arguments.
+ */
+export function decodeEntryFunctionArguments(
+  functionAbi: MoveFunction,
+  typeArgs: TypeTag[],
+  args: Uint8Array[]
+): DecodedMoveValue[] {
+  // Signers are not passed in as transaction arguments.
+  const paramTypes = functionAbi.params
+    .map((param) => parseTypeTag(param, { allowGenerics: true }))
+    .filter((typeTag) => !isSignerParam(typeTag));
+
+  if (paramTypes.length !== args.length) {
+    throw new Error(
+      `Expected ${paramTypes.length} arguments for ${functionAbi.name}, but got ${args.length}!`
+    );
+  }
+
+  return paramTypes.map((typeTag, i) => {
+    const deserializer = new Deserializer(args[i]);
+    const value = decodeMoveValue(deserializer, typeTag, typeArgs);
+    if (deserializer.remaining() !== 0) {
+      throw new Error(
+        `Unexpected trailing bytes when decoding argument ${i} as ${typeTag.toString()}!`
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * Decodes a single BCS-serialized Move value of the given type.
+ * Integers wider than 32 bits are returned as strings, byte vectors are returned
+ * as hex strings, and Object<T> values are returned as the object's address.
+ */
+export function decodeMoveValue(
+  deserializer: Deserializer,
+  typeTag: TypeTag,
+  typeArgs: TypeTag[] = []
+): DecodedMoveValue {
+  if (typeTag instanceof TypeTagGeneric) {
+    const typeArg = typeArgs[typeTag.value];
+    if (typeArg == null) {
+      throw new Error(`Missing type argument for ${typeTag.toString()}!`);
+    }
+    return decodeMoveValue(deserializer, typeArg, typeArgs);
+  }
+  if (typeTag instanceof TypeTagBool) return deserializer.deserializeBool();
+  if (typeTag instanceof TypeTagU8) return deserializer.deserializeU8();
+  if (typeTag instanceof TypeTagU16) return deserializer.deserializeU16();
+  if (typeTag instanceof TypeTagU32) return deserializer.deserializeU32();
+  if (typeTag instanceof TypeTagU64) {
+    return deserializer.deserializeU64().toString();
+  }
+  if (typeTag instanceof TypeTagU128) {
+    return deserializer.deserializeU128().toString();
+  }
+  if (typeTag instanceof TypeTagU256) {
+    return deserializer.deserializeU256().toString();
+  }
+  if (typeTag instanceof TypeTagAddress) {
+    return AccountAddress.deserialize(deserializer).toString();
+  }
+  if (typeTag instanceof TypeTagVector) {
+    if (typeTag.value instanceof TypeTagU8) {
+      return Hex.fromHexInput(deserializer.deserializeBytes()).toString();
+    }
+    const length = deserializer.deserializeUleb128AsU32();
+    return Array.from({ length }, () =>
+      decodeMoveValue(deserializer, typeTag.value, typeArgs)
+    );
+  }
+  if (typeTag instanceof TypeTagStruct) {
+    if (typeTag.isString()) return deserializer.deserializeStr();
+    if (typeTag.isObject()) {
+      return AccountAddress.deserialize(deserializer).toString();
+    }
+    if (typeTag.isOption()) {
+      // Options are serialized as vectors with at most one element.
+      const length = deserializer.deserializeUleb128AsU32();
+      return length === 0
+        ? null
+        : decodeMoveValue(deserializer, typeTag.value.typeArgs[0], typeArgs);
+    }
+  }
+  throw new UnsupportedArgumentTypeError(
+    `Unsupported argument type: ${typeTag.toString()}`
+  );
+}
+
+function isSignerParam(typeTag: TypeTag): boolean {
+  return (
+    typeTag instanceof TypeTagSigner ||
+    (typeTag instanceof TypeTagReference &&
+      typeTag.value instanceof TypeTagSigner)
+  );
+}
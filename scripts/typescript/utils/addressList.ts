@@ -0,0 +1,117 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import path from "path";
+import * as yup from "yup";
+import { normalizeAddress, validateAddresses } from ".";
+
+export type AddressListEntry = {
+  address: string;
+  caseId?: string;
+};
+
+export type AddressListResult = AddressListEntry & {
+  status: "submitted" | "built" | "skipped" | "failed";
+  txHash?: string;
+  txBytes?: string;
+  error?: string;
+};
+
+const addressListSchema = yup
+  .array(
+    yup.lazy((entry) =>
+      typeof entry === "string"
+        ? yup.string().required()
+        : yup.object().shape({
+            address: yup.string().required(),
+            caseId: yup.string()
+          })
+    )
+  )
+  .required();
+
+/**
+ * Reads a list of addresses, each with an optional case ID, from a file.
+ *
+ * JSON files contain an array of either addresses, or objects with an `address`
+ * and an optional `caseId`. CSV files contain an address and an optional case ID
+ * on each line, and may start with an `address,caseId` header.
+ *
+ * @returns the entries, with each address normalized to conform to AIP-40.
+ * @throws if any address is not in the format defined in AIP-40, or is listed
+ * more than once.
+ */
+export function readAddressList(filePath: string): AddressListEntry[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Failed to load address list file: ${filePath}`);
+  }
+  const content = fs.readFileSync(filePath, "utf8");
+
+  const rawEntries =
+    path.extname(filePath).toLowerCase() === ".csv"
+      ? parseCsv(content)
+      : addressListSchema
+          .validateSync(JSON.parse(content), { strict: true })
+          .map((entry) =>
+            typeof entry === "string" ? { address: entry } : entry
+          );
+
+  // Validate the addresses as listed, so that short or truncated addresses are
+  // rejected instead of being padded into different addresses.
+  const addresses = rawEntries.map(({ address }) => address.trim());
+  validateAddresses(...addresses);
+
+  const entries = rawEntries.map(({ caseId }, i) => ({
+    address: normalizeAddress(addresses[i]),
+    ...(caseId ? { caseId } : {})
+  }));
+
+  const seen = new Set<string>();
+  for (const { address } of entries) {
+    if (seen.has(address)) {
+      throw new Error(`Address ${address} is listed more than once!`);
+    }
+    seen.add(address);
+  }
+
+  return entries;
+}
+
+/**
+ * Writes the per-address results of a bulk operation to a JSON report file.
+ */
+export function writeAddressListReport(
+  reportFile: string,
+  results: AddressListResult[]
+) {
+  fs.writeFileSync(reportFile, JSON.stringify(results, null, 2));
+}
+
+function parseCsv(content: string): AddressListEntry[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell.length > 0));
+
+  if (rows.length > 0 && rows[0][0].toLowerCase() === "address") {
+    rows.shift();
+  }
+
+  return rows.map(([address, caseId]) => ({ address, caseId }));
+}
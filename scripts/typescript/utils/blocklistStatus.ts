@@ -0,0 +1,164 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { StablecoinPackage } from "../packages/stablecoinPackage";
+import { getAptosClient, validateAddresses, waitForUserConfirmation } from ".";
+import {
+  AddressListResult,
+  readAddressList,
+  writeAddressListReport
+} from "./addressList";
+import {
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./buildOnly";
+
+export type BlocklistStatusOptions = {
+  stablecoinPackageId: string;
+  blocklisterKey?: string;
+  addressFile: string;
+  reportFile: string;
+  rpcUrl: string;
+} & BuildOnlyOptions;
+
+/**
+ * Blocklists or unblocklists each address in an address list as the
+ * blocklister, skipping the addresses that are already in the desired state.
+ *
+ * Each address is submitted in its own transaction, and a failed address does
+ * not stop the run. In build-only mode, the transactions are built for offline
+ * signing instead, with consecutive sequence numbers.
+ *
+ * @returns the result for each address, in the order of the address list.
+ */
+export async function setBlocklistStatus(
+  blocklisted: boolean,
+  {
+    stablecoinPackageId,
+    blocklisterKey,
+    addressFile,
+    reportFile,
+    rpcUrl,
+    ...buildOnlyOptions
+  }: BlocklistStatusOptions
+): Promise<AddressListResult[]> {
+  const action = blocklisted ? "blocklist" : "unblocklist";
+
+  validateAddresses(stablecoinPackageId);
+  const entries = readAddressList(addressFile);
+
+  const aptos = getAptosClient(rpcUrl);
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+
+  const senderAddress = getSenderAddress(blocklisterKey, buildOnlyOptions);
+  const blocklister = await stablecoinPackage.blocklistable.blocklister();
+  if (senderAddress.toString() !== blocklister) {
+    throw new Error(
+      `The sender ${senderAddress.toString()} is not the blocklister ${blocklister}!`
+    );
+  }
+
+  // Skip the addresses that are already in the desired state.
+  const results = new Map<string, AddressListResult>();
+  for (const entry of entries) {
+    if (
+      (await stablecoinPackage.blocklistable.isBlocklisted(entry.address)) ===
+      blocklisted
+    ) {
+      results.set(entry.address, { ...entry, status: "skipped" });
+    }
+  }
+  const pendingEntries = entries.filter((entry) => !results.has(entry.address));
+
+  console.log(
+    `${blocklisted ? "Blocklisting" : "Unblocklisting"} ${pendingEntries.length} addresses. ${results.size} addresses are ${blocklisted ? "already" : "not"} blocklisted and will be skipped.`
+  );
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  // Transactions that are built for offline signing are assigned consecutive
+  // sequence numbers, so that they can all be submitted.
+  let sequenceNumber: bigint | undefined;
+  if (buildOnlyOptions.buildOnly) {
+    sequenceNumber =
+      buildOnlyOptions.sequenceNumber != null
+        ? BigInt(buildOnlyOptions.sequenceNumber)
+        : BigInt(
+            (await aptos.getAccountInfo({ accountAddress: senderAddress }))
+              .sequence_number
+          );
+  }
+
+  for (const entry of pendingEntries) {
+    try {
+      if (sequenceNumber != null) {
+        const builtTransaction = await buildTransactionForOfflineSigning({
+          aptos,
+          data: blocklisted
+            ? stablecoinPackage.blocklistable.blocklistPayload(entry.address)
+            : stablecoinPackage.blocklistable.unblocklistPayload(entry.address),
+          options: {
+            ...buildOnlyOptions,
+            sequenceNumber: sequenceNumber.toString()
+          }
+        });
+        sequenceNumber += BigInt(1);
+        results.set(entry.address, {
+          ...entry,
+          status: "built",
+          txBytes: builtTransaction.txBytes
+        });
+      } else {
+        const signer = getSigner(blocklisterKey);
+        const txOutput = blocklisted
+          ? await stablecoinPackage.blocklistable.blocklist(
+              signer,
+              entry.address
+            )
+          : await stablecoinPackage.blocklistable.unblocklist(
+              signer,
+              entry.address
+            );
+        results.set(entry.address, {
+          ...entry,
+          status: "submitted",
+          txHash: txOutput.hash
+        });
+      }
+    } catch (e) {
+      console.error(`Failed to ${action} ${entry.address}`);
+      results.set(entry.address, {
+        ...entry,
+        status: "failed",
+        error: String(e)
+      });
+    }
+  }
+
+  // Write the results in the order of the address list.
+  const report = entries.map(
+    (entry) => results.get(entry.address) as AddressListResult
+  );
+  writeAddressListReport(reportFile, report);
+  console.log(`Report saved to: '${reportFile}'`);
+
+  return report;
+}
@@ -0,0 +1,194 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  Aptos,
+  DEFAULT_MAX_GAS_AMOUNT,
+  Ed25519Account,
+  Ed25519PrivateKey,
+  InputGenerateTransactionPayloadData
+} from "@aptos-labs/ts-sdk";
+import { Command } from "commander";
+import { validateAddresses } from ".";
+
+export const DEFAULT_BUILD_ONLY_EXPIRATION_SECS = 3600;
+
+export type BuildOnlyOptions = {
+  sender?: string;
+  buildOnly?: boolean;
+  sequenceNumber?: string;
+  expirationSecs?: string;
+  maxGasAmount?: string;
+  gasUnitPrice?: string;
+};
+
+export type BuiltTransaction = {
+  txBytes: string;
+  sender: string;
+  sequenceNumber: string;
+  expirationTimestampSecs: string;
+  maxGasAmount: string;
+  gasUnitPrice: string;
+  chainId: string;
+};
+
+/**
+ * Adds the options for building a transaction for offline signing to a command.
+ */
+export function addBuildOnlyOptions(command: Command): Command {
+  return command
+    .option(
+      "--build-only",
+      "Builds the transaction for offline signing instead of signing and submitting it"
+    )
+    .option(
+      "--sender <string>",
+      "The address of the transaction sender. Required if --build-only is set"
+    )
+    .option(
+      "--sequence-number <string>",
+      "The sequence number of the transaction. Defaults to the sender's current sequence number"
+    )
+    .option(
+      "--expiration-secs <string>",
+      `The number of seconds from now until the transaction expires. Defaults to ${DEFAULT_BUILD_ONLY_EXPIRATION_SECS}`
+    )
+    .option(
+      "--max-gas-amount <string>",
+      `The maximum gas amount for the transaction. Defaults to the SDK's default of ${DEFAULT_MAX_GAS_AMOUNT}`
+    )
+    .option(
+      "--gas-unit-price <string>",
+      "The gas unit price for the transaction. Defaults to the estimated gas unit price"
+    );
+}
+
+/**
+ * Creates the signer for a private key.
+ * @throws if the private key is not provided
+ */
+export function getSigner(privateKey?: string): Ed25519Account {
+  if (privateKey == null) {
+    throw new Error(
+      "Missing private key! Either provide the private key, or set --build-only to build the transaction for offline signing."
+    );
+  }
+  return Account.fromPrivateKey({
+    privateKey: new Ed25519PrivateKey(privateKey)
+  });
+}
+
+/**
+ * Returns the address of the transaction sender, which is read from the
+ * --sender option in build-only mode, and derived from the private key otherwise.
+ */
+export function getSenderAddress(
+  privateKey: string | undefined,
+  { sender, buildOnly }: BuildOnlyOptions
+): AccountAddress {
+  if (!buildOnly) {
+    return getSigner(privateKey).accountAddress;
+  }
+  if (sender == null) {
+    throw new Error("--sender must be set when --build-only is set!");
+  }
+  validateAddresses(sender);
+  return AccountAddress.fromStrict(sender);
+}
+
+/**
+ * Builds a transaction for offline signing, without signing or submitting it.
+ * @returns the hex-encoded, BCS-serialized SimpleTransaction, together with the
+ * settings that were used to build the transaction.
+ */
+export async function buildTransactionForOfflineSigning({
+  aptos,
+  data,
+  options
+}: {
+  aptos: Aptos;
+  data: InputGenerateTransactionPayloadData;
+  options: BuildOnlyOptions;
+}): Promise<BuiltTransaction> {
+  const sender = getSenderAddress(undefined, { ...options, buildOnly: true });
+  const expirationSecs =
+    parseNonNegativeInteger("--expiration-secs", options.expirationSecs) ??
+    DEFAULT_BUILD_ONLY_EXPIRATION_SECS;
+  const maxGasAmount = parseNonNegativeInteger(
+    "--max-gas-amount",
+    options.maxGasAmount
+  );
+  const gasUnitPrice = parseNonNegativeInteger(
+    "--gas-unit-price",
+    options.gasUnitPrice
+  );
+
+  const transaction = await aptos.transaction.build.simple({
+    sender,
+    data,
+    options: {
+      accountSequenceNumber:
+        options.sequenceNumber != null
+          ? BigInt(options.sequenceNumber)
+          : undefined,
+      expireTimestamp: Math.floor(Date.now() / 1000) + expirationSecs,
+      maxGasAmount,
+      gasUnitPrice
+    }
+  });
+
+  const { rawTransaction } = transaction;
+  const builtTransaction: BuiltTransaction = {
+    txBytes: transaction.bcsToHex().toString(),
+    sender: rawTransaction.sender.toString(),
+    sequenceNumber: rawTransaction.sequence_number.toString(),
+    expirationTimestampSecs:
+      rawTransaction.expiration_timestamp_secs.toString(),
+    maxGasAmount: rawTransaction.max_gas_amount.toString(),
+    gasUnitPrice: rawTransaction.gas_unit_price.toString(),
+    chainId: rawTransaction.chain_id.chainId.toString()
+  };
+
+  console.log(
+    `Transaction built for offline signing. It expires at ${new Date(
+      Number(rawTransaction.expiration_timestamp_secs) * 1000
+    ).toISOString()}.`
+  );
+  console.log(JSON.stringify(builtTransaction, null, 2));
+
+  return builtTransaction;
+}
+
+/**
+ * Parses the value of a numeric option.
+ * @throws if the value is set, but is not a non-negative safe integer
+ */
+function parseNonNegativeInteger(
+  option: string,
+  value: string | undefined
+): number | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new Error(`${option} must be a non-negative integer, got ${value}!`);
+  }
+  return Number(value);
+}
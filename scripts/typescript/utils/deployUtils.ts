@@ -17,9 +17,11 @@
  */
 
 import {
+  AccountAddress,
   Aptos,
   createResourceAddress,
   Ed25519Account,
+  InputEntryFunctionData,
   MoveVector,
   UserTransactionResponse
 } from "@aptos-labs/ts-sdk";
@@ -63,31 +65,16 @@ export async function publishPackageToResourceAccount({
     seed
   ).toString();
 
-  const { metadataBytes, bytecode } = await buildPackage(
-    packageName,
-    [
-      {
-        name: packageName,
-        address: expectedCodeAddress
-      },
-      ...namedDeps
-    ],
-    verifySource
-  );
-  const functionArguments = [
-    MoveVector.U8(seed),
-    MoveVector.U8(metadataBytes),
-    new MoveVector(bytecode.map(MoveVector.U8))
-  ];
-
   const txOutput = await executeTransaction({
     aptos,
     sender: deployer,
-    data: {
-      function:
-        "0x1::resource_account::create_resource_account_and_publish_package",
-      functionArguments
-    }
+    data: await buildPublishToResourceAccountPayload({
+      deployer: deployer.accountAddress,
+      packageName,
+      seed,
+      namedDeps,
+      verifySource
+    })
   });
 
   const rawCodeAddress = getEventByType(txOutput, "0x1::code::PublishPackage")
@@ -103,6 +90,45 @@ export async function publishPackageToResourceAccount({
   return [packageId, txOutput];
 }
 
+/**
+ * Builds the payload that publishes a package to a newly created resource account
+ */
+export async function buildPublishToResourceAccountPayload({
+  deployer,
+  packageName,
+  seed,
+  namedDeps,
+  verifySource
+}: {
+  deployer: AccountAddress;
+  packageName: string;
+  namedDeps: NamedAddress[];
+  seed: Uint8Array;
+  verifySource: boolean;
+}): Promise<InputEntryFunctionData> {
+  const { metadataBytes, bytecode } = await buildPackage(
+    packageName,
+    [
+      {
+        name: packageName,
+        address: createResourceAddress(deployer, seed).toString()
+      },
+      ...namedDeps
+    ],
+    verifySource
+  );
+
+  return {
+    function:
+      "0x1::resource_account::create_resource_account_and_publish_package",
+    functionArguments: [
+      MoveVector.U8(seed),
+      MoveVector.U8(metadataBytes),
+      new MoveVector(bytecode.map(MoveVector.U8))
+    ]
+  };
+}
+
 /**
  * Builds a package with the given package name and named addresses
  * @returns The metadata bytes and bytecode of the package
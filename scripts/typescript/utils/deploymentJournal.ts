@@ -0,0 +1,116 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import * as yup from "yup";
+import { normalizeAddress } from ".";
+
+export type JournalStep = yup.InferType<typeof journalStepSchema>;
+export type DeploymentJournalData = yup.InferType<typeof journalSchema>;
+
+const journalStepSchema = yup.object({
+  name: yup.string().required(),
+  status: yup.string().oneOf(["submitted", "executed", "skipped"]).required(),
+  txHash: yup.string(),
+  txVersion: yup.string(),
+  timestamp: yup.string().required()
+});
+
+const journalSchema = yup.object({
+  deployer: yup.string().required(),
+  aptosExtensionsPackageId: yup.string().required(),
+  stablecoinPackageId: yup.string().required(),
+  steps: yup.array(journalStepSchema).required()
+});
+
+/**
+ * Records each step of a deployment, with the hash of its transaction, to a
+ * file. The file is rewritten after every step, so that it reflects the
+ * progress of an interrupted deployment.
+ */
+export class DeploymentJournal {
+  private constructor(
+    private readonly filePath: string | undefined,
+    readonly data: DeploymentJournalData
+  ) {}
+
+  /**
+   * Opens the journal of a deployment. If `filePath` is unset, steps are only
+   * kept in memory.
+   *
+   * @throws if the journal file exists but the deployment is not resumed, or
+   * if it belongs to a different deployment.
+   */
+  static open(
+    filePath: string | undefined,
+    deployment: Omit<DeploymentJournalData, "steps">,
+    resume: boolean
+  ): DeploymentJournal {
+    if (filePath == null || !fs.existsSync(filePath)) {
+      const journal = new DeploymentJournal(filePath, {
+        ...deployment,
+        steps: []
+      });
+      journal.save();
+      return journal;
+    }
+
+    if (!resume) {
+      throw new Error(
+        `The journal file ${filePath} already exists. Set --resume to continue the deployment.`
+      );
+    }
+
+    const data = journalSchema.validateSync(
+      JSON.parse(fs.readFileSync(filePath, "utf8")),
+      { strict: true }
+    );
+    for (const key of [
+      "deployer",
+      "aptosExtensionsPackageId",
+      "stablecoinPackageId"
+    ] as const) {
+      if (normalizeAddress(data[key]) !== normalizeAddress(deployment[key])) {
+        throw new Error(
+          `The journal file ${filePath} belongs to a deployment with ${key} ${data[key]}, not ${deployment[key]}!`
+        );
+      }
+    }
+    return new DeploymentJournal(filePath, data);
+  }
+
+  /**
+   * Returns whether a step was executed in this or an earlier run.
+   */
+  isExecuted(name: string): boolean {
+    return this.data.steps.some(
+      (step) => step.name === name && step.status === "executed"
+    );
+  }
+
+  record(step: Omit<JournalStep, "timestamp">) {
+    this.data.steps.push({ ...step, timestamp: new Date().toISOString() });
+    this.save();
+  }
+
+  private save() {
+    if (this.filePath != null) {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+    }
+  }
+}
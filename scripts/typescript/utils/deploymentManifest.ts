@@ -0,0 +1,224 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AptosApiError,
+  Aptos,
+  TransactionResponseType
+} from "@aptos-labs/ts-sdk";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import * as yup from "yup";
+import { isAptosAddress, REPOSITORY_ROOT, yupAptosAddress } from ".";
+import { JournalStep } from "./deploymentJournal";
+
+export type DeploymentManifest = yup.InferType<typeof manifestSchema>;
+
+const manifestSchema = yup.object({
+  chainId: yup.number().required(),
+  deployer: yupAptosAddress().required(),
+  seeds: yup
+    .mixed(
+      (input): input is Record<string, string> =>
+        typeof input === "object" &&
+        Object.values(input).every((seed) => typeof seed === "string")
+    )
+    .required(),
+  packageIds: yup
+    .mixed(
+      (input): input is Record<string, string> =>
+        typeof input === "object" && Object.values(input).every(isAptosAddress)
+    )
+    .required(),
+  stablecoinAddress: yupAptosAddress(),
+  transactions: yup
+    .array(
+      yup.object({
+        name: yup.string().required(),
+        hash: yup.string().required(),
+        version: yup.string().required()
+      })
+    )
+    .required(),
+  /**
+   * The steps that took effect in a run that stopped before their
+   * transactions were recorded, so that the transactions are unknown.
+   */
+  unrecoveredSteps: yup.array(yup.string().required()),
+  tokenConfigHash: yup.string(),
+  compilerVersion: yup.string().required(),
+  languageVersion: yup.string().required(),
+  sourceUploaded: yup.boolean().required()
+});
+
+/**
+ * Reads and validates a deployment manifest.
+ */
+export function readDeploymentManifest(
+  manifestFilePath: string
+): DeploymentManifest {
+  if (!fs.existsSync(manifestFilePath)) {
+    throw new Error(`Failed to load manifest file: ${manifestFilePath}`);
+  }
+  return manifestSchema.validateSync(
+    JSON.parse(fs.readFileSync(manifestFilePath, "utf8")),
+    { abortEarly: false, strict: true }
+  );
+}
+
+export function writeDeploymentManifest(
+  manifestFilePath: string,
+  manifest: DeploymentManifest
+) {
+  fs.writeFileSync(
+    manifestFilePath,
+    JSON.stringify(manifestSchema.validateSync(manifest), null, 2)
+  );
+  console.log(`Deployment manifest saved to: '${manifestFilePath}'`);
+}
+
+/**
+ * Checks that the manifest belongs to the network that the client is connected to.
+ * @throws if the chain IDs differ
+ */
+export async function validateManifestChainId(
+  aptos: Aptos,
+  manifest: DeploymentManifest
+) {
+  const chainId = (await aptos.getLedgerInfo()).chain_id;
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `The manifest belongs to chain ID ${manifest.chainId}, but the network at the RPC URL has chain ID ${chainId}!`
+    );
+  }
+}
+
+/**
+ * Returns the ID of a package in the manifest.
+ * @throws if the manifest does not contain the package
+ */
+export function getManifestPackageId(
+  manifest: DeploymentManifest,
+  packageName: string
+): string {
+  const packageId = manifest.packageIds[packageName];
+  if (packageId == null) {
+    throw new Error(
+      `The manifest does not contain the ${packageName} package!`
+    );
+  }
+  return packageId;
+}
+
+/**
+ * Returns the transaction of each step in the journal of a deployment, in the
+ * order that the steps were first recorded. Transactions whose version was not
+ * recorded, as the run stopped before they completed, are looked up by hash.
+ * Steps without a committed transaction are returned as unrecovered.
+ */
+export async function getManifestTransactions(
+  aptos: Aptos,
+  steps: JournalStep[]
+): Promise<
+  Required<Pick<DeploymentManifest, "transactions" | "unrecoveredSteps">>
+> {
+  const transactions: DeploymentManifest["transactions"] = [];
+  const unrecoveredSteps: string[] = [];
+
+  for (const name of new Set(steps.map((step) => step.name))) {
+    // A step is recorded in every run, so the latest entries are tried first,
+    // starting with the transactions that are known to have completed.
+    const entries = steps.filter((step) => step.name === name).reverse();
+    const candidates = [
+      ...entries.filter((step) => step.status === "executed"),
+      ...entries.filter((step) => step.status === "submitted")
+    ];
+
+    let transaction: DeploymentManifest["transactions"][number] | undefined;
+    for (const { txHash, txVersion } of candidates) {
+      if (txHash == null) {
+        continue;
+      }
+      const version = txVersion ?? (await getCommittedVersion(aptos, txHash));
+      if (version != null) {
+        transaction = { name, hash: txHash, version };
+        break;
+      }
+    }
+
+    if (transaction != null) {
+      transactions.push(transaction);
+    } else {
+      unrecoveredSteps.push(name);
+    }
+  }
+  return { transactions, unrecoveredSteps };
+}
+
+/**
+ * Returns the version of a transaction, or undefined if it was not committed
+ * successfully.
+ */
+async function getCommittedVersion(
+  aptos: Aptos,
+  transactionHash: string
+): Promise<string | undefined> {
+  try {
+    const tx = await aptos.getTransactionByHash({ transactionHash });
+    return tx.type === TransactionResponseType.User && tx.success
+      ? tx.version
+      : undefined;
+  } catch (error) {
+    if (error instanceof AptosApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the Move compiler settings that packages are built with from the Makefile.
+ */
+export function readMoveCompilerSettings(): {
+  compilerVersion: string;
+  languageVersion: string;
+} {
+  const makefile = fs.readFileSync(
+    path.join(REPOSITORY_ROOT, "Makefile"),
+    "utf8"
+  );
+  const readSetting = (name: string) => {
+    const match = makefile.match(new RegExp(`^${name}\\s*=\\s*(\\S+)`, "m"));
+    if (match == null) {
+      throw new Error(`Missing ${name} in the Makefile!`);
+    }
+    return match[1];
+  };
+  return {
+    compilerVersion: readSetting("compiler_version"),
+    languageVersion: readSetting("language_version")
+  };
+}
+
+/**
+ * Returns the SHA-256 hash of a file, in hex.
+ */
+export function hashFile(filePath: string): string {
+  return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
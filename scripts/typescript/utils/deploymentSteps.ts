@@ -0,0 +1,192 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Aptos,
+  Ed25519Account,
+  InputGenerateTransactionPayloadData,
+  UserTransactionResponse
+} from "@aptos-labs/ts-sdk";
+import { executeTransaction } from ".";
+import { DeploymentJournal } from "./deploymentJournal";
+import { formatDecimalAmount } from "./formatting";
+
+const APT_DECIMALS = 8;
+
+/**
+ * A single transaction of the deployment. `isDone` checks the on-chain state
+ * to tell whether the step already took effect in an earlier run.
+ */
+export type DeploymentStep = {
+  name: string;
+  isDone: () => Promise<boolean>;
+  payload: () => Promise<InputGenerateTransactionPayloadData>;
+};
+
+export type SimulatedStep = {
+  name: string;
+  gasUsed: bigint;
+  events: string[];
+};
+
+/**
+ * Executes the steps in order, and records each of them in the journal.
+ * When resuming, steps that already took effect are skipped.
+ *
+ * The hash of each transaction is recorded as soon as it is submitted, for the
+ * transaction of a step to be recovered if the run stops before it completes.
+ */
+export async function runDeploymentSteps(
+  aptos: Aptos,
+  deployer: Ed25519Account,
+  steps: DeploymentStep[],
+  journal: DeploymentJournal,
+  resume: boolean
+) {
+  for (const step of steps) {
+    if (resume && (await step.isDone())) {
+      console.log(`Skipping '${step.name}', which already took effect`);
+      journal.record({ name: step.name, status: "skipped" });
+      continue;
+    }
+
+    const txOutput = await executeTransaction({
+      aptos,
+      sender: deployer,
+      data: await step.payload(),
+      onSubmit: (txHash) =>
+        journal.record({ name: step.name, status: "submitted", txHash })
+    });
+    console.log(`Executed '${step.name}' in transaction ${txOutput.hash}`);
+    journal.record({
+      name: step.name,
+      status: "executed",
+      txHash: txOutput.hash,
+      txVersion: txOutput.version
+    });
+  }
+}
+
+/**
+ * Simulates the steps in order. Simulations do not change the state, so each
+ * step is also executed afterwards, for the next step to be simulated against
+ * its effects. The network must therefore be a stand-in for the target network.
+ *
+ * If `targetAptos` is set, the first step is simulated against the target
+ * network as well, as it does not depend on the effects of any other step.
+ */
+export async function simulateDeploymentSteps(
+  aptos: Aptos,
+  deployer: Ed25519Account,
+  steps: DeploymentStep[],
+  targetAptos?: Aptos
+): Promise<SimulatedStep[]> {
+  const simulatedSteps: SimulatedStep[] = [];
+  for (const [i, step] of steps.entries()) {
+    const data = await step.payload();
+    if (i === 0 && targetAptos != null) {
+      const targetSimulation = await simulateTransaction(
+        targetAptos,
+        deployer,
+        data
+      );
+      if (!targetSimulation.success) {
+        throw new Error(
+          `The simulation of '${step.name}' failed on the target network with ${targetSimulation.vm_status}!`
+        );
+      }
+    }
+
+    const simulation = await simulateTransaction(aptos, deployer, data);
+    if (!simulation.success) {
+      throw new Error(
+        `The simulation of '${step.name}' failed with ${simulation.vm_status}!`
+      );
+    }
+    simulatedSteps.push({
+      name: step.name,
+      gasUsed: BigInt(simulation.gas_used),
+      events: simulation.events
+        .map((event) => event.type)
+        .filter((type) => type !== "0x1::transaction_fee::FeeStatement")
+    });
+
+    await executeTransaction({ aptos, sender: deployer, data });
+  }
+  return simulatedSteps;
+}
+
+export async function simulateTransaction(
+  aptos: Aptos,
+  deployer: Ed25519Account,
+  data: InputGenerateTransactionPayloadData
+): Promise<UserTransactionResponse> {
+  const transaction = await aptos.transaction.build.simple({
+    sender: deployer.accountAddress,
+    data
+  });
+  const [simulation] = await aptos.transaction.simulate.simple({
+    signerPublicKey: deployer.publicKey,
+    transaction
+  });
+  return simulation;
+}
+
+/**
+ * Renders the simulated steps as a table, followed by the estimated cost of
+ * the deployment at the given gas unit price.
+ */
+export function renderSimulatedSteps(
+  simulatedSteps: SimulatedStep[],
+  gasUnitPrice: bigint
+): string {
+  const headers = ["Step", "Gas units", "Expected events"];
+  const rows = simulatedSteps.map((step) => [
+    step.name,
+    step.gasUsed.toString(),
+    // Drop the module addresses, which are the same for every step.
+    step.events.map((type) => type.split("::").slice(1).join("::")).join(", ")
+  ]);
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => cell.padEnd(widths[i])).join(" | ");
+
+  const totalGasUsed = getTotalGasUsed(simulatedSteps);
+  return [
+    formatRow(headers),
+    widths.map((width) => "-".repeat(width)).join("-+-"),
+    ...rows.map(formatRow),
+    "",
+    `Total gas units: ${totalGasUsed}`,
+    `Gas unit price: ${gasUnitPrice} octas`,
+    `Estimated cost: ${formatApt(totalGasUsed * gasUnitPrice)} APT`
+  ].join("\n");
+}
+
+export function getTotalGasUsed(simulatedSteps: SimulatedStep[]): bigint {
+  return simulatedSteps.reduce(
+    (total, step) => total + step.gasUsed,
+    BigInt(0)
+  );
+}
+
+export function formatApt(octas: bigint): string {
+  return formatDecimalAmount(octas, APT_DECIMALS);
+}
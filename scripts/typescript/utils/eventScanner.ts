@@ -0,0 +1,270 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Aptos } from "@aptos-labs/ts-sdk";
+import { normalizeAddress } from ".";
+import {
+  getEventPackageId,
+  PackageEventType,
+  PackageIds,
+  parseEvent,
+  TypedEvent
+} from "./events";
+
+export type ScannedEvent = TypedEvent & {
+  transactionVersion: bigint;
+  eventIndex: number;
+};
+
+/**
+ * Details of the transaction that emitted an event, which are fetched from the
+ * node for each transaction.
+ */
+export type TransactionDetails = {
+  timestamp: string;
+  transactionHash: string;
+  /**
+   * The sender of the transaction, or null if it is not a user transaction.
+   */
+  sender: string | null;
+};
+
+export type DetailedScannedEvent = ScannedEvent & TransactionDetails;
+
+/**
+ * The position of the last event that was processed.
+ */
+export type EventCheckpoint = {
+  transactionVersion: string;
+  eventIndex: number;
+};
+
+export const DEFAULT_SCAN_PAGE_SIZE = 100;
+
+type ScanOptions<E> = {
+  aptos: Aptos;
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId: string;
+  stablecoinAddress: string;
+  /**
+   * The types of the events to scan. Defaults to all events of the packages.
+   */
+  eventTypes?: PackageEventType[];
+  checkpoint?: EventCheckpoint;
+  maxTransactionVersion?: bigint;
+  pageSize?: number;
+  onPage: (events: E[], checkpoint: EventCheckpoint) => void | Promise<void>;
+};
+
+/**
+ * Pages through the events of a stablecoin, in the order that they were emitted.
+ *
+ * All events emitted by the stablecoin package are included. The aptos_extensions
+ * package is shared between stablecoins, so only the events that refer to the
+ * stablecoin object or the stablecoin package are included.
+ *
+ * Events are read from the indexer, and each page is passed to `onPage` together
+ * with the checkpoint of its last event. Scanning resumes after `checkpoint` if it is set,
+ * and stops after `maxTransactionVersion` if it is set. If `withTransactionDetails`
+ * is set, the timestamp, hash and sender of each transaction are fetched from the node.
+ *
+ * @returns the checkpoint of the last event, or the given checkpoint if there are no new events.
+ */
+export async function scanStablecoinEvents(
+  options: ScanOptions<ScannedEvent> & { withTransactionDetails?: false }
+): Promise<EventCheckpoint | undefined>;
+export async function scanStablecoinEvents(
+  options: ScanOptions<DetailedScannedEvent> & { withTransactionDetails: true }
+): Promise<EventCheckpoint | undefined>;
+export async function scanStablecoinEvents(
+  options: ScanOptions<ScannedEvent> & { withTransactionDetails?: boolean }
+): Promise<EventCheckpoint | undefined>;
+export async function scanStablecoinEvents(
+  options:
+    | (ScanOptions<ScannedEvent> & { withTransactionDetails?: false })
+    | (ScanOptions<DetailedScannedEvent> & { withTransactionDetails: true })
+): Promise<EventCheckpoint | undefined> {
+  const {
+    aptos,
+    aptosExtensionsPackageId,
+    stablecoinPackageId,
+    stablecoinAddress,
+    eventTypes,
+    checkpoint,
+    maxTransactionVersion,
+    pageSize = DEFAULT_SCAN_PAGE_SIZE
+  } = options;
+  const packageIds: PackageIds = {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  };
+  const typeFilter =
+    eventTypes != null
+      ? {
+          indexed_type: {
+            _in: eventTypes.flatMap((eventType) =>
+              getAddressForms(getEventPackageId(eventType, packageIds)).map(
+                (address) => `${address}::${eventType}`
+              )
+            )
+          }
+        }
+      : {
+          _or: [aptosExtensionsPackageId, stablecoinPackageId]
+            .filter((packageId): packageId is string => packageId != null)
+            .flatMap(getAddressForms)
+            .map((address) => ({
+              indexed_type: { _like: `${address}::%` }
+            }))
+        };
+
+  let lastCheckpoint = checkpoint;
+  while (true) {
+    // Wrapped in `_and`, since the `_or` key may already be used to match the event types.
+    const conditions = [
+      ...(lastCheckpoint ? [afterCheckpoint(lastCheckpoint)] : []),
+      ...(maxTransactionVersion != null
+        ? [
+            {
+              transaction_version: {
+                _lte: maxTransactionVersion.toString()
+              }
+            }
+          ]
+        : [])
+    ];
+    const rawEvents = await aptos.getEvents({
+      options: {
+        where: {
+          ...typeFilter,
+          ...(conditions.length > 0 ? { _and: conditions } : {})
+        },
+        orderBy: [{ transaction_version: "asc" }, { event_index: "asc" }],
+        limit: pageSize
+      }
+    });
+    if (rawEvents.length === 0) {
+      return lastCheckpoint;
+    }
+
+    const rawLastEvent = rawEvents[rawEvents.length - 1];
+    lastCheckpoint = {
+      transactionVersion: String(rawLastEvent.transaction_version),
+      eventIndex: Number(rawLastEvent.event_index)
+    };
+
+    const events: ScannedEvent[] = [];
+    for (const rawEvent of rawEvents) {
+      const event = parseEvent(rawEvent, packageIds);
+      if (
+        event != null &&
+        isStablecoinEvent(event, stablecoinPackageId, stablecoinAddress)
+      ) {
+        events.push({
+          ...event,
+          transactionVersion: BigInt(rawEvent.transaction_version),
+          eventIndex: Number(rawEvent.event_index)
+        });
+      }
+    }
+    if (options.withTransactionDetails) {
+      await options.onPage(
+        await addTransactionDetails(aptos, events),
+        lastCheckpoint
+      );
+    } else {
+      await options.onPage(events, lastCheckpoint);
+    }
+
+    if (rawEvents.length < pageSize) {
+      return lastCheckpoint;
+    }
+  }
+}
+
+/**
+ * Returns the forms that a package address may take in event types, which are
+ * its long form and its short form without leading zeros.
+ */
+function getAddressForms(packageId: string): string[] {
+  const longAddress = normalizeAddress(packageId);
+  const shortAddress = `0x${longAddress.slice(2).replace(/^0+(?=.)/, "")}`;
+  return Array.from(new Set([longAddress, shortAddress]));
+}
+
+function afterCheckpoint({ transactionVersion, eventIndex }: EventCheckpoint) {
+  return {
+    _or: [
+      { transaction_version: { _gt: transactionVersion } },
+      {
+        transaction_version: { _eq: transactionVersion },
+        event_index: { _gt: eventIndex }
+      }
+    ]
+  };
+}
+
+function isStablecoinEvent(
+  event: TypedEvent,
+  stablecoinPackageId: string,
+  stablecoinAddress: string
+): boolean {
+  const data = event.data as Record<string, unknown>;
+  if ("objAddress" in data) {
+    return data.objAddress === normalizeAddress(stablecoinAddress);
+  }
+  if ("resourceAddress" in data) {
+    return data.resourceAddress === normalizeAddress(stablecoinPackageId);
+  }
+  if ("resourceAcct" in data) {
+    return data.resourceAcct === normalizeAddress(stablecoinPackageId);
+  }
+  return true;
+}
+
+/**
+ * Adds the timestamp, as an ISO 8601 string, the hash and the sender of the
+ * transaction that emitted each event.
+ */
+async function addTransactionDetails(
+  aptos: Aptos,
+  events: ScannedEvent[]
+): Promise<DetailedScannedEvent[]> {
+  const transactions = new Map<bigint, TransactionDetails>();
+  const detailedEvents: DetailedScannedEvent[] = [];
+  for (const event of events) {
+    let details = transactions.get(event.transactionVersion);
+    if (details == null) {
+      const tx = await aptos.getTransactionByVersion({
+        ledgerVersion: event.transactionVersion
+      });
+      const timestampMicros =
+        "timestamp" in tx ? BigInt(tx.timestamp) : BigInt(0);
+      details = {
+        timestamp: new Date(
+          Number(timestampMicros / BigInt(1000))
+        ).toISOString(),
+        transactionHash: tx.hash,
+        sender: "sender" in tx ? normalizeAddress(tx.sender) : null
+      };
+      transactions.set(event.transactionVersion, details);
+    }
+    detailedEvents.push({ ...event, ...details });
+  }
+  return detailedEvents;
+}
@@ -0,0 +1,351 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Event, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { getEventByType, normalizeAddress } from ".";
+
+/**
+ * Events emitted by the aptos_extensions package, keyed by "module::Struct".
+ * Field names are converted to camel case, addresses are normalized to
+ * conform to AIP-40, and u64 values are converted to bigint.
+ */
+export type AptosExtensionsEvents = {
+  "manageable::AdminChangeStarted": {
+    resourceAddress: string;
+    oldAdmin: string;
+    newAdmin: string;
+  };
+  "manageable::AdminChanged": {
+    resourceAddress: string;
+    oldAdmin: string;
+    newAdmin: string;
+  };
+  "manageable::AdminRoleDestroyed": { resourceAddress: string };
+  "ownable::OwnershipTransferStarted": {
+    objAddress: string;
+    oldOwner: string;
+    newOwner: string;
+  };
+  "ownable::OwnershipTransferred": {
+    objAddress: string;
+    oldOwner: string;
+    newOwner: string;
+  };
+  "ownable::OwnerRoleDestroyed": { objAddress: string };
+  "pausable::Pause": { objAddress: string };
+  "pausable::Unpause": { objAddress: string };
+  "pausable::PauserChanged": {
+    objAddress: string;
+    oldPauser: string;
+    newPauser: string;
+  };
+  "pausable::PauseStateDestroyed": { objAddress: string };
+  "upgradable::PackageUpgraded": { resourceAcct: string };
+  "upgradable::SignerCapExtracted": { resourceAcct: string };
+};
+
+/**
+ * Events emitted by the stablecoin package, keyed by "module::Struct".
+ */
+export type StablecoinEvents = {
+  "blocklistable::Blocklisted": { address: string };
+  "blocklistable::Unblocklisted": { address: string };
+  "blocklistable::BlocklisterChanged": {
+    oldBlocklister: string;
+    newBlocklister: string;
+  };
+  "metadata::MetadataUpdated": {
+    name: string;
+    symbol: string;
+    decimals: number;
+    iconUri: string;
+    projectUri: string;
+  };
+  "metadata::MetadataUpdaterChanged": {
+    oldMetadataUpdater: string;
+    newMetadataUpdater: string;
+  };
+  "stablecoin::Deposit": { storeOwner: string; store: string; amount: bigint };
+  "stablecoin::Withdraw": { storeOwner: string; store: string; amount: bigint };
+  "stablecoin::StablecoinInitialized": { initializedVersion: number };
+  "treasury::ControllerConfigured": { controller: string; minter: string };
+  "treasury::ControllerRemoved": { controller: string };
+  "treasury::MinterConfigured": {
+    controller: string;
+    minter: string;
+    allowance: bigint;
+  };
+  "treasury::MinterAllowanceIncremented": {
+    controller: string;
+    minter: string;
+    allowanceIncrement: bigint;
+    newAllowance: bigint;
+  };
+  "treasury::MinterRemoved": { controller: string; minter: string };
+  "treasury::Mint": { minter: string; amount: bigint };
+  "treasury::Burn": { burner: string; amount: bigint };
+  "treasury::MasterMinterChanged": {
+    oldMasterMinter: string;
+    newMasterMinter: string;
+  };
+};
+
+export type PackageEvents = AptosExtensionsEvents & StablecoinEvents;
+export type PackageEventType = keyof PackageEvents;
+
+export type TypedEvent<T extends PackageEventType = PackageEventType> = {
+  [K in T]: { type: K; packageId: string; data: PackageEvents[K] };
+}[T];
+
+export type PackageIds = {
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId?: string;
+};
+
+type FieldKind = "address" | "string" | "u8" | "u64";
+
+/**
+ * The kind of each field of each event, keyed by the field's name in camel case.
+ * The fields are named in snake case in the Move structs.
+ */
+type EventFields<Events> = {
+  [K in keyof Events]: Record<keyof Events[K], FieldKind>;
+};
+
+const aptosExtensionsEventFields: EventFields<AptosExtensionsEvents> = {
+  "manageable::AdminChangeStarted": {
+    resourceAddress: "address",
+    oldAdmin: "address",
+    newAdmin: "address"
+  },
+  "manageable::AdminChanged": {
+    resourceAddress: "address",
+    oldAdmin: "address",
+    newAdmin: "address"
+  },
+  "manageable::AdminRoleDestroyed": { resourceAddress: "address" },
+  "ownable::OwnershipTransferStarted": {
+    objAddress: "address",
+    oldOwner: "address",
+    newOwner: "address"
+  },
+  "ownable::OwnershipTransferred": {
+    objAddress: "address",
+    oldOwner: "address",
+    newOwner: "address"
+  },
+  "ownable::OwnerRoleDestroyed": { objAddress: "address" },
+  "pausable::Pause": { objAddress: "address" },
+  "pausable::Unpause": { objAddress: "address" },
+  "pausable::PauserChanged": {
+    objAddress: "address",
+    oldPauser: "address",
+    newPauser: "address"
+  },
+  "pausable::PauseStateDestroyed": { objAddress: "address" },
+  "upgradable::PackageUpgraded": { resourceAcct: "address" },
+  "upgradable::SignerCapExtracted": { resourceAcct: "address" }
+};
+
+const stablecoinEventFields: EventFields<StablecoinEvents> = {
+  "blocklistable::Blocklisted": { address: "address" },
+  "blocklistable::Unblocklisted": { address: "address" },
+  "blocklistable::BlocklisterChanged": {
+    oldBlocklister: "address",
+    newBlocklister: "address"
+  },
+  "metadata::MetadataUpdated": {
+    name: "string",
+    symbol: "string",
+    decimals: "u8",
+    iconUri: "string",
+    projectUri: "string"
+  },
+  "metadata::MetadataUpdaterChanged": {
+    oldMetadataUpdater: "address",
+    newMetadataUpdater: "address"
+  },
+  "stablecoin::Deposit": {
+    storeOwner: "address",
+    store: "address",
+    amount: "u64"
+  },
+  "stablecoin::Withdraw": {
+    storeOwner: "address",
+    store: "address",
+    amount: "u64"
+  },
+  "stablecoin::StablecoinInitialized": { initializedVersion: "u8" },
+  "treasury::ControllerConfigured": {
+    controller: "address",
+    minter: "address"
+  },
+  "treasury::ControllerRemoved": { controller: "address" },
+  "treasury::MinterConfigured": {
+    controller: "address",
+    minter: "address",
+    allowance: "u64"
+  },
+  "treasury::MinterAllowanceIncremented": {
+    controller: "address",
+    minter: "address",
+    allowanceIncrement: "u64",
+    newAllowance: "u64"
+  },
+  "treasury::MinterRemoved": { controller: "address", minter: "address" },
+  "treasury::Mint": { minter: "address", amount: "u64" },
+  "treasury::Burn": { burner: "address", amount: "u64" },
+  "treasury::MasterMinterChanged": {
+    oldMasterMinter: "address",
+    newMasterMinter: "address"
+  }
+};
+
+/**
+ * Parses an event emitted by either package.
+ * @returns the typed event, or null if the event was not emitted by one of the given packages.
+ * @throws if a field of a known event is missing.
+ */
+export function parseEvent(
+  event: Pick<Event, "type" | "data">,
+  { aptosExtensionsPackageId, stablecoinPackageId }: PackageIds
+): TypedEvent | null {
+  const [address, moduleName, structName] = event.type.split("::");
+  const eventType = `${moduleName}::${structName}`;
+  const packageId = normalizeAddress(address);
+
+  const packages: [string | undefined, Record<string, unknown>][] = [
+    [aptosExtensionsPackageId, aptosExtensionsEventFields],
+    [stablecoinPackageId, stablecoinEventFields]
+  ];
+  for (const [expectedPackageId, eventFields] of packages) {
+    if (
+      expectedPackageId != null &&
+      packageId === normalizeAddress(expectedPackageId) &&
+      eventType in eventFields
+    ) {
+      return {
+        type: eventType,
+        packageId,
+        data: parseEventData(eventType as PackageEventType, event.data)
+      } as TypedEvent;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses all events in the transaction output that were emitted by the given packages.
+ */
+export function getTypedEvents(
+  txOutput: UserTransactionResponse,
+  packageIds: PackageIds
+): TypedEvent[] {
+  return txOutput.events
+    .map((event) => parseEvent(event, packageIds))
+    .filter((event): event is TypedEvent => event != null);
+}
+
+/**
+ * Finds a specific event from the transaction output, and parses it.
+ * @throws if the event is not found.
+ */
+export function getTypedEvent<T extends PackageEventType>(
+  txOutput: UserTransactionResponse,
+  packageId: string,
+  eventType: T
+): TypedEvent<T> {
+  const event = getEventByType(txOutput, `${packageId}::${eventType}`);
+  return {
+    type: eventType,
+    packageId: normalizeAddress(packageId),
+    data: parseEventData(eventType, event.data)
+  } as TypedEvent<T>;
+}
+
+/**
+ * Filters a list of typed events down to the events of a specific type.
+ */
+export function filterEventsByType<T extends PackageEventType>(
+  events: TypedEvent[],
+  eventType: T
+): TypedEvent<T>[] {
+  return events.filter((event) => event.type === eventType) as TypedEvent<T>[];
+}
+
+/**
+ * Returns the ID of the package that emits a specific event type.
+ * @throws if the ID of that package is not given.
+ */
+export function getEventPackageId(
+  eventType: PackageEventType,
+  { aptosExtensionsPackageId, stablecoinPackageId }: PackageIds
+): string {
+  const [packageName, packageId] =
+    eventType in aptosExtensionsEventFields
+      ? ["aptos_extensions", aptosExtensionsPackageId]
+      : ["stablecoin", stablecoinPackageId];
+  if (packageId == null) {
+    throw new Error(
+      `The ${packageName} package ID is required to scan ${eventType} events!`
+    );
+  }
+  return packageId;
+}
+
+function parseEventData<T extends PackageEventType>(
+  eventType: T,
+  data: Record<string, unknown> | undefined
+): PackageEvents[T] {
+  const fields: Record<string, FieldKind> =
+    eventType in aptosExtensionsEventFields
+      ? aptosExtensionsEventFields[eventType as keyof AptosExtensionsEvents]
+      : stablecoinEventFields[eventType as keyof StablecoinEvents];
+
+  const result: Record<string, unknown> = {};
+  for (const [field, kind] of Object.entries(fields)) {
+    const moveField = toSnakeCase(field);
+    const value = data?.[moveField];
+    if (value == null) {
+      throw new Error(`Missing field ${moveField} in event ${eventType}`);
+    }
+    result[field] = parseField(value, kind);
+  }
+  return result as PackageEvents[T];
+}
+
+/**
+ * Parses a field of an event's data, in which addresses, strings and u64 values
+ * are JSON strings, and u8 values are JSON numbers.
+ */
+function parseField(value: unknown, kind: FieldKind): unknown {
+  switch (kind) {
+    case "address":
+      return normalizeAddress(String(value));
+    case "string":
+      return String(value);
+    case "u8":
+      return Number(value);
+    case "u64":
+      return BigInt(String(value));
+  }
+}
+
+function toSnakeCase(field: string): string {
+  return field.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
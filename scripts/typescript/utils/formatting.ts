@@ -0,0 +1,47 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Formats an amount in the token's base units using the token's decimals.
+ * The amount is returned in base units if the decimals are unknown.
+ */
+export function formatTokenAmount(
+  amount: string | bigint,
+  decimals?: number,
+  symbol?: string
+): string {
+  const baseUnits = BigInt(amount);
+  if (decimals == null) {
+    return `${baseUnits} base units`;
+  }
+
+  return `${formatDecimalAmount(baseUnits, decimals)}${symbol != null ? ` ${symbol}` : ""} (${baseUnits} base units)`;
+}
+
+/**
+ * Formats an amount in base units as a decimal number, without losing precision.
+ */
+export function formatDecimalAmount(amount: bigint, decimals: number): string {
+  const scale = BigInt(10) ** BigInt(decimals);
+  const whole = amount / scale;
+  const fraction = (amount % scale)
+    .toString()
+    .padStart(decimals, "0")
+    .replace(/0+$/, "");
+  return fraction.length > 0 ? `${whole}.${fraction}` : `${whole}`;
+}
@@ -24,6 +24,7 @@ import {
   Event,
   InputGenerateTransactionPayloadData,
   MoveFunctionId,
+  MoveValue,
   Network,
   TypeArgument,
   UserTransactionResponse,
@@ -42,6 +43,7 @@ export const REPOSITORY_ROOT = path.resolve(
 );
 export const LOCAL_RPC_URL = "http://localhost:8080";
 export const LOCAL_FAUCET_URL = "http://localhost:8081";
+export const LOCAL_INDEXER_URL = "http://localhost:8090/v1/graphql";
 
 export type PackageMetadata = {
   name: string;
@@ -54,16 +56,38 @@ export type PackageMetadata = {
   extension: { vec: [unknown] };
 };
 
-export function getAptosClient(url?: string, faucetUrl?: string): Aptos {
+export function getAptosClient(
+  url?: string,
+  faucetUrl?: string,
+  indexerUrl?: string
+): Aptos {
   return new Aptos(
     new AptosConfig({
       network: Network.CUSTOM,
       fullnode: `${url ?? LOCAL_RPC_URL}/v1`,
-      faucet: faucetUrl ?? LOCAL_FAUCET_URL
+      faucet: faucetUrl ?? LOCAL_FAUCET_URL,
+      indexer: indexerUrl ?? LOCAL_INDEXER_URL
     })
   );
 }
 
+/**
+ * Returns a client that reads view functions and resources at a fixed ledger
+ * version, so that a sequence of reads observes a single consistent state.
+ */
+export function pinAptosClient(aptos: Aptos, ledgerVersion: bigint): Aptos {
+  const pinnedAptos = new Aptos(aptos.config);
+  pinnedAptos.view = <T extends MoveValue[]>(
+    args: Parameters<Aptos["view"]>[0]
+  ) => aptos.view<T>({ ...args, options: { ...args.options, ledgerVersion } });
+  pinnedAptos.getAccountResource = (args) =>
+    aptos.getAccountResource({
+      ...args,
+      options: { ...args.options, ledgerVersion }
+    });
+  return pinnedAptos;
+}
+
 /**
  * Calls a view function in Move and returns the first result.
  */
@@ -84,18 +108,21 @@ export async function callViewFunction<T>(
 }
 
 /**
- * Executes a transaction and waits for it to be included in a block
+ * Executes a transaction and waits for it to be included in a block.
+ * `onSubmit` is called with the transaction hash once it is submitted.
  * @returns the transaction output
  * @throws if the transaction fails
  */
 export async function executeTransaction({
   aptos,
   sender,
-  data
+  data,
+  onSubmit
 }: {
   aptos: Aptos;
   sender: Ed25519Account;
   data: InputGenerateTransactionPayloadData;
+  onSubmit?: (transactionHash: string) => void;
 }): Promise<UserTransactionResponse> {
   const transaction = await aptos.transaction.build.simple({
     sender: sender.accountAddress,
@@ -105,6 +132,7 @@ export async function executeTransaction({
     signer: sender,
     transaction
   });
+  onSubmit?.(response.hash);
   const txOutput = await aptos.waitForTransaction({
     transactionHash: response.hash
   });
@@ -116,13 +144,16 @@ export async function executeTransaction({
 }
 
 /**
- * Finds a specific event from the transaction output
+ * Finds a specific event from the transaction output.
+ * The module address in the event type may be in either its short or long form.
  */
 export function getEventByType(
   txOutput: UserTransactionResponse,
   eventType: string
 ): Event {
-  const event = txOutput.events.find((e: any) => e.type === eventType);
+  const event = txOutput.events.find(
+    (e: any) => normalizeEventType(e.type) === normalizeEventType(eventType)
+  );
   assert(!!event, `Event ${eventType} not found`);
   return event;
 }
@@ -135,6 +166,11 @@ export function normalizeAddress(address: string): string {
   return AccountAddress.from(paddedAddress).toString();
 }
 
+function normalizeEventType(eventType: string): string {
+  const [address, ...rest] = eventType.split("::");
+  return [normalizeAddress(address), ...rest].join("::");
+}
+
 /**
  * Throws if any address does not match the format defined in AIP-40.
  */
@@ -0,0 +1,187 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync
+} from "crypto";
+import fs from "fs";
+import * as yup from "yup";
+
+export const DEFAULT_KEYSTORE_PASSWORD_ENV = "KEYSTORE_PASSWORD";
+
+export type Keystore = yup.InferType<typeof keystoreSchema>;
+
+const KEYSTORE_VERSION = 1;
+const CIPHER = "aes-256-gcm";
+const KDF = "scrypt";
+const KDF_PARAMS = { n: 2 ** 15, r: 8, p: 1, keyLength: 32 };
+
+const keystoreSchema = yup.object().shape({
+  version: yup.number().oneOf([KEYSTORE_VERSION]).required(),
+  address: yup.string().required(),
+  publicKey: yup.string().required(),
+  crypto: yup
+    .object()
+    .shape({
+      kdf: yup.string().oneOf([KDF]).required(),
+      kdfParams: yup
+        .object()
+        .shape({
+          n: yup.number().required(),
+          r: yup.number().required(),
+          p: yup.number().required(),
+          keyLength: yup.number().required(),
+          salt: yup.string().required()
+        })
+        .required(),
+      cipher: yup.string().oneOf([CIPHER]).required(),
+      iv: yup.string().required(),
+      authTag: yup.string().required(),
+      ciphertext: yup.string().required()
+    })
+    .required()
+});
+
+/**
+ * Encrypts a private key with a password.
+ * The encryption key is derived from the password with scrypt, and the private
+ * key is encrypted with AES-256-GCM.
+ */
+export function encryptPrivateKey(
+  privateKey: Ed25519PrivateKey,
+  password: string
+): Keystore {
+  const account = Account.fromPrivateKey({ privateKey });
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv(CIPHER, deriveKey(password, salt), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(privateKey.toUint8Array()),
+    cipher.final()
+  ]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    address: account.accountAddress.toString(),
+    publicKey: account.publicKey.toString(),
+    crypto: {
+      kdf: KDF,
+      kdfParams: { ...KDF_PARAMS, salt: salt.toString("hex") },
+      cipher: CIPHER,
+      iv: iv.toString("hex"),
+      authTag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex")
+    }
+  };
+}
+
+/**
+ * Decrypts the private key in a keystore.
+ * @throws if the password is incorrect, or the keystore has been tampered with.
+ */
+export function decryptPrivateKey(
+  keystore: Keystore,
+  password: string
+): Ed25519PrivateKey {
+  const { kdfParams, iv, authTag, ciphertext } = keystore.crypto;
+
+  const decipher = createDecipheriv(
+    CIPHER,
+    deriveKey(password, Buffer.from(kdfParams.salt, "hex"), kdfParams),
+    Buffer.from(iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "hex"));
+
+  let privateKeyBytes: Buffer;
+  try {
+    privateKeyBytes = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "hex")),
+      decipher.final()
+    ]);
+  } catch {
+    throw new Error("Failed to decrypt keystore! Is the password correct?");
+  }
+
+  const privateKey = new Ed25519PrivateKey(privateKeyBytes);
+  const account = Account.fromPrivateKey({ privateKey });
+  if (account.accountAddress.toString() !== keystore.address) {
+    throw new Error(
+      `Decrypted private key does not match the keystore address ${keystore.address}!`
+    );
+  }
+
+  return privateKey;
+}
+
+/**
+ * Reads and validates a keystore file.
+ */
+export function readKeystore(keystorePath: string): Keystore {
+  if (!fs.existsSync(keystorePath)) {
+    throw new Error(`Failed to load keystore file: ${keystorePath}`);
+  }
+  return keystoreSchema.validateSync(
+    JSON.parse(fs.readFileSync(keystorePath, "utf8")),
+    { abortEarly: false, strict: true }
+  );
+}
+
+/**
+ * Writes a keystore file, refusing to overwrite an existing file.
+ */
+export function writeKeystore(keystorePath: string, keystore: Keystore) {
+  if (fs.existsSync(keystorePath)) {
+    throw new Error(`Keystore file already exists: ${keystorePath}`);
+  }
+  fs.writeFileSync(keystorePath, JSON.stringify(keystore, null, 2), {
+    mode: 0o600
+  });
+}
+
+/**
+ * Reads the keystore password from an environment variable.
+ */
+export function getKeystorePassword(
+  passwordEnv = DEFAULT_KEYSTORE_PASSWORD_ENV
+): string {
+  const password = process.env[passwordEnv];
+  if (!password) {
+    throw new Error(
+      `Missing keystore password! Set the ${passwordEnv} environment variable.`
+    );
+  }
+  return password;
+}
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  { n, r, p, keyLength } = KDF_PARAMS
+): Buffer {
+  return scryptSync(password, salt, keyLength, {
+    N: n,
+    r,
+    p,
+    maxmem: 256 * n * r
+  });
+}
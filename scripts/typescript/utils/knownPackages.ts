@@ -0,0 +1,57 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { normalizeAddress } from ".";
+
+/**
+ * The addresses where the aptos_extensions and stablecoin packages are located.
+ */
+export type KnownPackageIds = {
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId?: string;
+};
+
+const PACKAGE_MODULES: Record<keyof KnownPackageIds, string[]> = {
+  aptosExtensionsPackageId: ["manageable", "ownable", "pausable", "upgradable"],
+  stablecoinPackageId: ["blocklistable", "metadata", "stablecoin", "treasury"]
+};
+
+/**
+ * Returns whether a function, given as "<address>::<module_name>::<function_name>",
+ * is located in the aptos_extensions or stablecoin package.
+ *
+ * Any package can define modules and functions with the same names, so a
+ * function is only treated as one of the packages' if its module address
+ * matches the package ID.
+ */
+export function isKnownPackageFunction(
+  functionId: string,
+  packageIds: KnownPackageIds
+): boolean {
+  const [moduleAddress, moduleName] = functionId.split("::");
+  return (Object.keys(PACKAGE_MODULES) as (keyof KnownPackageIds)[]).some(
+    (key) => {
+      const packageId = packageIds[key];
+      return (
+        packageId != null &&
+        PACKAGE_MODULES[key].includes(moduleName) &&
+        normalizeAddress(packageId) === normalizeAddress(moduleAddress)
+      );
+    }
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { execSync } from "node:child_process";
+import fs from "fs";
+import path from "path";
+
+import { REPOSITORY_ROOT } from ".";
+import { formatNamedAddresses } from "./deployUtils";
+
+export type MoveScriptName = "mint" | "burn";
+
+/**
+ * Compiles the Move scripts against the deployed packages
+ * @returns The bytecode of the given script
+ */
+export function buildMoveScript(
+  scriptName: MoveScriptName,
+  {
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  }: { aptosExtensionsPackageId: string; stablecoinPackageId: string }
+): Uint8Array {
+  const namedAddresses = [
+    { name: "stablecoin", address: stablecoinPackageId },
+    { name: "aptos_extensions", address: aptosExtensionsPackageId },
+    // The deployer address is only used when publishing the stablecoin
+    // package, and is not referenced by the scripts.
+    { name: "deployer", address: AccountAddress.ZERO.toString() }
+  ];
+  const bytecodeFilePath = path.join(
+    REPOSITORY_ROOT,
+    "scripts",
+    "move",
+    "build",
+    "StablecoinScripts",
+    "bytecode_scripts",
+    `${scriptName}.mv`
+  );
+
+  const buildCommand = `make build-scripts \
+    named_addresses="${formatNamedAddresses(namedAddresses)}"`;
+  const result = execSync(buildCommand, { encoding: "utf-8" });
+
+  if (!fs.existsSync(bytecodeFilePath)) {
+    console.error(result);
+    throw new Error(`Build failed with the following command: ${buildCommand}`);
+  }
+  return new Uint8Array(fs.readFileSync(bytecodeFilePath));
+}
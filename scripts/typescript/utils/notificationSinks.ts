@@ -0,0 +1,97 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import { ValidationMismatch } from "./validationReport";
+
+/**
+ * Sent when the set of mismatches between the live state and the expected
+ * state changes. `drift` means that mismatches appeared while there were none,
+ * `cleared` means that all mismatches were resolved, and `changed` means that
+ * the mismatches changed otherwise.
+ */
+export type DriftNotification = {
+  timestamp: string;
+  ledgerVersion?: string;
+  status: "drift" | "changed" | "cleared";
+  mismatches: ValidationMismatch[];
+  appeared: ValidationMismatch[];
+  cleared: ValidationMismatch[];
+};
+
+export interface NotificationSink {
+  readonly name: string;
+  notify(notification: DriftNotification): Promise<void>;
+}
+
+export class StdoutSink implements NotificationSink {
+  readonly name = "stdout";
+
+  async notify(notification: DriftNotification) {
+    const color =
+      notification.status === "cleared" ? "\u001b[32m" : "\u001b[31m";
+    console.log(
+      `${color}[${notification.timestamp}] Drift ${notification.status} at ledger version ${notification.ledgerVersion}\u001b[0m`
+    );
+    for (const mismatch of notification.appeared) {
+      console.log(`  + ${mismatch.field}: ${mismatch.message}`);
+    }
+    for (const mismatch of notification.cleared) {
+      console.log(`  - ${mismatch.field}: ${mismatch.message}`);
+    }
+  }
+}
+
+/**
+ * Appends each notification to a file as a JSON line.
+ */
+export class JsonlFileSink implements NotificationSink {
+  readonly name: string;
+
+  constructor(private readonly filePath: string) {
+    this.name = `jsonl:${filePath}`;
+  }
+
+  async notify(notification: DriftNotification) {
+    fs.appendFileSync(this.filePath, JSON.stringify(notification) + "\n");
+  }
+}
+
+/**
+ * Posts each notification to a URL as JSON.
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name: string;
+
+  constructor(private readonly url: string) {
+    this.name = `webhook:${url}`;
+  }
+
+  async notify(notification: DriftNotification) {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification)
+    });
+    if (!response.ok) {
+      throw new Error(
+        `The webhook ${this.url} responded with status ${response.status}!`
+      );
+    }
+  }
+}
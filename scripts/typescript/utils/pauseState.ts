@@ -0,0 +1,122 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AptosExtensionsPackage } from "../packages/aptosExtensionsPackage";
+import { StablecoinPackage } from "../packages/stablecoinPackage";
+import { getAptosClient, validateAddresses, waitForUserConfirmation } from ".";
+import {
+  buildTransactionForOfflineSigning,
+  BuildOnlyOptions,
+  getSenderAddress,
+  getSigner
+} from "./buildOnly";
+import { getTypedEvent } from "./events";
+
+export type PauseStateOptions = {
+  aptosExtensionsPackageId: string;
+  stablecoinPackageId: string;
+  pauserKey?: string;
+  rpcUrl: string;
+} & BuildOnlyOptions;
+
+/**
+ * Pauses or unpauses the stablecoin as the pauser, and verifies the new state.
+ * In build-only mode, the transaction is built for offline signing instead.
+ */
+export async function setPauseState(
+  paused: boolean,
+  {
+    aptosExtensionsPackageId,
+    stablecoinPackageId,
+    pauserKey,
+    rpcUrl,
+    ...buildOnlyOptions
+  }: PauseStateOptions
+) {
+  validateAddresses(aptosExtensionsPackageId, stablecoinPackageId);
+
+  const aptos = getAptosClient(rpcUrl);
+  const aptosExtensionsPackage = new AptosExtensionsPackage(
+    aptos,
+    aptosExtensionsPackageId
+  );
+  const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+
+  const pauser =
+    await aptosExtensionsPackage.pausable.pauser(stablecoinAddress);
+  const senderAddress = getSenderAddress(pauserKey, buildOnlyOptions);
+  if (senderAddress.toString() !== pauser) {
+    throw new Error(
+      `The sender ${senderAddress.toString()} is not the pauser ${pauser}!`
+    );
+  }
+
+  const isPaused =
+    await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress);
+  console.log(
+    `The stablecoin ${stablecoinAddress} is currently ${isPaused ? "paused" : "unpaused"}.`
+  );
+
+  console.log(
+    `${paused ? "Pausing" : "Unpausing"} the stablecoin ${stablecoinAddress}...`
+  );
+  if (!(await waitForUserConfirmation())) {
+    process.exit(1);
+  }
+
+  if (buildOnlyOptions.buildOnly) {
+    await buildTransactionForOfflineSigning({
+      aptos,
+      data: paused
+        ? aptosExtensionsPackage.pausable.pausePayload(stablecoinAddress)
+        : aptosExtensionsPackage.pausable.unpausePayload(stablecoinAddress),
+      options: buildOnlyOptions
+    });
+    return;
+  }
+
+  const signer = getSigner(pauserKey);
+  const txOutput = paused
+    ? await aptosExtensionsPackage.pausable.pause(signer, stablecoinAddress)
+    : await aptosExtensionsPackage.pausable.unpause(signer, stablecoinAddress);
+
+  // Verify that the stablecoin was paused or unpaused.
+  const eventType = paused ? "pausable::Pause" : "pausable::Unpause";
+  const event = getTypedEvent(txOutput, aptosExtensionsPackageId, eventType);
+  if (event.data.objAddress !== stablecoinAddress) {
+    throw new Error(
+      `Unexpected ${paused ? "Pause" : "Unpause"} event for ${event.data.objAddress}!`
+    );
+  }
+  if (
+    (await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress)) !==
+    paused
+  ) {
+    throw new Error(
+      paused
+        ? "The stablecoin is not paused after the transaction!"
+        : "The stablecoin is still paused after the transaction!"
+    );
+  }
+
+  console.log(
+    `\u001b[32m${paused ? "Paused" : "Unpaused"} the stablecoin ${stablecoinAddress}\u001b[0m`
+  );
+}
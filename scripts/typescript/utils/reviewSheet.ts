@@ -0,0 +1,832 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Aptos, NetworkToChainId } from "@aptos-labs/ts-sdk";
+import type {
+  DecodedEntryFunction,
+  DecodedTransaction
+} from "../decodeTransaction";
+import { AptosExtensionsPackage } from "../packages/aptosExtensionsPackage";
+import { StablecoinPackage } from "../packages/stablecoinPackage";
+import { formatTokenAmount } from "./formatting";
+import { isKnownPackageFunction, KnownPackageIds } from "./knownPackages";
+
+export const REVIEW_SHEET_FORMATS = ["markdown", "text"] as const;
+export type ReviewSheetFormat = (typeof REVIEW_SHEET_FORMATS)[number];
+
+/**
+ * The live state of a stablecoin, used to resolve the sender's role and
+ * the current values that a transaction changes.
+ */
+export type TokenState = {
+  stablecoinAddress: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  iconUri: string;
+  projectUri: string;
+  paused: boolean;
+
+  admin: string;
+  pendingAdmin: string | null;
+  owner: string;
+  pendingOwner: string | null;
+  pauser: string;
+  blocklister: string;
+  masterMinter: string;
+  metadataUpdater: string;
+};
+
+export type ReviewContext = {
+  decimals?: number;
+  packageIds?: KnownPackageIds;
+  state?: TokenState;
+  stablecoinPackage?: StablecoinPackage;
+};
+
+export type ReviewSheet = {
+  network: string;
+  sender: string;
+  senderRoles: string[] | null;
+  secondarySigners?: string[];
+  feePayer?: string;
+  multisigAccount?: string;
+  multisigAccountRoles?: string[] | null;
+  sequenceNumber: string;
+  expiration: string;
+  maxGasAmount: string;
+  gasUnitPrice: string;
+  payload: {
+    details: [string, string][];
+    typeArgs: string[];
+    args: string[];
+  };
+  intent: string;
+  changes: Change[];
+};
+
+/**
+ * An entry function that is called by a transaction, either directly or through
+ * a multisig account. The signer is the account that the function is called as.
+ */
+type EntryFunctionCall = DecodedEntryFunction & { signer: string };
+
+/**
+ * A state that is changed by a transaction. The current value is null if the
+ * state is unset, and undefined if it is unknown.
+ */
+type Change = {
+  field: string;
+  current?: string | null;
+  resulting: string;
+};
+
+type Intent = {
+  description: string;
+  changes: Change[];
+};
+
+/**
+ * Fetches the live state of a stablecoin.
+ */
+export async function fetchTokenState(
+  aptos: Aptos,
+  aptosExtensionsPackage: AptosExtensionsPackage,
+  stablecoinPackage: StablecoinPackage
+): Promise<TokenState> {
+  const stablecoinAddress =
+    await stablecoinPackage.stablecoin.stablecoinAddress();
+  const faMetadata = await aptos.getAccountResource({
+    accountAddress: stablecoinAddress,
+    resourceType: "0x1::fungible_asset::Metadata"
+  });
+
+  return {
+    stablecoinAddress,
+    name: faMetadata.name,
+    symbol: faMetadata.symbol,
+    decimals: faMetadata.decimals,
+    iconUri: faMetadata.icon_uri,
+    projectUri: faMetadata.project_uri,
+    paused: await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress),
+
+    admin: await aptosExtensionsPackage.manageable.admin(stablecoinPackage.id),
+    pendingAdmin: await aptosExtensionsPackage.manageable.pendingAdmin(
+      stablecoinPackage.id
+    ),
+    owner: await aptosExtensionsPackage.ownable.owner(stablecoinAddress),
+    pendingOwner:
+      await aptosExtensionsPackage.ownable.pendingOwner(stablecoinAddress),
+    pauser: await aptosExtensionsPackage.pausable.pauser(stablecoinAddress),
+    blocklister: await stablecoinPackage.blocklistable.blocklister(),
+    masterMinter: await stablecoinPackage.treasury.masterMinter(),
+    metadataUpdater: await stablecoinPackage.metadata.metadataUpdater()
+  };
+}
+
+/**
+ * Builds a review sheet for a decoded transaction, which states the intent of
+ * the transaction in words. The intent is only stated for calls to the
+ * aptos_extensions and stablecoin packages at the given package IDs.
+ *
+ * If the live state of the stablecoin is provided, the sheet also includes the
+ * sender's roles and the current values of the states that the transaction
+ * changes. Otherwise, only the resulting values are included.
+ */
+export async function buildReviewSheet(
+  decodedTx: DecodedTransaction,
+  context: ReviewContext = {}
+): Promise<ReviewSheet> {
+  const { payload } = decodedTx;
+
+  let intent: Intent;
+  let multisigAccount: string | undefined;
+  let sheetPayload: ReviewSheet["payload"];
+  if ("script" in payload) {
+    intent = {
+      description: `runs a Move script with bytecode hash ${payload.script.bytecodeHash}`,
+      changes: []
+    };
+    sheetPayload = {
+      details: [
+        ["Type", "script"],
+        ["Bytecode hash", payload.script.bytecodeHash]
+      ],
+      typeArgs: payload.script.typeArgs,
+      args: payload.script.args.map(
+        ({ type, value }) => `${formatArgument(value)} (${type})`
+      )
+    };
+  } else if ("multisig" in payload) {
+    multisigAccount = payload.multisig.multisigAddress;
+    const innerPayload = payload.multisig.payload;
+    if (innerPayload != null) {
+      const innerIntent = await describeCall(
+        { ...innerPayload, signer: multisigAccount },
+        context
+      );
+      intent = {
+        description: `${innerIntent.description}, executed by multisig account ${multisigAccount}`,
+        changes: innerIntent.changes
+      };
+    } else {
+      intent = {
+        description: `executes the next transaction of multisig account ${multisigAccount}, whose payload was proposed on-chain and is not included in this transaction`,
+        changes: []
+      };
+    }
+    sheetPayload = {
+      details: [
+        ["Type", "multisig"],
+        ["Multisig account", multisigAccount],
+        ...(innerPayload != null
+          ? [["Function", innerPayload.function] as [string, string]]
+          : [])
+      ],
+      typeArgs: innerPayload?.typeArgs ?? [],
+      args: innerPayload?.args.map(formatArgument) ?? []
+    };
+  } else {
+    intent = await describeCall(
+      { ...payload, signer: decodedTx.sender },
+      context
+    );
+    sheetPayload = {
+      details: [
+        ["Type", "entry function"],
+        ["Function", payload.function]
+      ],
+      typeArgs: payload.typeArgs,
+      args: payload.args.map(formatArgument)
+    };
+  }
+
+  return {
+    network: getNetworkName(decodedTx.chainId),
+    sender: decodedTx.sender,
+    senderRoles: await getAccountRoles(decodedTx.sender, context),
+    secondarySigners: decodedTx.secondarySigners,
+    feePayer: decodedTx.feePayer,
+    multisigAccount,
+    multisigAccountRoles:
+      multisigAccount != null
+        ? await getAccountRoles(multisigAccount, context)
+        : undefined,
+    sequenceNumber: decodedTx.sequenceNumber,
+    expiration: formatTimestamp(decodedTx.expirationTimestampSecs),
+    maxGasAmount: decodedTx.maxGasAmount,
+    gasUnitPrice: decodedTx.gasUnitPrice,
+    payload: sheetPayload,
+    intent: intent.description,
+    changes: intent.changes
+  };
+}
+
+async function describeCall(
+  call: EntryFunctionCall,
+  context: ReviewContext
+): Promise<Intent> {
+  const [, moduleName, functionName] = call.function.split("::");
+  const describeIntent = isKnownPackageFunction(
+    call.function,
+    context.packageIds ?? {}
+  )
+    ? intentDescribers[`${moduleName}::${functionName}`]
+    : undefined;
+
+  return describeIntent != null
+    ? describeIntent(call, context)
+    : {
+        description: `calls ${call.function}, which has no known intent`,
+        changes: []
+      };
+}
+
+/**
+ * Renders a review sheet as either Markdown or plain text.
+ */
+export function renderReviewSheet(
+  sheet: ReviewSheet,
+  format: ReviewSheetFormat
+): string {
+  const formatRoles = (roles: string[] | null) =>
+    roles == null
+      ? "unknown (set --rpc-url, --aptos-extensions-package-id and --stablecoin-package-id to resolve)"
+      : roles.join(", ") || "none";
+
+  const summary: [string, string][] = [
+    ["Network", sheet.network],
+    ["Sender", sheet.sender],
+    ["Sender role", formatRoles(sheet.senderRoles)]
+  ];
+  if (sheet.multisigAccount != null) {
+    summary.push(
+      ["Multisig account", sheet.multisigAccount],
+      ["Multisig account role", formatRoles(sheet.multisigAccountRoles ?? null)]
+    );
+  }
+  if (sheet.secondarySigners != null) {
+    summary.push([
+      "Secondary signers",
+      sheet.secondarySigners.join(", ") || "none"
+    ]);
+  }
+  if (sheet.feePayer != null) {
+    summary.push(["Fee payer", sheet.feePayer]);
+  }
+  summary.push(
+    ["Sequence number", sheet.sequenceNumber],
+    ["Expiration", sheet.expiration],
+    ["Max gas amount", sheet.maxGasAmount],
+    ["Gas unit price", sheet.gasUnitPrice]
+  );
+  const changes = sheet.changes.map((change): [string, string, string] => [
+    change.field,
+    change.current === undefined ? "unknown" : (change.current ?? "none"),
+    change.resulting
+  ]);
+
+  return format === "markdown"
+    ? renderMarkdown(sheet, summary, changes)
+    : renderText(sheet, summary, changes);
+}
+
+function renderMarkdown(
+  sheet: ReviewSheet,
+  summary: [string, string][],
+  changes: [string, string, string][]
+): string {
+  const { details, typeArgs, args } = sheet.payload;
+  const lines = [
+    "# Transaction Review Sheet",
+    "",
+    "| | |",
+    "| --- | --- |",
+    ...summary.map(([label, value]) => `| ${label} | ${value} |`),
+    "",
+    "## Intent",
+    "",
+    `${capitalize(sheet.intent)}.`,
+    ""
+  ];
+
+  if (changes.length > 0) {
+    lines.push(
+      "## Changes",
+      "",
+      "| Field | Current | Resulting |",
+      "| --- | --- | --- |",
+      ...changes.map((row) => `| ${row.join(" | ")} |`),
+      ""
+    );
+  }
+
+  lines.push(
+    "## Payload",
+    "",
+    ...details.flatMap(([label, value]) => [`${label}: \`${value}\``, ""])
+  );
+  if (typeArgs.length > 0) {
+    lines.push(
+      "Type arguments:",
+      "",
+      ...typeArgs.map((typeArg) => `- \`${typeArg}\``),
+      ""
+    );
+  }
+  lines.push(
+    "Arguments:",
+    "",
+    ...(args.length > 0
+      ? args.map((arg, i) => `${i + 1}. \`${arg}\``)
+      : ["None"]),
+    ""
+  );
+
+  return lines.join("\n");
+}
+
+function renderText(
+  sheet: ReviewSheet,
+  summary: [string, string][],
+  changes: [string, string, string][]
+): string {
+  const { details, typeArgs, args } = sheet.payload;
+  const heading = (title: string) => [title, "=".repeat(title.length)];
+  const labelWidth = Math.max(...summary.map(([label]) => label.length)) + 1;
+
+  const lines = [
+    ...heading("TRANSACTION REVIEW SHEET"),
+    ...summary.map(
+      ([label, value]) => `${`${label}:`.padEnd(labelWidth)} ${value}`
+    ),
+    "",
+    ...heading("INTENT"),
+    `${capitalize(sheet.intent)}.`,
+    ""
+  ];
+
+  if (changes.length > 0) {
+    lines.push(
+      ...heading("CHANGES"),
+      ...changes.flatMap(([field, current, resulting]) => [
+        field,
+        `  Current:   ${current}`,
+        `  Resulting: ${resulting}`
+      ]),
+      ""
+    );
+  }
+
+  lines.push(
+    ...heading("PAYLOAD"),
+    ...details.map(([label, value]) => `${label}: ${value}`)
+  );
+  if (typeArgs.length > 0) {
+    lines.push(`Type arguments: ${typeArgs.join(", ")}`);
+  }
+  lines.push(
+    "Arguments:",
+    ...(args.length > 0
+      ? args.map((arg, i) => `  ${i + 1}. ${arg}`)
+      : ["  None"]),
+    ""
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Maps a chain ID to the name of its network.
+ */
+export function getNetworkName(chainId: string): string {
+  const network = Object.entries(NetworkToChainId).find(
+    ([, id]) => id.toString() === chainId
+  )?.[0];
+  return `${network ?? "unknown network"} (chain ID ${chainId})`;
+}
+
+/**
+ * Formats a timestamp in seconds as a UTC date.
+ * Timestamps beyond the range of a date are returned in seconds.
+ */
+export function formatTimestamp(timestampSecs: string): string {
+  const date = new Date(Number(timestampSecs) * 1000);
+  if (isNaN(date.getTime())) {
+    return `${timestampSecs} seconds since the epoch`;
+  }
+  return `${date.toISOString().replace("T", " ").replace(".000Z", "")} UTC`;
+}
+
+/**
+ * Resolves the roles that an account holds on the stablecoin.
+ * @returns null if the live state of the stablecoin is unavailable.
+ */
+async function getAccountRoles(
+  address: string,
+  { state, stablecoinPackage }: ReviewContext
+): Promise<string[] | null> {
+  if (state == null || stablecoinPackage == null) {
+    return null;
+  }
+
+  const roles = (
+    [
+      ["admin", state.admin],
+      ["pending admin", state.pendingAdmin],
+      ["owner", state.owner],
+      ["pending owner", state.pendingOwner],
+      ["pauser", state.pauser],
+      ["blocklister", state.blocklister],
+      ["master minter", state.masterMinter],
+      ["metadata updater", state.metadataUpdater]
+    ] as [string, string | null][]
+  )
+    .filter(([, roleAddress]) => roleAddress === address)
+    .map(([role]) => role);
+
+  const minter = await stablecoinPackage.treasury.getMinter(address);
+  if (minter != null) {
+    roles.push(`controller of minter ${minter}`);
+  }
+  if (await stablecoinPackage.treasury.isMinter(address)) {
+    roles.push("minter");
+  }
+
+  return roles;
+}
+
+// ==== Intent Describers ====
+type IntentDescriber = (
+  call: EntryFunctionCall,
+  context: ReviewContext
+) => Intent | Promise<Intent>;
+
+const fromTo = (current: string | null | undefined, resulting: string) =>
+  current !== undefined
+    ? `from ${current ?? "none"} to ${resulting}`
+    : `to ${resulting}`;
+
+const describeStablecoin = (
+  call: EntryFunctionCall,
+  { state }: ReviewContext
+) => {
+  const [moduleAddress, moduleName] = call.function.split("::");
+  // The ownable and pausable functions take the stablecoin object as their
+  // first argument.
+  if (moduleName === "ownable" || moduleName === "pausable") {
+    return `stablecoin ${call.args[0]}`;
+  }
+  return state != null
+    ? `stablecoin ${state.stablecoinAddress}`
+    : `the stablecoin of package ${moduleAddress}`;
+};
+
+const describeAmount = (amount: string, { decimals, state }: ReviewContext) =>
+  formatTokenAmount(amount, state?.decimals ?? decimals, state?.symbol);
+
+/**
+ * Describes a transaction that changes a single role on the stablecoin.
+ */
+const describeRoleChange =
+  (role: string, key: keyof TokenState, newRoleArgIndex: number) =>
+  (call: EntryFunctionCall, context: ReviewContext): Intent => {
+    const newRole = call.args[newRoleArgIndex] as string;
+    const current = context.state?.[key] as string | null | undefined;
+    return {
+      description: `changes ${role} of ${describeStablecoin(call, context)} ${fromTo(current, newRole)}`,
+      changes: [{ field: role, current, resulting: newRole }]
+    };
+  };
+
+/**
+ * Describes a transaction that changes the mint allowance of the minter that is
+ * controlled by the signer.
+ */
+const describeMintAllowanceChange =
+  (action: "sets" | "increments") =>
+  async (call: EntryFunctionCall, context: ReviewContext): Promise<Intent> => {
+    const amount = call.args[0] as string;
+    const minter = await context.stablecoinPackage?.treasury.getMinter(
+      call.signer
+    );
+    const current =
+      minter != null
+        ? await context.stablecoinPackage?.treasury.mintAllowance(minter)
+        : undefined;
+    const field = `mint allowance of ${minter ?? `the minter controlled by ${call.signer}`}`;
+
+    let resulting: string;
+    if (action === "sets") {
+      resulting = describeAmount(amount, context);
+    } else if (current != null) {
+      resulting = describeAmount(
+        (current + BigInt(amount)).toString(),
+        context
+      );
+    } else {
+      resulting = `current + ${describeAmount(amount, context)}`;
+    }
+
+    return {
+      description: `${action} ${field} on ${describeStablecoin(call, context)} ${action === "sets" ? "to" : "by"} ${describeAmount(amount, context)}`,
+      changes: [
+        {
+          field,
+          current:
+            current != null
+              ? describeAmount(current.toString(), context)
+              : undefined,
+          resulting
+        }
+      ]
+    };
+  };
+
+/**
+ * Intent describers for the entry functions in the stablecoin and aptos_extensions
+ * packages, keyed by "<module_name>::<function_name>".
+ */
+const intentDescribers: Record<string, IntentDescriber> = {
+  // aptos_extensions::manageable
+  "manageable::change_admin": (call, { state }) => {
+    const [packageId, newAdmin] = call.args as string[];
+    return {
+      description: `starts transferring admin of package ${packageId} ${fromTo(state?.admin, newAdmin)}, which completes once ${newAdmin} accepts it`,
+      changes: [
+        {
+          field: "pending admin",
+          current: state?.pendingAdmin,
+          resulting: newAdmin
+        }
+      ]
+    };
+  },
+  "manageable::accept_admin": (call, { state }) => {
+    const [packageId] = call.args as string[];
+    return {
+      description: `accepts admin of package ${packageId} ${fromTo(state?.admin, call.signer)}`,
+      changes: [
+        { field: "admin", current: state?.admin, resulting: call.signer },
+        {
+          field: "pending admin",
+          current: state?.pendingAdmin,
+          resulting: "none"
+        }
+      ]
+    };
+  },
+
+  // aptos_extensions::ownable
+  "ownable::transfer_ownership": (call, context) => {
+    const [, newOwner] = call.args as string[];
+    return {
+      description: `starts transferring owner of ${describeStablecoin(call, context)} ${fromTo(context.state?.owner, newOwner)}, which completes once ${newOwner} accepts it`,
+      changes: [
+        {
+          field: "pending owner",
+          current: context.state?.pendingOwner,
+          resulting: newOwner
+        }
+      ]
+    };
+  },
+  "ownable::accept_ownership": (call, context) => ({
+    description: `accepts owner of ${describeStablecoin(call, context)} ${fromTo(context.state?.owner, call.signer)}`,
+    changes: [
+      {
+        field: "owner",
+        current: context.state?.owner,
+        resulting: call.signer
+      },
+      {
+        field: "pending owner",
+        current: context.state?.pendingOwner,
+        resulting: "none"
+      }
+    ]
+  }),
+
+  // aptos_extensions::pausable
+  "pausable::pause": (call, context) => ({
+    description: `pauses ${describeStablecoin(call, context)}`,
+    changes: [
+      {
+        field: "paused",
+        current: context.state?.paused.toString(),
+        resulting: "true"
+      }
+    ]
+  }),
+  "pausable::unpause": (call, context) => ({
+    description: `unpauses ${describeStablecoin(call, context)}`,
+    changes: [
+      {
+        field: "paused",
+        current: context.state?.paused.toString(),
+        resulting: "false"
+      }
+    ]
+  }),
+  "pausable::update_pauser": describeRoleChange("pauser", "pauser", 1),
+
+  // aptos_extensions::upgradable
+  "upgradable::upgrade_package": (call) => {
+    const [packageId, , code] = call.args as [string, string, string[]];
+    return {
+      description: `upgrades package ${packageId} with ${code.length} modules`,
+      changes: []
+    };
+  },
+
+  // stablecoin::blocklistable
+  "blocklistable::blocklist": async (call, context) => {
+    const [address] = call.args as string[];
+    return {
+      description: `blocklists ${address} on ${describeStablecoin(call, context)}`,
+      changes: [
+        {
+          field: `blocklist status of ${address}`,
+          current: (
+            await context.stablecoinPackage?.blocklistable.isBlocklisted(
+              address
+            )
+          )?.toString(),
+          resulting: "true"
+        }
+      ]
+    };
+  },
+  "blocklistable::unblocklist": async (call, context) => {
+    const [address] = call.args as string[];
+    return {
+      description: `unblocklists ${address} on ${describeStablecoin(call, context)}`,
+      changes: [
+        {
+          field: `blocklist status of ${address}`,
+          current: (
+            await context.stablecoinPackage?.blocklistable.isBlocklisted(
+              address
+            )
+          )?.toString(),
+          resulting: "false"
+        }
+      ]
+    };
+  },
+  "blocklistable::update_blocklister": describeRoleChange(
+    "blocklister",
+    "blocklister",
+    0
+  ),
+
+  // stablecoin::metadata
+  "metadata::update_metadata": (call, context) => {
+    const fields: [string, keyof TokenState][] = [
+      ["name", "name"],
+      ["symbol", "symbol"],
+      ["icon URI", "iconUri"],
+      ["project URI", "projectUri"]
+    ];
+    const changes = fields
+      .map(([field, key], i): Change | null => {
+        const value = call.args[i] as string | null;
+        return value != null
+          ? {
+              field,
+              current: context.state?.[key] as string | undefined,
+              resulting: value
+            }
+          : null;
+      })
+      .filter((change): change is Change => change != null);
+
+    return {
+      description: `updates the metadata of ${describeStablecoin(call, context)}, changing ${
+        changes
+          .map(
+            (change) =>
+              `${change.field} ${fromTo(change.current, change.resulting)}`
+          )
+          .join(", ") || "nothing"
+      }`,
+      changes
+    };
+  },
+  "metadata::update_metadata_updater": describeRoleChange(
+    "metadata updater",
+    "metadataUpdater",
+    0
+  ),
+
+  // stablecoin::stablecoin
+  "stablecoin::initialize_v1": (call, context) => {
+    const [name, symbol, decimals, iconUri, projectUri] = call.args as [
+      string,
+      string,
+      number,
+      string,
+      string
+    ];
+    return {
+      description: `initializes ${describeStablecoin(call, context)} with name "${name}", symbol "${symbol}", ${decimals} decimals, icon URI ${iconUri} and project URI ${projectUri}`,
+      changes: []
+    };
+  },
+
+  // stablecoin::treasury
+  "treasury::configure_controller": async (call, context) => {
+    const [controller, minter] = call.args as string[];
+    const current =
+      context.stablecoinPackage != null
+        ? await context.stablecoinPackage.treasury.getMinter(controller)
+        : undefined;
+    return {
+      description: `configures controller ${controller} to manage minter ${minter} on ${describeStablecoin(call, context)}`,
+      changes: [
+        {
+          field: `minter of controller ${controller}`,
+          current,
+          resulting: minter
+        }
+      ]
+    };
+  },
+  "treasury::remove_controller": async (call, context) => {
+    const [controller] = call.args as string[];
+    const current =
+      context.stablecoinPackage != null
+        ? await context.stablecoinPackage.treasury.getMinter(controller)
+        : undefined;
+    return {
+      description: `removes controller ${controller} from ${describeStablecoin(call, context)}`,
+      changes: [
+        {
+          field: `minter of controller ${controller}`,
+          current,
+          resulting: "none"
+        }
+      ]
+    };
+  },
+  "treasury::configure_minter": describeMintAllowanceChange("sets"),
+  "treasury::increment_minter_allowance":
+    describeMintAllowanceChange("increments"),
+  "treasury::remove_minter": async (call, context) => {
+    const minter = await context.stablecoinPackage?.treasury.getMinter(
+      call.signer
+    );
+    const minterDescription =
+      minter ?? `the minter controlled by ${call.signer}`;
+    return {
+      description: `removes ${minterDescription} from ${describeStablecoin(call, context)}`,
+      changes: [
+        {
+          field: `minter status of ${minterDescription}`,
+          current:
+            minter != null
+              ? (
+                  await context.stablecoinPackage?.treasury.isMinter(minter)
+                )?.toString()
+              : undefined,
+          resulting: "false"
+        }
+      ]
+    };
+  },
+  "treasury::update_master_minter": describeRoleChange(
+    "master minter",
+    "masterMinter",
+    0
+  )
+};
+
+function formatArgument(arg: unknown): string {
+  // Abbreviate long byte arrays, such as module bytecode.
+  if (typeof arg === "string" && /^0x[0-9a-f]{130,}$/i.test(arg)) {
+    return `${arg.slice(0, 18)}…${arg.slice(-16)} (${(arg.length - 2) / 2} bytes)`;
+  }
+  if (Array.isArray(arg)) {
+    return `[${arg.map(formatArgument).join(", ")}]`;
+  }
+  return typeof arg === "string" ? arg : JSON.stringify(arg);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
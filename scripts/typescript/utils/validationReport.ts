@@ -0,0 +1,206 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import { isDeepStrictEqual } from "util";
+
+export const VALIDATION_REPORT_FORMATS = ["json", "junit"] as const;
+export type ValidationReportFormat = (typeof VALIDATION_REPORT_FORMATS)[number];
+
+/**
+ * Errors fail the validation, while warnings are only reported.
+ */
+export type Severity = "error" | "warning";
+
+export type ValidationMismatch = {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+  severity: Severity;
+  message: string;
+};
+
+export type ValidationResult = {
+  /**
+   * The ledger version that the state was read at.
+   */
+  ledgerVersion?: string;
+  success: boolean;
+  checkedFields: string[];
+  mismatches: ValidationMismatch[];
+};
+
+/**
+ * Collects the results of validation checks, so that every check runs even if
+ * an earlier check fails.
+ */
+export class ValidationCollector {
+  private readonly checkedFields: string[] = [];
+  private readonly mismatches: ValidationMismatch[] = [];
+
+  /**
+   * Records that a field was checked, without comparing values.
+   */
+  checked(field: string) {
+    if (!this.checkedFields.includes(field)) {
+      this.checkedFields.push(field);
+    }
+  }
+
+  /**
+   * Compares an expected value to the actual value, and records a mismatch if
+   * they are not deeply equal.
+   */
+  compare(
+    field: string,
+    expected: unknown,
+    actual: unknown,
+    message = `Mismatched ${field}`
+  ) {
+    this.checked(field);
+    if (!isDeepStrictEqual(expected, actual)) {
+      this.addMismatch({ field, expected, actual, severity: "error", message });
+    }
+  }
+
+  addMismatch(mismatch: ValidationMismatch) {
+    this.checked(mismatch.field);
+    this.mismatches.push(mismatch);
+  }
+
+  result(): ValidationResult {
+    return {
+      success: this.mismatches.every(
+        (mismatch) => mismatch.severity !== "error"
+      ),
+      checkedFields: [...this.checkedFields],
+      mismatches: [...this.mismatches]
+    };
+  }
+}
+
+/**
+ * Renders the mismatches as a table, with errors in red and warnings in yellow.
+ */
+export function renderMismatchTable(result: ValidationResult): string {
+  if (result.mismatches.length === 0) {
+    return `All ${result.checkedFields.length} checks passed.`;
+  }
+
+  const headers = ["Severity", "Field", "Expected", "Actual", "Message"];
+  const rows = result.mismatches.map((mismatch) => [
+    mismatch.severity,
+    mismatch.field,
+    formatValue(mismatch.expected),
+    formatValue(mismatch.actual),
+    mismatch.message
+  ]);
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => cell.padEnd(widths[i])).join(" | ");
+
+  return [
+    formatRow(headers),
+    widths.map((width) => "-".repeat(width)).join("-+-"),
+    ...rows.map((row, i) => {
+      const color =
+        result.mismatches[i].severity === "error" ? "\u001b[31m" : "\u001b[33m";
+      return `${color}${formatRow(row)}\u001b[0m`;
+    })
+  ].join("\n");
+}
+
+/**
+ * Writes the validation result to a file, either as JSON or as JUnit XML with
+ * one test case per checked field.
+ */
+export function writeValidationReport(
+  reportFile: string,
+  result: ValidationResult,
+  format: ValidationReportFormat
+) {
+  const content =
+    format === "junit"
+      ? renderJunitReport(result)
+      : JSON.stringify(result, stringifyBigInt, 2) + "\n";
+  fs.writeFileSync(reportFile, content);
+}
+
+export function renderJunitReport(result: ValidationResult): string {
+  const failedFields = new Set(
+    result.mismatches
+      .filter((mismatch) => mismatch.severity === "error")
+      .map((mismatch) => mismatch.field)
+  );
+
+  const testCases = result.checkedFields.map((field) => {
+    const mismatches = result.mismatches.filter(
+      (mismatch) => mismatch.field === field
+    );
+    const children = mismatches.map((mismatch) => {
+      const details = escapeXml(
+        `Expected: ${formatValue(mismatch.expected)}\nActual: ${formatValue(mismatch.actual)}`
+      );
+      return mismatch.severity === "error"
+        ? `      <failure message="${escapeXml(mismatch.message)}" type="error">${details}</failure>`
+        : `      <system-out>${escapeXml(`Warning: ${mismatch.message}`)}\n${details}</system-out>`;
+    });
+    const name = `name="${escapeXml(field)}" classname="validate-stablecoin-state"`;
+    return children.length === 0
+      ? `    <testcase ${name}/>`
+      : [`    <testcase ${name}>`, ...children, "    </testcase>"].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${result.checkedFields.length}" failures="${failedFields.size}">`,
+    `  <testsuite name="validate-stablecoin-state" tests="${result.checkedFields.length}" failures="${failedFields.size}">`,
+    ...(result.ledgerVersion != null
+      ? [
+          "    <properties>",
+          `      <property name="ledgerVersion" value="${result.ledgerVersion}"/>`,
+          "    </properties>"
+        ]
+      : []),
+    ...testCases,
+    "  </testsuite>",
+    "</testsuites>",
+    ""
+  ].join("\n");
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string"
+    ? value
+    : (JSON.stringify(value, stringifyBigInt) ?? "undefined");
+}
+
+function stringifyBigInt(_: string, value: unknown) {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -17,8 +17,7 @@
  */
 
 import { Aptos } from "@aptos-labs/ts-sdk";
-import { strict as assert } from "assert";
-import { program } from "commander";
+import { Option, program } from "commander";
 import fs from "fs";
 import * as yup from "yup";
 import { AptosExtensionsPackage } from "./packages/aptosExtensionsPackage";
@@ -30,8 +29,24 @@ import {
   getPackageMetadata,
   isAptosAddress,
   isBigIntable,
+  normalizeAddress,
+  pinAptosClient,
   yupAptosAddress
 } from "./utils";
+import {
+  getManifestPackageId,
+  readDeploymentManifest,
+  validateManifestChainId
+} from "./utils/deploymentManifest";
+import { scanStablecoinEvents } from "./utils/eventScanner";
+import {
+  renderMismatchTable,
+  ValidationCollector,
+  VALIDATION_REPORT_FORMATS,
+  ValidationReportFormat,
+  ValidationResult,
+  writeValidationReport
+} from "./utils/validationReport";
 
 export type ConfigFile = yup.InferType<typeof configSchema>;
 type ExpectedStates = ConfigFile["expectedStates"];
@@ -40,7 +55,7 @@ type PartialExpectedStates = Omit<
   "controllers" | "minters" | "blocklist"
 >;
 
-const configSchema = yup.object().shape({
+export const configSchema = yup.object().shape({
   aptosExtensionsPackageId: yup.string().required(),
   stablecoinPackageId: yup.string().required(),
   expectedStates: yup.object({
@@ -109,7 +124,30 @@ export default program
   .description("Validates the stablecoin state")
   .argument("<string>", "Path to a validateStablecoinState config file")
   .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
-  .action(validateStablecoinState);
+  .option(
+    "--indexer-url <string>",
+    "Indexer GraphQL API URL. If set, unexpected controllers and minters are identified from the event history"
+  )
+  .option(
+    "--ledger-version <string>",
+    "The ledger version to validate the state at. Defaults to the latest version"
+  )
+  .option(
+    "--manifest <string>",
+    "Path to a deployment manifest. If set, the package IDs can be omitted from the config file"
+  )
+  .option(
+    "--report-file <string>",
+    "The file to write the validation report to"
+  )
+  .addOption(
+    new Option("--report-format <string>", "The format of the report file")
+      .choices(VALIDATION_REPORT_FORMATS)
+      .default("json")
+  )
+  .action(async (configFilePath, options) => {
+    await validateStablecoinState(configFilePath, options);
+  });
 
 /**
  * This script validates that all configurable states on a given stablecoin
@@ -117,16 +155,106 @@ export default program
  * Notably, for the controllers, minters and blocklist tables, it strongly verifies
  * that known addresses are configured correctly, and no additional unknown
  * addresses have been configured.
+ * The controllers and minters tables cannot be enumerated, so unknown addresses
+ * are identified by replaying the treasury events if an indexer URL is given.
+ *
+ * All checks are run, and every mismatch is reported before the script fails.
+ * Every read is pinned to a single ledger version, so that the validated state
+ * is consistent even if it changes while the script runs.
  */
 export async function validateStablecoinState(
   configFilePath: string,
-  { rpcUrl }: { rpcUrl: string }
-) {
-  const aptos = getAptosClient(rpcUrl);
-  const config = configSchema.validateSync(
-    JSON.parse(fs.readFileSync(configFilePath, "utf8")),
-    { abortEarly: false, strict: true }
-  );
+  {
+    rpcUrl,
+    indexerUrl,
+    ledgerVersion,
+    manifest,
+    reportFile,
+    reportFormat = "json"
+  }: {
+    rpcUrl: string;
+    indexerUrl?: string;
+    ledgerVersion?: string;
+    manifest?: string;
+    reportFile?: string;
+    reportFormat?: ValidationReportFormat;
+  }
+): Promise<ValidationResult> {
+  if (ledgerVersion != null && !isBigIntable(ledgerVersion)) {
+    throw new Error(`Invalid ledger version ${ledgerVersion}!`);
+  }
+
+  const rawConfig = JSON.parse(fs.readFileSync(configFilePath, "utf8"));
+  if (manifest != null) {
+    const deploymentManifest = readDeploymentManifest(manifest);
+    await validateManifestChainId(getAptosClient(rpcUrl), deploymentManifest);
+    for (const [key, packageName] of [
+      ["aptosExtensionsPackageId", "aptos_extensions"],
+      ["stablecoinPackageId", "stablecoin"]
+    ] as const) {
+      const packageId = getManifestPackageId(deploymentManifest, packageName);
+      if (
+        rawConfig[key] != null &&
+        normalizeAddress(rawConfig[key]) !== normalizeAddress(packageId)
+      ) {
+        throw new Error(
+          `The ${key} ${rawConfig[key]} in the config does not match ${packageId} in the manifest!`
+        );
+      }
+      rawConfig[key] = packageId;
+    }
+  }
+  const config = configSchema.validateSync(rawConfig, {
+    abortEarly: false,
+    strict: true
+  });
+
+  const result = await getValidationResult(config, {
+    rpcUrl,
+    indexerUrl,
+    ledgerVersion: ledgerVersion != null ? BigInt(ledgerVersion) : undefined
+  });
+
+  console.log(`Validated the state at ledger version ${result.ledgerVersion}`);
+  console.log(renderMismatchTable(result));
+  if (reportFile != null) {
+    writeValidationReport(reportFile, result, reportFormat);
+    console.log(`Validation report saved to: '${reportFile}'`);
+  }
+
+  if (!result.success) {
+    const errors = result.mismatches.filter(
+      (mismatch) => mismatch.severity === "error"
+    );
+    throw new Error(
+      [
+        `Validation failed with ${errors.length} errors:`,
+        ...errors.map((mismatch) => `- ${mismatch.field}: ${mismatch.message}`)
+      ].join("\n")
+    );
+  }
+
+  console.log("\u001b[32mValidation success!\u001b[0m");
+  return result;
+}
+
+/**
+ * Validates the live state of a stablecoin against a config, and returns every
+ * mismatch instead of failing on the first one.
+ * Reads are pinned to `ledgerVersion`, or to the latest version if it is unset.
+ */
+export async function getValidationResult(
+  config: ConfigFile,
+  {
+    rpcUrl,
+    indexerUrl,
+    ledgerVersion
+  }: { rpcUrl: string; indexerUrl?: string; ledgerVersion?: bigint }
+): Promise<ValidationResult> {
+  const latestAptos = getAptosClient(rpcUrl, undefined, indexerUrl);
+  const pinnedLedgerVersion =
+    ledgerVersion ?? BigInt((await latestAptos.getLedgerInfo()).ledger_version);
+  const aptos = pinAptosClient(latestAptos, pinnedLedgerVersion);
 
   const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
   const aptosExtensionsPackage = new AptosExtensionsPackage(
@@ -148,17 +276,20 @@ export async function validateStablecoinState(
     stablecoinAddress
   );
 
-  await validateTokenState({
-    aptos,
-    expectedTokenState: config.expectedStates,
-    actualTokenState,
-    stablecoinPackage
-  });
-
-  console.log("\u001b[32mValidation success!\u001b[0m");
+  return {
+    ledgerVersion: pinnedLedgerVersion.toString(),
+    ...(await validateTokenState({
+      aptos,
+      expectedTokenState: config.expectedStates,
+      actualTokenState,
+      stablecoinPackage,
+      ledgerVersion: pinnedLedgerVersion,
+      replayTreasuryEvents: indexerUrl != null
+    }))
+  };
 }
 
-async function buildCurrentTokenState(
+export async function buildCurrentTokenState(
   aptos: Aptos,
   aptosFrameworkPackage: AptosFrameworkPackage,
   aptosExtensionsPackage: AptosExtensionsPackage,
@@ -232,17 +363,36 @@ async function validateTokenState({
   aptos,
   expectedTokenState,
   actualTokenState,
-  stablecoinPackage
+  stablecoinPackage,
+  ledgerVersion,
+  replayTreasuryEvents
 }: {
   aptos: Aptos;
   expectedTokenState: ExpectedStates;
   actualTokenState: PartialExpectedStates;
   stablecoinPackage: StablecoinPackage;
-}) {
+  ledgerVersion: bigint;
+  replayTreasuryEvents: boolean;
+}): Promise<ValidationResult> {
+  const validation = new ValidationCollector();
   const { controllers, minters, blocklist, ...restExpectedStates } =
     expectedTokenState;
 
-  assert.deepStrictEqual(restExpectedStates, actualTokenState);
+  for (const [key, expectedValue] of Object.entries(restExpectedStates)) {
+    const actualValue = actualTokenState[key as keyof PartialExpectedStates];
+    if (typeof expectedValue === "object" && expectedValue != null) {
+      // Compare the package metadata field by field.
+      for (const [subKey, expectedSubValue] of Object.entries(expectedValue)) {
+        validation.compare(
+          `${key}.${subKey}`,
+          expectedSubValue,
+          (actualValue as Record<string, unknown>)[subKey]
+        );
+      }
+    } else {
+      validation.compare(key, expectedValue, actualValue);
+    }
+  }
 
   const stablecoinAddress =
     await stablecoinPackage.stablecoin.stablecoinAddress();
@@ -253,68 +403,193 @@ async function validateTokenState({
   const controllerCount = Number(treasuryStateResource.controllers.size);
   const minterCount = Number(treasuryStateResource.mint_allowances.size);
 
+  const treasuryKeys = replayTreasuryEvents
+    ? await getTreasuryKeysFromEvents(
+        aptos,
+        stablecoinPackage.id.toString(),
+        stablecoinAddress,
+        ledgerVersion
+      )
+    : undefined;
+
   const blocklistStateResource = await aptos.getAccountResource({
     accountAddress: stablecoinAddress,
     resourceType: `${stablecoinPackage.id}::blocklistable::BlocklistState`
   });
-  const blocklistedCount = Number(blocklistStateResource.blocklist.length);
+  const actualBlocklist = new Set<string>(
+    blocklistStateResource.blocklist.map(normalizeAddress)
+  );
 
-  await Promise.all(
-    Object.entries(controllers).map(async ([controller, expectedMinter]) => {
-      const actualMinter =
-        await stablecoinPackage.treasury.getMinter(controller);
+  for (const [controller, expectedMinter] of Object.entries(controllers)) {
+    validation.compare(
+      `controllers.${controller}`,
+      expectedMinter,
+      await stablecoinPackage.treasury.getMinter(controller),
+      "Invalid controller configuration"
+    );
+  }
+  validateTableKeys(validation, {
+    table: "controllers",
+    expectedKeys: Object.keys(controllers),
+    actualCount: controllerCount,
+    replayedKeys: treasuryKeys?.controllers
+  });
 
-      if (actualMinter !== expectedMinter) {
-        console.error({ [controller]: { actualMinter, expectedMinter } });
-        throw new Error("Invalid controller configuration");
-      }
-    })
-  );
-  assert.strictEqual(
-    controllerCount,
-    Object.entries(controllers).length,
-    "Additional controllers configured"
-  );
+  for (const [minter, expectedMintAllowance] of Object.entries(minters)) {
+    validation.compare(
+      `minters.${minter}`,
+      BigInt(expectedMintAllowance).toString(),
+      (await stablecoinPackage.treasury.mintAllowance(minter)).toString(),
+      "Invalid minter configuration"
+    );
+  }
+  validateTableKeys(validation, {
+    table: "minters",
+    expectedKeys: Object.keys(minters),
+    actualCount: minterCount,
+    replayedKeys: treasuryKeys?.minters
+  });
 
-  await Promise.all(
-    Object.entries(minters).map(async ([minter, expectedMintAllowance]) => {
-      const actualMintAllowance =
-        await stablecoinPackage.treasury.mintAllowance(minter);
-      const expectedMintAllowanceBigInt = BigInt(expectedMintAllowance);
-
-      if (actualMintAllowance !== expectedMintAllowanceBigInt) {
-        console.error({
-          [minter]: {
-            actualMintAllowance,
-            expectedMintAllowance: expectedMintAllowanceBigInt
-          }
-        });
-        throw new Error("Invalid minter configuration");
-      }
-    })
+  // Compare the full blocklist, so that every mismatched address is reported.
+  const expectedBlocklist = new Set(blocklist.map(normalizeAddress));
+  const notBlocklisted = [...expectedBlocklist].filter(
+    (address) => !actualBlocklist.has(address)
   );
-  assert.strictEqual(
-    minterCount,
-    Object.entries(minters).length,
-    "Additional minters configured"
+  const unexpectedlyBlocklisted = [...actualBlocklist].filter(
+    (address) => !expectedBlocklist.has(address)
   );
+  validation.checked("blocklist");
+  if (notBlocklisted.length > 0) {
+    validation.addMismatch({
+      field: "blocklist",
+      expected: notBlocklisted,
+      actual: [],
+      severity: "error",
+      message: `Invalid blocklist configuration, addresses not blocklisted: ${notBlocklisted.join(", ")}`
+    });
+  }
+  if (unexpectedlyBlocklisted.length > 0) {
+    validation.addMismatch({
+      field: "blocklist",
+      expected: [],
+      actual: unexpectedlyBlocklisted,
+      severity: "error",
+      message: `Additional addresses blocklisted: ${unexpectedlyBlocklisted.join(", ")}`
+    });
+  }
 
-  await Promise.all(
-    blocklist.map(async (blocklistedAddress) => {
-      const isBlocklisted =
-        await stablecoinPackage.blocklistable.isBlocklisted(blocklistedAddress);
+  return validation.result();
+}
 
-      if (!isBlocklisted) {
-        console.error({ [blocklistedAddress]: isBlocklisted });
-        throw new Error("Invalid blocklist configuration");
+/**
+ * Checks that a table has no keys other than the expected keys.
+ *
+ * The keys of the controllers and mint_allowances tables cannot be enumerated,
+ * so only the table size is compared, unless the keys were replayed from the
+ * event history.
+ */
+function validateTableKeys(
+  validation: ValidationCollector,
+  {
+    table,
+    expectedKeys,
+    actualCount,
+    replayedKeys
+  }: {
+    table: "controllers" | "minters";
+    expectedKeys: string[];
+    actualCount: number;
+    replayedKeys?: Set<string>;
+  }
+) {
+  validation.checked(table);
+
+  if (replayedKeys != null) {
+    if (replayedKeys.size !== actualCount) {
+      validation.addMismatch({
+        field: table,
+        expected: actualCount,
+        actual: replayedKeys.size,
+        severity: "warning",
+        message: `The event history has ${replayedKeys.size} ${table}, but ${actualCount} are configured. The indexer may be behind`
+      });
+    }
+
+    const expectedKeySet = new Set(expectedKeys.map(normalizeAddress));
+    const unexpectedKeys = [...replayedKeys].filter(
+      (key) => !expectedKeySet.has(key)
+    );
+    if (unexpectedKeys.length > 0) {
+      validation.addMismatch({
+        field: table,
+        expected: [],
+        actual: unexpectedKeys,
+        severity: "error",
+        message: `Additional ${table} configured: ${unexpectedKeys.join(", ")}`
+      });
+      return;
+    }
+  }
+
+  if (actualCount !== expectedKeys.length) {
+    validation.addMismatch({
+      field: table,
+      expected: expectedKeys.length,
+      actual: actualCount,
+      severity: "error",
+      message:
+        actualCount > expectedKeys.length
+          ? `Additional ${table} configured`
+          : `Missing ${table}`
+    });
+  }
+}
+
+/**
+ * Rebuilds the keys of the controllers and mint_allowances tables by replaying
+ * the events that add and remove them, up to `maxTransactionVersion` if it is set.
+ */
+export async function getTreasuryKeysFromEvents(
+  aptos: Aptos,
+  stablecoinPackageId: string,
+  stablecoinAddress: string,
+  maxTransactionVersion?: bigint
+): Promise<{ controllers: Set<string>; minters: Set<string> }> {
+  const controllers = new Set<string>();
+  const minters = new Set<string>();
+
+  await scanStablecoinEvents({
+    aptos,
+    stablecoinPackageId,
+    stablecoinAddress,
+    eventTypes: [
+      "treasury::ControllerConfigured",
+      "treasury::ControllerRemoved",
+      "treasury::MinterConfigured",
+      "treasury::MinterRemoved"
+    ],
+    maxTransactionVersion,
+    onPage: (events) => {
+      for (const event of events) {
+        switch (event.type) {
+          case "treasury::ControllerConfigured":
+            controllers.add(event.data.controller);
+            break;
+          case "treasury::ControllerRemoved":
+            controllers.delete(event.data.controller);
+            break;
+          case "treasury::MinterConfigured":
+            minters.add(event.data.minter);
+            break;
+          case "treasury::MinterRemoved":
+            minters.delete(event.data.minter);
+            break;
+        }
       }
-    })
-  );
-  assert.strictEqual(
-    blocklistedCount,
-    Object.entries(blocklist).length,
-    "Additional addresses blocklisted"
-  );
+    }
+  });
+
+  return { controllers, minters };
 }
 
 function getUpgradePolicy(policy: number): "immutable" | "compatible" {
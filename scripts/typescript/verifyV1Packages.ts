@@ -17,6 +17,12 @@
  */
 
 import { program } from "commander";
+import { getAptosClient } from "./utils";
+import {
+  getManifestPackageId,
+  readDeploymentManifest,
+  validateManifestChainId
+} from "./utils/deploymentManifest";
 import { verifyPackage } from "./verifyPackage";
 
 export default program
@@ -24,38 +30,48 @@ export default program
   .description(
     "Verify bytecode and metadata of deployed packages match local source code."
   )
-  .requiredOption(
+  .option(
     "--aptos-extensions-package-id <string>",
-    "The address where the aptos_extenisons package is located."
+    "The address where the aptos_extenisons package is located. Required if --manifest is unset"
   )
-  .requiredOption(
+  .option(
     "--stablecoin-package-id <string>",
-    "The address where the stablecoin package is located."
+    "The address where the stablecoin package is located. Required if --manifest is unset"
+  )
+  .option(
+    "--deployer <string>",
+    "Address of the deployer account. Required if --manifest is unset"
   )
-  .requiredOption("--deployer <string>", "Address of the deployer account.")
   .requiredOption("-r, --rpc-url <string>", "Network RPC URL")
   .option(
     "--source-uploaded",
     "Whether source code verification was enabled during package deployment."
   )
+  .option(
+    "--manifest <string>",
+    "Path to the deployment manifest to read the addresses and the source code setting from"
+  )
   .action(async (options) => {
     const results = await verifyV1Packages(options);
     console.log(results);
   });
 
-export async function verifyV1Packages({
-  deployer,
-  aptosExtensionsPackageId,
-  stablecoinPackageId,
-  rpcUrl,
-  sourceUploaded = false
-}: {
-  deployer: string;
-  aptosExtensionsPackageId: string;
-  stablecoinPackageId: string;
+export async function verifyV1Packages(options: {
+  deployer?: string;
+  aptosExtensionsPackageId?: string;
+  stablecoinPackageId?: string;
   rpcUrl: string;
   sourceUploaded?: boolean;
+  manifest?: string;
 }) {
+  const {
+    deployer,
+    aptosExtensionsPackageId,
+    stablecoinPackageId,
+    rpcUrl,
+    sourceUploaded = false
+  } = await resolveDeployment(options);
+
   const aptosExtensionsPkgNamedAddresses = [
     { name: "deployer", address: deployer }
   ];
@@ -83,3 +99,61 @@ export async function verifyV1Packages({
 
   return [aptosExtensionsResult, stablecoinResult];
 }
+
+/**
+ * Reads the deployment from the manifest, if it is set.
+ * @throws if the manifest is combined with the options that it replaces, or
+ * belongs to a different network.
+ */
+async function resolveDeployment({
+  manifest,
+  ...options
+}: Parameters<typeof verifyV1Packages>[0]) {
+  if (manifest != null) {
+    if (
+      options.deployer != null ||
+      options.aptosExtensionsPackageId != null ||
+      options.stablecoinPackageId != null ||
+      options.sourceUploaded != null
+    ) {
+      throw new Error(
+        "--deployer, --aptos-extensions-package-id, --stablecoin-package-id and --source-uploaded cannot be combined with --manifest!"
+      );
+    }
+    const deploymentManifest = readDeploymentManifest(manifest);
+    await validateManifestChainId(
+      getAptosClient(options.rpcUrl),
+      deploymentManifest
+    );
+    return {
+      deployer: deploymentManifest.deployer,
+      aptosExtensionsPackageId: getManifestPackageId(
+        deploymentManifest,
+        "aptos_extensions"
+      ),
+      stablecoinPackageId: getManifestPackageId(
+        deploymentManifest,
+        "stablecoin"
+      ),
+      rpcUrl: options.rpcUrl,
+      sourceUploaded: deploymentManifest.sourceUploaded
+    };
+  }
+
+  const { deployer, aptosExtensionsPackageId, stablecoinPackageId } = options;
+  if (
+    deployer == null ||
+    aptosExtensionsPackageId == null ||
+    stablecoinPackageId == null
+  ) {
+    throw new Error(
+      "--deployer, --aptos-extensions-package-id and --stablecoin-package-id must be set when --manifest is unset!"
+    );
+  }
+  return {
+    ...options,
+    deployer,
+    aptosExtensionsPackageId,
+    stablecoinPackageId
+  };
+}
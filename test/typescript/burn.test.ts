@@ -0,0 +1,213 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { burn } from "../../scripts/typescript/burn";
+import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
+import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { getAptosClient } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
+import * as moveScriptsModule from "../../scripts/typescript/utils/moveScripts";
+
+describe("burn", () => {
+  const aptosExtensionsPackageId = AccountAddress.ZERO.toString();
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const rpcUrl = "http://localhost:8080";
+  const amount = "1000000";
+  const scriptBytecode = new Uint8Array([1, 2, 3]);
+
+  let stablecoinPackageStub: SinonStub;
+  let buildMoveScriptStub: SinonStub;
+  let burner: Ed25519Account;
+  let balance: bigint;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    burner = Account.generate();
+    balance = BigInt(amount);
+
+    sinon
+      .stub(aptosFrameworkPackageModule, "AptosFrameworkPackage")
+      .callsFake(() => ({
+        fungibleAsset: {
+          getDecimals: sinon.fake.resolves(6)
+        },
+        primaryFungibleStore: {
+          balance: sinon.fake.resolves(balance)
+        }
+      }));
+    sinon.stub(aptosExtensionsPackageModule, "AptosExtensionsPackage").returns({
+      pausable: {
+        isPaused: sinon.fake.resolves(false)
+      }
+    });
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+    buildMoveScriptStub = sinon
+      .stub(moveScriptsModule, "buildMoveScript")
+      .returns(scriptBytecode);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function treasuryPackage({ isMinter = true, isBlocklisted = false } = {}) {
+    return {
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      },
+      blocklistable: {
+        isBlocklisted: sinon.fake.resolves(isBlocklisted)
+      },
+      treasury: {
+        isMinter: sinon.fake.resolves(isMinter),
+        burn: sinon.fake.resolves({
+          events: [
+            {
+              type: `${stablecoinPackageId}::treasury::Burn`,
+              data: { burner: burner.accountAddress.toString(), amount }
+            }
+          ]
+        }),
+        burnPayload: sinon.fake.returns({
+          bytecode: scriptBytecode,
+          functionArguments: []
+        })
+      }
+    };
+  }
+
+  it("should burn using the compiled burn script", async () => {
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await burn({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      burnerKey: burner.privateKey.toString(),
+      amount,
+      rpcUrl
+    });
+
+    // Ensure that the script is compiled against the deployed packages.
+    sinon.assert.calledOnceWithExactly(buildMoveScriptStub, "burn", {
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    });
+
+    // Ensure that the request is correct.
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.treasury.burn,
+      burner,
+      scriptBytecode,
+      BigInt(amount)
+    );
+  });
+
+  it("should fail if the sender is not a minter", async () => {
+    const stablecoinPackage = treasuryPackage({ isMinter: false });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      burn({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        burnerKey: burner.privateKey.toString(),
+        amount,
+        rpcUrl
+      }),
+      /is not a minter!/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.burn);
+  });
+
+  it("should fail if the burner is blocklisted", async () => {
+    const stablecoinPackage = treasuryPackage({ isBlocklisted: true });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      burn({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        burnerKey: burner.privateKey.toString(),
+        amount,
+        rpcUrl
+      }),
+      /is blocklisted!/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.burn);
+  });
+
+  it("should fail if the balance is insufficient", async () => {
+    balance = BigInt(amount) - BigInt(1);
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      burn({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        burnerKey: burner.privateKey.toString(),
+        amount,
+        rpcUrl
+      }),
+      /The balance of .* is insufficient to burn/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.burn);
+  });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+    const sender = burner.accountAddress.toString();
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await burn({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      amount,
+      rpcUrl,
+      buildOnly: true,
+      sender
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.treasury.burnPayload,
+      scriptBytecode,
+      BigInt(amount)
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: stablecoinPackage.treasury.burnPayload.returnValues[0],
+      options: { buildOnly: true, sender }
+    });
+    sinon.assert.notCalled(stablecoinPackage.treasury.burn);
+  });
+});
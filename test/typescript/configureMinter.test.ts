@@ -16,13 +16,18 @@
  * limitations under the License.
  */
 
-import { Account, AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+  Account,
+  AccountAddress,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
 import { strict as assert } from "assert";
 import sinon, { SinonStub } from "sinon";
 import { configureMinter } from "../../scripts/typescript/configureMinter";
 import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
 import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
 import { getAptosClient } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
 
 describe("configureMinter", () => {
   let aptosFrameworkPackageStub: SinonStub;
@@ -88,4 +93,79 @@ describe("configureMinter", () => {
       true
     );
   });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const controller = AccountAddress.THREE.toString();
+    const stablecoinPackageId = AccountAddress.ZERO.toString();
+    const rpcUrl = "http://localhost:8080";
+    const mintAllowance = "1000000000";
+
+    aptosFrameworkPackageStub.returns({
+      fungibleAsset: {
+        getDecimals: sinon.fake.returns(6)
+      }
+    });
+
+    const payload: InputEntryFunctionData = {
+      function: "0x1::treasury::configure_minter",
+      functionArguments: []
+    };
+    const configureMinterFn = sinon.fake();
+    const configureMinterPayloadFn = sinon.fake.returns(payload);
+    const getMinterFn = sinon.fake.returns(AccountAddress.TWO.toString());
+    stablecoinPackageStub.returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.returns(AccountAddress.ONE.toString())
+      },
+      treasury: {
+        configureMinter: configureMinterFn,
+        configureMinterPayload: configureMinterPayloadFn,
+        getMinter: getMinterFn
+      }
+    });
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await configureMinter({
+      stablecoinPackageId,
+      mintAllowance,
+      rpcUrl,
+      buildOnly: true,
+      sender: controller
+    });
+
+    // Ensure that the minter is looked up using the sender's address.
+    assert.strictEqual(
+      getMinterFn.calledOnceWithExactly(AccountAddress.fromStrict(controller)),
+      true
+    );
+
+    // Ensure that the transaction is built, but not submitted.
+    assert.strictEqual(
+      configureMinterPayloadFn.calledOnceWithExactly(BigInt(mintAllowance)),
+      true
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: payload,
+      options: { buildOnly: true, sender: controller }
+    });
+    sinon.assert.notCalled(configureMinterFn);
+  });
+
+  it("should fail if neither the controller key nor --build-only is set", async () => {
+    stablecoinPackageStub.returns({});
+
+    await assert.rejects(
+      configureMinter({
+        stablecoinPackageId: AccountAddress.ZERO.toString(),
+        mintAllowance: "1000000000",
+        rpcUrl: "http://localhost:8080"
+      }),
+      /Missing private key!/
+    );
+  });
 });
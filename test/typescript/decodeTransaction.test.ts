@@ -17,20 +17,51 @@
  */
 
 import {
+  Account,
   AccountAddress,
+  Bool,
+  ChainId,
+  Deserializer,
   Ed25519Account,
+  EntryFunction,
+  EntryFunctionArgument,
   MoveFunctionId,
+  MoveOption,
+  MoveString,
   MoveVector,
-  TransactionPayloadEntryFunction
+  MultiAgentTransaction,
+  MultiSig,
+  MultiSigTransactionPayload,
+  RawTransaction,
+  Script,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadMultiSig,
+  TransactionPayloadScript,
+  U64,
+  U8
 } from "@aptos-labs/ts-sdk";
 import { strict as assert } from "assert";
-import { randomBytes } from "crypto";
+import { createHash, randomBytes } from "crypto";
 import fs from "fs";
+import path from "path";
 import sinon, { SinonStub } from "sinon";
-import { decodeTransaction } from "../../scripts/typescript/decodeTransaction";
+import {
+  decodeRawTransaction,
+  DecodedEntryFunction,
+  decodeTransaction,
+  deserializeTransaction
+} from "../../scripts/typescript/decodeTransaction";
 import { deployAndInitializeToken } from "../../scripts/typescript/deployAndInitializeToken";
 import { generateKeypair } from "../../scripts/typescript/generateKeypair";
-import { getAptosClient, LOCAL_RPC_URL } from "../../scripts/typescript/utils";
+import { StablecoinPackage } from "../../scripts/typescript/packages/stablecoinPackage";
+import {
+  getAptosClient,
+  LOCAL_RPC_URL,
+  MAX_U64,
+  REPOSITORY_ROOT
+} from "../../scripts/typescript/utils";
+import { readModuleAbis } from "../../scripts/typescript/utils/abiDecoder";
 import { TokenConfig } from "../../scripts/typescript/utils/tokenConfig";
 
 describe("decodeTransaction", () => {
@@ -173,13 +204,12 @@ describe("decodeTransaction", () => {
   }
 
   it("should successfully decode a transaction and its payload's arguments", async () => {
-    const functionName = "upgradePackage";
     const { txInputs, txBytes, chainId } = await fixture();
 
     await decodeTransaction({
       txBytes,
       output: DECODED_TX_OUTPUT_FILEPATH,
-      functionName
+      aptosExtensionsPackageId
     });
 
     sinon.assert.calledOnce(writeFileSyncStub);
@@ -201,14 +231,13 @@ describe("decodeTransaction", () => {
   });
 
   it("should successfully decode a transaction with fee payer", async () => {
-    const functionName = "upgradePackage";
     const feePayer = await generateKeypair({ prefund: true });
     const { txInputs, txBytes, chainId } = await fixture(feePayer);
 
     await decodeTransaction({
       txBytes,
       output: DECODED_TX_OUTPUT_FILEPATH,
-      functionName
+      aptosExtensionsPackageId
     });
 
     sinon.assert.calledOnce(writeFileSyncStub);
@@ -231,27 +260,492 @@ describe("decodeTransaction", () => {
   });
 
   it("should successfully decode a transaction with no argument decoder support", async () => {
-    const { txInputs, txBytes, rawTxPayloadArgs, chainId } = await fixture();
+    const recipient = Account.generate().accountAddress;
+    const transaction = await aptos.transaction.build.simple({
+      data: {
+        function: "0x1::aptos_account::transfer",
+        functionArguments: [recipient, new U64(100)]
+      },
+      sender: deployer.accountAddress
+    });
 
     await decodeTransaction({
-      txBytes,
+      txBytes: transaction.bcsToHex().toString(),
       output: DECODED_TX_OUTPUT_FILEPATH
     });
 
     sinon.assert.calledOnce(writeFileSyncStub);
 
     const decodedTx = JSON.parse(writeFileSyncStub.getCall(0).args[1]);
-    assert.deepEqual(decodedTx, {
-      sender: txInputs.sender.accountAddress.toString(),
-      sequenceNumber: txInputs.sequenceNumber.toString(),
-      maxGasAmount: txInputs.maxGasAmount.toString(),
-      gasUnitPrice: txInputs.gasUnitPrice.toString(),
-      expirationTimestampSecs: txInputs.expireTimestamp.toString(),
-      chainId: chainId.toString(),
-      payload: {
-        function: txInputs.functionTarget,
+    assert.deepEqual(decodedTx.payload, {
+      function: "0x1::aptos_account::transfer",
+      typeArgs: [],
+      args: [
+        recipient.bcsToHex().toString(),
+        new U64(100).bcsToHex().toString()
+      ]
+    });
+  });
+
+  it("should decode the arguments of a framework entry function with its fetched ABI", async () => {
+    const recipient = Account.generate().accountAddress;
+    const transaction = await aptos.transaction.build.simple({
+      data: {
+        function: "0x1::aptos_account::transfer",
+        functionArguments: [recipient, new U64(100)]
+      },
+      sender: deployer.accountAddress
+    });
+    const abiFilePath = "path/to/abi.json";
+
+    await decodeTransaction({
+      txBytes: transaction.bcsToHex().toString(),
+      output: DECODED_TX_OUTPUT_FILEPATH,
+      rpcUrl: LOCAL_RPC_URL,
+      saveAbi: abiFilePath
+    });
+
+    sinon.assert.calledTwice(writeFileSyncStub);
+
+    // The fetched ABIs are saved for offline use.
+    const savedAbis = JSON.parse(
+      writeFileSyncStub.withArgs(abiFilePath).getCall(0).args[1]
+    );
+    assert(savedAbis.some((abi: any) => abi.name === "aptos_account"));
+
+    const decodedTx = JSON.parse(
+      writeFileSyncStub
+        .withArgs(path.join(REPOSITORY_ROOT, DECODED_TX_OUTPUT_FILEPATH))
+        .getCall(0).args[1]
+    );
+    assert.deepEqual(decodedTx.payload, {
+      function: "0x1::aptos_account::transfer",
+      typeArgs: [],
+      args: [recipient.toString(), "100"]
+    });
+  });
+
+  it("should output a review sheet with the live state of the stablecoin", async () => {
+    const stablecoinAddress = await new StablecoinPackage(
+      aptos,
+      stablecoinPackageId
+    ).stablecoin.stablecoinAddress();
+    const newPauser = Account.generate().accountAddress.toString();
+    const transaction = await aptos.transaction.build.simple({
+      data: {
+        function: `${aptosExtensionsPackageId}::pausable::update_pauser`,
+        functionArguments: [
+          AccountAddress.fromStrict(stablecoinAddress),
+          AccountAddress.fromStrict(newPauser)
+        ]
+      },
+      sender: deployer.accountAddress
+    });
+
+    await decodeTransaction({
+      txBytes: transaction.bcsToHex().toString(),
+      output: DECODED_TX_OUTPUT_FILEPATH,
+      format: "markdown",
+      rpcUrl: LOCAL_RPC_URL,
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    });
+
+    sinon.assert.calledOnce(writeFileSyncStub);
+
+    const reviewSheet: string = writeFileSyncStub.getCall(0).args[1];
+    const deployerAddress = deployer.accountAddress.toString();
+    assert(reviewSheet.includes("| Network | local (chain ID 4) |"));
+    assert(
+      reviewSheet.includes(
+        "| Sender role | admin, owner, pauser, blocklister, master minter, metadata updater |"
+      )
+    );
+    assert(
+      reviewSheet.includes(
+        `Changes pauser of stablecoin ${stablecoinAddress} from ${deployerAddress} to ${newPauser}.`
+      )
+    );
+    assert(
+      reviewSheet.includes(`| pauser | ${deployerAddress} | ${newPauser} |`)
+    );
+  });
+});
+
+describe("decodeRawTransaction", () => {
+  const packageId = Account.generate().accountAddress.toString();
+  const packageIds = {
+    aptosExtensionsPackageId: packageId,
+    stablecoinPackageId: packageId
+  };
+  const stablecoinAddress = Account.generate().accountAddress.toString();
+  const address = Account.generate().accountAddress.toString();
+  const minter = Account.generate().accountAddress.toString();
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function buildTransaction(
+    moduleName: string,
+    functionName: string,
+    args: EntryFunctionArgument[],
+    moduleAddress: AccountAddress = AccountAddress.from(packageId)
+  ) {
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        Account.generate().accountAddress,
+        BigInt(0),
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build(
+            `${moduleAddress.toString()}::${moduleName}`,
+            functionName,
+            [],
+            args
+          )
+        ),
+        BigInt(10_000),
+        BigInt(100),
+        BigInt(0),
+        new ChainId(4)
+      )
+    );
+
+    // Round-trip the transaction through BCS, so that the arguments are
+    // deserialized as they would be from the transaction bytes.
+    return SimpleTransaction.deserialize(
+      new Deserializer(transaction.bcsToBytes())
+    );
+  }
+
+  const testCases: {
+    moduleName: string;
+    functionName: string;
+    args: EntryFunctionArgument[];
+    expectedArgs: any[];
+  }[] = [
+    {
+      moduleName: "manageable",
+      functionName: "change_admin",
+      args: [
+        AccountAddress.from(stablecoinAddress),
+        AccountAddress.from(address)
+      ],
+      expectedArgs: [stablecoinAddress, address]
+    },
+    {
+      moduleName: "ownable",
+      functionName: "transfer_ownership",
+      args: [
+        AccountAddress.from(stablecoinAddress),
+        AccountAddress.from(address)
+      ],
+      expectedArgs: [stablecoinAddress, address]
+    },
+    {
+      moduleName: "pausable",
+      functionName: "pause",
+      args: [AccountAddress.from(stablecoinAddress)],
+      expectedArgs: [stablecoinAddress]
+    },
+    {
+      moduleName: "blocklistable",
+      functionName: "blocklist",
+      args: [AccountAddress.from(address)],
+      expectedArgs: [address]
+    },
+    {
+      moduleName: "metadata",
+      functionName: "update_metadata",
+      args: [
+        new MoveOption(new MoveString("USDC")),
+        new MoveOption<MoveString>(),
+        new MoveOption(new MoveString("https://circle.com/usdc-icon")),
+        new MoveOption<MoveString>()
+      ],
+      expectedArgs: ["USDC", null, "https://circle.com/usdc-icon", null]
+    },
+    {
+      moduleName: "stablecoin",
+      functionName: "initialize_v1",
+      args: [
+        new MoveString("USDC"),
+        new MoveString("USDC"),
+        new U8(6),
+        new MoveString("https://circle.com/usdc-icon"),
+        new MoveString("https://circle.com/usdc")
+      ],
+      expectedArgs: [
+        "USDC",
+        "USDC",
+        6,
+        "https://circle.com/usdc-icon",
+        "https://circle.com/usdc"
+      ]
+    },
+    {
+      moduleName: "treasury",
+      functionName: "configure_controller",
+      args: [AccountAddress.from(address), AccountAddress.from(minter)],
+      expectedArgs: [address, minter]
+    },
+    {
+      moduleName: "treasury",
+      functionName: "configure_minter",
+      args: [new U64(MAX_U64)],
+      expectedArgs: [MAX_U64.toString()]
+    },
+    {
+      moduleName: "treasury",
+      functionName: "remove_minter",
+      args: [],
+      expectedArgs: []
+    }
+  ];
+
+  for (const { moduleName, functionName, args, expectedArgs } of testCases) {
+    it(`should decode the arguments of ${moduleName}::${functionName}`, () => {
+      const decodedTx = decodeRawTransaction(
+        buildTransaction(moduleName, functionName, args),
+        [],
+        packageIds
+      );
+
+      assert.deepStrictEqual(decodedTx.payload, {
+        function: `${packageId}::${moduleName}::${functionName}`,
         typeArgs: [],
-        args: rawTxPayloadArgs.map((arg) => arg.bcsToHex().toString())
+        args: expectedArgs
+      });
+    });
+  }
+
+  it("should return raw BCS-serialized bytes for an unknown entry function", () => {
+    const decodedTx = decodeRawTransaction(
+      buildTransaction("treasury", "unknown_function", [new U64(1)]),
+      [],
+      packageIds
+    );
+
+    assert.deepStrictEqual((decodedTx.payload as DecodedEntryFunction).args, [
+      new U64(1).bcsToHex().toString()
+    ]);
+  });
+
+  it("should return raw BCS-serialized bytes for an entry function of another package with the same name", () => {
+    const decodedTx = decodeRawTransaction(
+      buildTransaction(
+        "treasury",
+        "configure_minter",
+        [new U64(1)],
+        Account.generate().accountAddress
+      ),
+      [],
+      packageIds
+    );
+
+    assert.deepStrictEqual((decodedTx.payload as DecodedEntryFunction).args, [
+      new U64(1).bcsToHex().toString()
+    ]);
+  });
+
+  it("should return raw BCS-serialized bytes if the package IDs are not provided", () => {
+    const decodedTx = decodeRawTransaction(
+      buildTransaction("treasury", "configure_minter", [new U64(1)])
+    );
+
+    assert.deepStrictEqual((decodedTx.payload as DecodedEntryFunction).args, [
+      new U64(1).bcsToHex().toString()
+    ]);
+  });
+
+  it("should fail if the number of arguments does not match the entry function", () => {
+    assert.throws(
+      () =>
+        decodeRawTransaction(
+          buildTransaction("treasury", "configure_minter", [
+            new U64(1),
+            new U64(2)
+          ]),
+          [],
+          packageIds
+        ),
+      new RegExp(
+        `The entry function ${packageId}::treasury::configure_minter takes 1 arguments, but the transaction passes 2!`
+      )
+    );
+  });
+
+  it("should decode the arguments with the module ABI if provided", () => {
+    const abis = readModuleAbis(
+      path.join(REPOSITORY_ROOT, "test/typescript/testdata/module_abis.json")
+    );
+    const owners = [
+      Account.generate().accountAddress,
+      Account.generate().accountAddress
+    ];
+
+    const decodedTx = decodeRawTransaction(
+      buildTransaction(
+        "multisig_account",
+        "create_with_owners",
+        [
+          new MoveVector(owners),
+          new U64(2),
+          MoveVector.MoveString([]),
+          new MoveVector<MoveVector<U8>>([])
+        ],
+        AccountAddress.ONE
+      ),
+      abis
+    );
+
+    assert.deepStrictEqual((decodedTx.payload as DecodedEntryFunction).args, [
+      owners.map((owner) => owner.toString()),
+      "2",
+      [],
+      []
+    ]);
+  });
+
+  it("should return raw BCS-serialized bytes if the ABI has an unsupported argument type", () => {
+    const abis = readModuleAbis(
+      path.join(REPOSITORY_ROOT, "test/typescript/testdata/module_abis.json")
+    );
+
+    const decodedTx = decodeRawTransaction(
+      buildTransaction(
+        "test_module",
+        "set_fixed_point",
+        [new U64(1)],
+        AccountAddress.from(`0x${"cafe".padStart(64, "0")}`)
+      ),
+      abis
+    );
+
+    assert.deepStrictEqual((decodedTx.payload as DecodedEntryFunction).args, [
+      new U64(1).bcsToHex().toString()
+    ]);
+  });
+
+  it("should decode the secondary signers and fee payer of a multi-agent transaction", () => {
+    const secondarySigners = [
+      Account.generate().accountAddress,
+      Account.generate().accountAddress
+    ];
+    const feePayer = Account.generate().accountAddress;
+    const transaction = new MultiAgentTransaction(
+      buildTransaction("pausable", "pause", [
+        AccountAddress.from(stablecoinAddress)
+      ]).rawTransaction,
+      secondarySigners,
+      feePayer
+    );
+
+    const decodedTx = decodeRawTransaction(
+      deserializeTransaction(transaction.bcsToHex().toString()),
+      [],
+      packageIds
+    );
+
+    assert.deepStrictEqual(
+      decodedTx.secondarySigners,
+      secondarySigners.map((signer) => signer.toString())
+    );
+    assert.strictEqual(decodedTx.feePayer, feePayer.toString());
+    assert.deepStrictEqual(decodedTx.payload, {
+      function: `${packageId}::pausable::pause`,
+      typeArgs: [],
+      args: [stablecoinAddress]
+    });
+  });
+
+  it("should decode the entry function that is wrapped in a multisig payload", () => {
+    const multisigAddress = Account.generate().accountAddress;
+    const rawTransaction = buildTransaction("blocklistable", "blocklist", [
+      AccountAddress.from(address)
+    ]).rawTransaction;
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        rawTransaction.sender,
+        rawTransaction.sequence_number,
+        new TransactionPayloadMultiSig(
+          new MultiSig(
+            multisigAddress,
+            new MultiSigTransactionPayload(
+              (
+                rawTransaction.payload as TransactionPayloadEntryFunction
+              ).entryFunction
+            )
+          )
+        ),
+        rawTransaction.max_gas_amount,
+        rawTransaction.gas_unit_price,
+        rawTransaction.expiration_timestamp_secs,
+        rawTransaction.chain_id
+      )
+    );
+
+    const decodedTx = decodeRawTransaction(
+      deserializeTransaction(transaction.bcsToHex().toString()),
+      [],
+      packageIds
+    );
+
+    assert.deepStrictEqual(decodedTx.payload, {
+      multisig: {
+        multisigAddress: multisigAddress.toString(),
+        payload: {
+          function: `${packageId}::blocklistable::blocklist`,
+          typeArgs: [],
+          args: [address]
+        }
+      }
+    });
+  });
+
+  it("should decode the bytecode hash and typed arguments of a script payload", () => {
+    const bytecode = randomBytes(100);
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        Account.generate().accountAddress,
+        BigInt(0),
+        new TransactionPayloadScript(
+          new Script(
+            bytecode,
+            [],
+            [
+              AccountAddress.from(minter),
+              new U64(MAX_U64),
+              new Bool(true),
+              MoveVector.U8("0x0102")
+            ]
+          )
+        ),
+        BigInt(10_000),
+        BigInt(100),
+        BigInt(0),
+        new ChainId(4)
+      )
+    );
+
+    const decodedTx = decodeRawTransaction(
+      deserializeTransaction(transaction.bcsToHex().toString())
+    );
+
+    assert.deepStrictEqual(decodedTx.payload, {
+      script: {
+        bytecodeHash: `0x${createHash("sha3-256").update(bytecode).digest("hex")}`,
+        typeArgs: [],
+        args: [
+          { type: "address", value: minter },
+          { type: "u64", value: MAX_U64.toString() },
+          { type: "bool", value: true },
+          { type: "vector<u8>", value: "0x0102" }
+        ]
       }
     });
   });
@@ -18,6 +18,9 @@
 
 import { AccountAddressInput, Ed25519Account } from "@aptos-labs/ts-sdk";
 import { strict as assert } from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import sinon, { SinonStub } from "sinon";
 import { deployAndInitializeToken } from "../../scripts/typescript/deployAndInitializeToken";
 import {
@@ -25,6 +28,10 @@ import {
   getPackageMetadata,
   LOCAL_RPC_URL
 } from "../../scripts/typescript/utils";
+import {
+  hashFile,
+  readDeploymentManifest
+} from "../../scripts/typescript/utils/deploymentManifest";
 import * as tokenConfigModule from "../../scripts/typescript/utils/tokenConfig";
 import { TokenConfig } from "../../scripts/typescript/utils/tokenConfig";
 import { generateKeypairs, validateSourceCodeExistence } from "./testUtils";
@@ -120,6 +127,114 @@ describe("deployAndInitializeToken E2E test", () => {
     await validatePostState(result, deployer.accountAddress, verifySource);
   });
 
+  it("should skip the steps that already took effect when resuming", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-"));
+    const journalFile = path.join(tmpDir, "journal.json");
+
+    try {
+      const result = await deployAndInitializeToken({
+        deployerKey: deployer.privateKey.toString(),
+        rpcUrl: LOCAL_RPC_URL,
+        tokenConfigPath: TEST_TOKEN_CONFIG_PATH,
+        journalFile
+      });
+      const { steps } = JSON.parse(fs.readFileSync(journalFile, "utf8"));
+      // Each step is recorded once submitted, and again once executed.
+      assert(
+        steps.every(
+          (step: any, i: number) =>
+            step.status === (i % 2 === 0 ? "submitted" : "executed")
+        )
+      );
+
+      await assert.rejects(
+        deployAndInitializeToken({
+          deployerKey: deployer.privateKey.toString(),
+          rpcUrl: LOCAL_RPC_URL,
+          tokenConfigPath: TEST_TOKEN_CONFIG_PATH,
+          journalFile
+        }),
+        /Set --resume to continue the deployment./
+      );
+
+      const resumedResult = await deployAndInitializeToken({
+        deployerKey: deployer.privateKey.toString(),
+        rpcUrl: LOCAL_RPC_URL,
+        tokenConfigPath: TEST_TOKEN_CONFIG_PATH,
+        journalFile,
+        resume: true
+      });
+      assert.deepStrictEqual(resumedResult, result);
+
+      // Ensure that every step was skipped on the second run.
+      const { steps: resumedSteps } = JSON.parse(
+        fs.readFileSync(journalFile, "utf8")
+      );
+      assert.deepStrictEqual(
+        resumedSteps.slice(steps.length).map((step: any) => step.status),
+        steps.filter((_: any, i: number) => i % 2 === 0).map(() => "skipped")
+      );
+
+      await validatePostState(result, deployer.accountAddress, false);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should fail if --resume is set without a journal file", async () => {
+    await assert.rejects(
+      deployAndInitializeToken({
+        deployerKey: deployer.privateKey.toString(),
+        rpcUrl: LOCAL_RPC_URL,
+        tokenConfigPath: TEST_TOKEN_CONFIG_PATH,
+        resume: true
+      }),
+      /--resume requires --journal-file!/
+    );
+  });
+
+  it("should write the deployment manifest", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-"));
+    const tokenConfigPath = path.join(tmpDir, "token_config.json");
+    const manifestFile = path.join(tmpDir, "manifest.json");
+    fs.writeFileSync(tokenConfigPath, JSON.stringify(tokenConfig));
+    readTokenConfigStub.withArgs(tokenConfigPath).returns(tokenConfig);
+
+    try {
+      const result = await deployAndInitializeToken({
+        deployerKey: deployer.privateKey.toString(),
+        rpcUrl: LOCAL_RPC_URL,
+        tokenConfigPath,
+        manifestFile
+      });
+
+      const manifest = readDeploymentManifest(manifestFile);
+      assert.strictEqual(manifest.deployer, deployer.accountAddress.toString());
+      assert.deepStrictEqual(manifest.packageIds, {
+        aptos_extensions: result.aptosExtensionsPackageId,
+        stablecoin: result.stablecoinPackageId
+      });
+      assert.strictEqual(manifest.stablecoinAddress, result.stablecoinAddress);
+      assert.strictEqual(manifest.tokenConfigHash, hashFile(tokenConfigPath));
+      assert.strictEqual(manifest.sourceUploaded, false);
+      assert.deepStrictEqual(manifest.unrecoveredSteps, []);
+
+      // Ensure that every transaction is recorded.
+      for (const transaction of manifest.transactions) {
+        const txOutput = await aptos.getTransactionByHash({
+          transactionHash: transaction.hash
+        });
+        assert.strictEqual((txOutput as any).version, transaction.version);
+      }
+      assert.deepStrictEqual(
+        manifest.transactions.slice(0, 2).map(({ name }) => name),
+        ["publish aptos_extensions", "publish stablecoin"]
+      );
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
   async function validatePostState(
     inputs: {
       aptosExtensionsPackageId: string;
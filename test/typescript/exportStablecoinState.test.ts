@@ -0,0 +1,197 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress, Aptos, LedgerInfo } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import sinon, { SinonStub } from "sinon";
+import { exportStablecoinState } from "../../scripts/typescript/exportStablecoinState";
+import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
+import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import * as validateStablecoinStateModule from "../../scripts/typescript/validateStablecoinState";
+
+describe("export-stablecoin-state", () => {
+  const aptosExtensionsPackageId = AccountAddress.ONE.toString();
+  const stablecoinPackageId = AccountAddress.TWO.toString();
+  const stablecoinAddress = AccountAddress.THREE.toString();
+  const controller = AccountAddress.FOUR.toString();
+  const minter = "0x5";
+  const blocklisted = `0x${"ab".repeat(32)}`;
+  const output = "path/to/validate_stablecoin_state.json";
+  const rpcUrl = "http://localhost:8080";
+  const indexerUrl = "http://localhost:8090/v1/graphql";
+
+  const tokenState = {
+    aptosExtensionsPackage: {
+      upgradeNumber: 0,
+      upgradePolicy: "immutable" as const,
+      sourceCodeExists: false
+    },
+    stablecoinPackage: {
+      upgradeNumber: 1,
+      upgradePolicy: "compatible" as const,
+      sourceCodeExists: false
+    },
+    name: "USDC",
+    symbol: "USDC",
+    decimals: 6,
+    iconUri: "https://circle.com/usdc-icon",
+    projectUri: "https://circle.com/usdc",
+    paused: false,
+    initializedVersion: 1,
+    totalSupply: "1000000",
+    admin: "0x6",
+    blocklister: "0x7",
+    masterMinter: "0x8",
+    metadataUpdater: "0x9",
+    owner: "0xa",
+    pauser: "0xb",
+    pendingOwner: null,
+    pendingAdmin: null
+  };
+
+  let writeFileSyncStub: SinonStub;
+  let getTreasuryKeysFromEventsStub: SinonStub;
+  let getAccountResourceStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    writeFileSyncStub = sinon.stub(fs, "writeFileSync");
+    sinon.stub(aptosFrameworkPackageModule, "AptosFrameworkPackage");
+    sinon.stub(aptosExtensionsPackageModule, "AptosExtensionsPackage");
+    sinon.stub(stablecoinPackageModule, "StablecoinPackage").returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      },
+      treasury: {
+        getMinter: sinon.fake.resolves(minter),
+        mintAllowance: sinon.fake.resolves(BigInt(500))
+      }
+    });
+    sinon
+      .stub(validateStablecoinStateModule, "buildCurrentTokenState")
+      .resolves(tokenState);
+    getTreasuryKeysFromEventsStub = sinon
+      .stub(validateStablecoinStateModule, "getTreasuryKeysFromEvents")
+      .resolves({
+        controllers: new Set([controller]),
+        minters: new Set([minter])
+      });
+
+    sinon
+      .stub(Aptos.prototype, "getLedgerInfo")
+      .resolves({ ledger_version: "300" } as LedgerInfo);
+    getAccountResourceStub = sinon.stub(Aptos.prototype, "getAccountResource");
+    getAccountResourceStub
+      .withArgs(
+        sinon.match({
+          resourceType: `${stablecoinPackageId}::treasury::TreasuryState`
+        })
+      )
+      .resolves({
+        controllers: { size: "1" },
+        mint_allowances: { size: "1" }
+      });
+    getAccountResourceStub
+      .withArgs(
+        sinon.match({
+          resourceType: `${stablecoinPackageId}::blocklistable::BlocklistState`
+        })
+      )
+      .resolves({ blocklist: [blocklisted] });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should write a config that validate-stablecoin-state accepts", async () => {
+    const config = await exportStablecoinState({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      output,
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.deepStrictEqual(config, {
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      expectedStates: {
+        ...tokenState,
+        controllers: { [controller]: minter },
+        minters: { [minter]: "500" },
+        blocklist: [blocklisted]
+      }
+    });
+
+    sinon.assert.calledOnce(writeFileSyncStub);
+    assert.strictEqual(writeFileSyncStub.getCall(0).args[0], output);
+    const writtenConfig = JSON.parse(
+      writeFileSyncStub.getCall(0).args[1] as string
+    );
+    assert.deepStrictEqual(
+      validateStablecoinStateModule.configSchema.validateSync(writtenConfig, {
+        strict: true
+      }),
+      config
+    );
+  });
+
+  it("should read the state and replay the events at a single ledger version", async () => {
+    await exportStablecoinState({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      output,
+      rpcUrl,
+      indexerUrl
+    });
+
+    sinon.assert.calledWith(
+      getTreasuryKeysFromEventsStub,
+      sinon.match.any,
+      stablecoinPackageId,
+      stablecoinAddress,
+      BigInt(300)
+    );
+    sinon.assert.calledTwice(getAccountResourceStub);
+    sinon.assert.alwaysCalledWithMatch(getAccountResourceStub, {
+      options: { ledgerVersion: BigInt(300) }
+    });
+  });
+
+  it("should fail if the event history does not cover all controllers and minters", async () => {
+    getTreasuryKeysFromEventsStub.resolves({
+      controllers: new Set(),
+      minters: new Set([minter])
+    });
+
+    await assert.rejects(
+      exportStablecoinState({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        output,
+        rpcUrl,
+        indexerUrl
+      }),
+      /The event history has 0 controllers and 1 minters, but 1 controllers and 1 minters are configured!/
+    );
+    sinon.assert.notCalled(writeFileSyncStub);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { incrementMinterAllowance } from "../../scripts/typescript/incrementMinterAllowance";
+import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { getAptosClient, MAX_U64 } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
+
+describe("incrementMinterAllowance", () => {
+  const stablecoinPackageId = AccountAddress.ZERO.toString();
+  const stablecoinAddress = AccountAddress.ONE.toString();
+  const minter = AccountAddress.TWO.toString();
+  const rpcUrl = "http://localhost:8080";
+  const allowanceIncrement = "1000000";
+
+  let stablecoinPackageStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    sinon.stub(aptosFrameworkPackageModule, "AptosFrameworkPackage").returns({
+      fungibleAsset: {
+        getDecimals: sinon.fake.resolves(6)
+      }
+    });
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function incrementedEventOutput(increment: string, newAllowance: string) {
+    return {
+      events: [
+        {
+          type: `${stablecoinPackageId}::treasury::MinterAllowanceIncremented`,
+          data: {
+            controller: AccountAddress.THREE.toString(),
+            minter,
+            allowance_increment: increment,
+            new_allowance: newAllowance
+          }
+        }
+      ]
+    };
+  }
+
+  function treasuryPackage(
+    currentAllowance: bigint,
+    overrides: Record<string, unknown> = {}
+  ) {
+    return {
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      },
+      treasury: {
+        getMinter: sinon.fake.resolves(minter),
+        isMinter: sinon.fake.resolves(true),
+        mintAllowance: sinon.fake.resolves(currentAllowance),
+        incrementMinterAllowance: sinon.fake.resolves(
+          incrementedEventOutput(
+            allowanceIncrement,
+            (currentAllowance + BigInt(allowanceIncrement)).toString()
+          )
+        ),
+        ...overrides
+      }
+    };
+  }
+
+  it("should call the incrementMinterAllowance function with correct inputs", async () => {
+    const controller = Account.generate();
+    const stablecoinPackage = treasuryPackage(BigInt(5_000_000));
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await incrementMinterAllowance({
+      stablecoinPackageId,
+      controllerKey: controller.privateKey.toString(),
+      allowanceIncrement,
+      rpcUrl
+    });
+
+    // Ensure that the request will be made to the correct package.
+    sinon.assert.calledWithNew(stablecoinPackageStub);
+    sinon.assert.calledWithExactly(
+      stablecoinPackageStub,
+      getAptosClient(rpcUrl),
+      stablecoinPackageId
+    );
+
+    // Ensure that the request is correct.
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.treasury.incrementMinterAllowance,
+      controller,
+      BigInt(allowanceIncrement)
+    );
+  });
+
+  it("should fail if the new mint allowance exceeds MAX_U64", async () => {
+    const controller = Account.generate();
+    const stablecoinPackage = treasuryPackage(MAX_U64);
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      incrementMinterAllowance({
+        stablecoinPackageId,
+        controllerKey: controller.privateKey.toString(),
+        allowanceIncrement,
+        rpcUrl
+      }),
+      /The new mint allowance \d+ exceeds MAX_U64!/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.incrementMinterAllowance);
+  });
+
+  it("should fail if the allowance increment is zero", async () => {
+    await assert.rejects(
+      incrementMinterAllowance({
+        stablecoinPackageId,
+        controllerKey: Account.generate().privateKey.toString(),
+        allowanceIncrement: "0",
+        rpcUrl
+      }),
+      /Allowance increment must be greater than zero/
+    );
+  });
+
+  it("should fail if the sender is not a controller", async () => {
+    const controller = Account.generate();
+    stablecoinPackageStub.returns(
+      treasuryPackage(BigInt(0), { getMinter: sinon.fake.resolves(null) })
+    );
+
+    await assert.rejects(
+      incrementMinterAllowance({
+        stablecoinPackageId,
+        controllerKey: controller.privateKey.toString(),
+        allowanceIncrement,
+        rpcUrl
+      }),
+      new RegExp(
+        `The sender ${controller.accountAddress.toString()} is not a controller!`
+      )
+    );
+  });
+
+  it("should fail if the MinterAllowanceIncremented event does not match the request", async () => {
+    const controller = Account.generate();
+    stablecoinPackageStub.returns(
+      treasuryPackage(BigInt(0), {
+        incrementMinterAllowance: sinon.fake.resolves(
+          incrementedEventOutput("1", "1")
+        )
+      })
+    );
+
+    await assert.rejects(
+      incrementMinterAllowance({
+        stablecoinPackageId,
+        controllerKey: controller.privateKey.toString(),
+        allowanceIncrement,
+        rpcUrl
+      }),
+      /Unexpected MinterAllowanceIncremented event/
+    );
+  });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const controller = AccountAddress.THREE.toString();
+
+    const payload: InputEntryFunctionData = {
+      function: "0x1::treasury::increment_minter_allowance",
+      functionArguments: []
+    };
+    const incrementMinterAllowancePayloadFn = sinon.fake.returns(payload);
+    const stablecoinPackage = treasuryPackage(BigInt(0), {
+      incrementMinterAllowancePayload: incrementMinterAllowancePayloadFn
+    });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await incrementMinterAllowance({
+      stablecoinPackageId,
+      allowanceIncrement,
+      rpcUrl,
+      buildOnly: true,
+      sender: controller
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    assert.strictEqual(
+      incrementMinterAllowancePayloadFn.calledOnceWithExactly(
+        BigInt(allowanceIncrement)
+      ),
+      true
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: payload,
+      options: { buildOnly: true, sender: controller }
+    });
+    sinon.assert.notCalled(stablecoinPackage.treasury.incrementMinterAllowance);
+  });
+});
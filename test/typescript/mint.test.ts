@@ -0,0 +1,356 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { burn } from "../../scripts/typescript/burn";
+import { deployAndInitializeToken } from "../../scripts/typescript/deployAndInitializeToken";
+import { generateKeypair } from "../../scripts/typescript/generateKeypair";
+import { mint } from "../../scripts/typescript/mint";
+import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
+import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import { AptosFrameworkPackage } from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { StablecoinPackage } from "../../scripts/typescript/packages/stablecoinPackage";
+import { getAptosClient, LOCAL_RPC_URL } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
+import * as moveScriptsModule from "../../scripts/typescript/utils/moveScripts";
+import * as tokenConfigModule from "../../scripts/typescript/utils/tokenConfig";
+import { generateKeypairs } from "./testUtils";
+
+describe("mint", () => {
+  const aptosExtensionsPackageId = AccountAddress.ZERO.toString();
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const recipient = AccountAddress.THREE.toString();
+  const rpcUrl = "http://localhost:8080";
+  const amount = "1000000";
+  const scriptBytecode = new Uint8Array([1, 2, 3]);
+
+  let stablecoinPackageStub: SinonStub;
+  let buildMoveScriptStub: SinonStub;
+  let minter: Ed25519Account;
+  let isPaused: boolean;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    minter = Account.generate();
+    isPaused = false;
+
+    sinon.stub(aptosFrameworkPackageModule, "AptosFrameworkPackage").returns({
+      fungibleAsset: {
+        getDecimals: sinon.fake.resolves(6)
+      }
+    });
+    sinon
+      .stub(aptosExtensionsPackageModule, "AptosExtensionsPackage")
+      .callsFake(() => ({
+        pausable: {
+          isPaused: sinon.fake.resolves(isPaused)
+        }
+      }));
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+    buildMoveScriptStub = sinon
+      .stub(moveScriptsModule, "buildMoveScript")
+      .returns(scriptBytecode);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function treasuryPackage({
+    isMinter = true,
+    mintAllowance = BigInt(amount),
+    blocklisted = [] as string[]
+  } = {}) {
+    return {
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      },
+      blocklistable: {
+        isBlocklisted: sinon.fake(async (address: string) =>
+          blocklisted.includes(address)
+        )
+      },
+      treasury: {
+        isMinter: sinon.fake.resolves(isMinter),
+        mintAllowance: sinon.fake.resolves(mintAllowance),
+        mint: sinon.fake.resolves({
+          events: [
+            {
+              type: `${stablecoinPackageId}::treasury::Mint`,
+              data: { minter: minter.accountAddress.toString(), amount }
+            }
+          ]
+        }),
+        mintPayload: sinon.fake.returns({
+          bytecode: scriptBytecode,
+          functionArguments: []
+        })
+      }
+    };
+  }
+
+  it("should mint using the compiled mint script", async () => {
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await mint({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      minterKey: minter.privateKey.toString(),
+      recipient,
+      amount,
+      rpcUrl
+    });
+
+    // Ensure that the script is compiled against the deployed packages.
+    sinon.assert.calledOnceWithExactly(buildMoveScriptStub, "mint", {
+      aptosExtensionsPackageId,
+      stablecoinPackageId
+    });
+
+    // Ensure that the request is correct.
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.treasury.mint,
+      minter,
+      scriptBytecode,
+      recipient,
+      BigInt(amount)
+    );
+  });
+
+  it("should fail if the stablecoin is paused", async () => {
+    isPaused = true;
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      mint({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        minterKey: minter.privateKey.toString(),
+        recipient,
+        amount,
+        rpcUrl
+      }),
+      new RegExp(`The stablecoin ${stablecoinAddress} is paused!`)
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.mint);
+  });
+
+  it("should fail if the sender is not a minter", async () => {
+    const stablecoinPackage = treasuryPackage({ isMinter: false });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      mint({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        minterKey: minter.privateKey.toString(),
+        recipient,
+        amount,
+        rpcUrl
+      }),
+      /is not a minter!/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.mint);
+  });
+
+  it("should fail if the recipient is blocklisted", async () => {
+    const stablecoinPackage = treasuryPackage({ blocklisted: [recipient] });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      mint({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        minterKey: minter.privateKey.toString(),
+        recipient,
+        amount,
+        rpcUrl
+      }),
+      new RegExp(`The recipient ${recipient} is blocklisted!`)
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.mint);
+  });
+
+  it("should fail if the mint allowance is insufficient", async () => {
+    const stablecoinPackage = treasuryPackage({
+      mintAllowance: BigInt(amount) - BigInt(1)
+    });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      mint({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        minterKey: minter.privateKey.toString(),
+        recipient,
+        amount,
+        rpcUrl
+      }),
+      /The mint allowance of .* is insufficient to mint/
+    );
+    sinon.assert.notCalled(stablecoinPackage.treasury.mint);
+  });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const stablecoinPackage = treasuryPackage();
+    stablecoinPackageStub.returns(stablecoinPackage);
+    const sender = minter.accountAddress.toString();
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await mint({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      recipient,
+      amount,
+      rpcUrl,
+      buildOnly: true,
+      sender
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.treasury.mintPayload,
+      scriptBytecode,
+      recipient,
+      BigInt(amount)
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: stablecoinPackage.treasury.mintPayload.returnValues[0],
+      options: { buildOnly: true, sender }
+    });
+    sinon.assert.notCalled(stablecoinPackage.treasury.mint);
+  });
+});
+
+describe("mint and burn E2E test", () => {
+  const aptos = getAptosClient(LOCAL_RPC_URL);
+
+  let aptosExtensionsPackageId: string;
+  let stablecoinPackageId: string;
+  let stablecoinAddress: string;
+  let minter: Ed25519Account;
+  let recipient: Ed25519Account;
+
+  beforeEach(async () => {
+    const deployer = await generateKeypair({ prefund: true });
+    let controller: Ed25519Account;
+    [controller, minter, recipient] = await generateKeypairs(3, true);
+
+    sinon.stub(tokenConfigModule, "readTokenConfig").returns({
+      name: "USDC",
+      symbol: "USDC",
+      decimals: 6,
+      iconUri: "https://circle.com/usdc-icon",
+      projectUri: "https://circle.com/usdc",
+
+      admin: deployer.accountAddress.toString(),
+      blocklister: deployer.accountAddress.toString(),
+      masterMinter: deployer.accountAddress.toString(),
+      metadataUpdater: deployer.accountAddress.toString(),
+      owner: deployer.accountAddress.toString(),
+      pauser: deployer.accountAddress.toString(),
+
+      controllers: {
+        [controller.accountAddress.toString()]: minter.accountAddress.toString()
+      },
+      minters: {
+        [minter.accountAddress.toString()]: "1000000000"
+      }
+    });
+
+    ({ aptosExtensionsPackageId, stablecoinPackageId, stablecoinAddress } =
+      await deployAndInitializeToken({
+        deployerKey: deployer.privateKey.toString(),
+        rpcUrl: LOCAL_RPC_URL,
+        verifySource: false,
+        tokenConfigPath: "path/to/token_config.json"
+      }));
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should mint to the recipient and burn from the minter", async () => {
+    const aptosFrameworkPackage = new AptosFrameworkPackage(aptos);
+    const stablecoinPackage = new StablecoinPackage(aptos, stablecoinPackageId);
+
+    await mint({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      minterKey: minter.privateKey.toString(),
+      recipient: recipient.accountAddress.toString(),
+      amount: "300000000",
+      rpcUrl: LOCAL_RPC_URL
+    });
+    await mint({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      minterKey: minter.privateKey.toString(),
+      recipient: minter.accountAddress.toString(),
+      amount: "200000000",
+      rpcUrl: LOCAL_RPC_URL
+    });
+
+    assert.strictEqual(
+      await aptosFrameworkPackage.primaryFungibleStore.balance(
+        recipient.accountAddress,
+        stablecoinAddress
+      ),
+      BigInt(300_000_000)
+    );
+    assert.strictEqual(
+      await stablecoinPackage.treasury.mintAllowance(minter.accountAddress),
+      BigInt(500_000_000)
+    );
+
+    await burn({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      burnerKey: minter.privateKey.toString(),
+      amount: "150000000",
+      rpcUrl: LOCAL_RPC_URL
+    });
+
+    assert.strictEqual(
+      await aptosFrameworkPackage.primaryFungibleStore.balance(
+        minter.accountAddress,
+        stablecoinAddress
+      ),
+      BigInt(50_000_000)
+    );
+    assert.strictEqual(
+      await aptosFrameworkPackage.fungibleAsset.supply(stablecoinAddress),
+      BigInt(350_000_000)
+    );
+  });
+});
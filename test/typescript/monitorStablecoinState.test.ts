@@ -0,0 +1,208 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "assert";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sinon, { SinonStub } from "sinon";
+import { monitorStablecoinState } from "../../scripts/typescript/monitorStablecoinState";
+import { ValidationResult } from "../../scripts/typescript/utils/validationReport";
+import * as validateStablecoinStateModule from "../../scripts/typescript/validateStablecoinState";
+
+describe("monitor-stablecoin-state", () => {
+  const rpcUrl = "http://localhost:8080";
+  const configFilePath = "path/to/validate_stablecoin_state.json";
+  const config = {
+    aptosExtensionsPackageId: "0x1",
+    stablecoinPackageId: "0x2",
+    expectedStates: {
+      aptosExtensionsPackage: {
+        upgradeNumber: 0,
+        upgradePolicy: "immutable",
+        sourceCodeExists: false
+      },
+      stablecoinPackage: {
+        upgradeNumber: 0,
+        upgradePolicy: "compatible",
+        sourceCodeExists: false
+      },
+      name: "USDC",
+      symbol: "USDC",
+      decimals: 6,
+      iconUri: "https://circle.com/usdc-icon",
+      projectUri: "https://circle.com/usdc",
+      paused: false,
+      initializedVersion: 1,
+      totalSupply: "0",
+      admin: "0x3",
+      blocklister: "0x3",
+      masterMinter: "0x3",
+      metadataUpdater: "0x3",
+      owner: "0x3",
+      pauser: "0x3",
+      pendingOwner: null,
+      pendingAdmin: null,
+      controllers: {},
+      minters: {},
+      blocklist: []
+    }
+  };
+
+  const pausedMismatch = {
+    field: "paused",
+    expected: false,
+    actual: true,
+    severity: "error" as const,
+    message: "Mismatched paused"
+  };
+  const ownerMismatch = {
+    field: "owner",
+    expected: "0x3",
+    actual: "0x4",
+    severity: "error" as const,
+    message: "Mismatched owner"
+  };
+
+  function validationResult(
+    ledgerVersion: number,
+    mismatches: ValidationResult["mismatches"]
+  ): ValidationResult {
+    return {
+      ledgerVersion: String(ledgerVersion),
+      success: mismatches.length === 0,
+      checkedFields: ["paused", "owner"],
+      mismatches
+    };
+  }
+
+  let tmpDir: string;
+  let getValidationResultStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "monitor-"));
+    const readFileSyncStub = sinon.stub(fs, "readFileSync");
+    readFileSyncStub.callThrough();
+    readFileSyncStub.withArgs(configFilePath).returns(JSON.stringify(config));
+
+    getValidationResultStub = sinon.stub(
+      validateStablecoinStateModule,
+      "getValidationResult"
+    );
+    getValidationResultStub.onCall(0).resolves(validationResult(1, []));
+    getValidationResultStub
+      .onCall(1)
+      .resolves(validationResult(2, [pausedMismatch]));
+    getValidationResultStub
+      .onCall(2)
+      .resolves(validationResult(3, [pausedMismatch]));
+    getValidationResultStub
+      .onCall(3)
+      .resolves(validationResult(4, [pausedMismatch, ownerMismatch]));
+    getValidationResultStub.onCall(4).resolves(validationResult(5, []));
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should only notify when the drift changes", async () => {
+    const notifications = await monitorStablecoinState(configFilePath, {
+      rpcUrl,
+      interval: "0",
+      iterations: "5"
+    });
+
+    sinon.assert.callCount(getValidationResultStub, 5);
+    assert.deepStrictEqual(
+      notifications.map((notification) => [
+        notification.status,
+        notification.ledgerVersion,
+        notification.appeared.map((mismatch) => mismatch.field),
+        notification.cleared.map((mismatch) => mismatch.field)
+      ]),
+      [
+        ["drift", "2", ["paused"], []],
+        ["changed", "4", ["owner"], []],
+        ["cleared", "5", [], ["paused", "owner"]]
+      ]
+    );
+  });
+
+  it("should send notifications to the JSONL file and the webhook", async () => {
+    const received: unknown[] = [];
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const jsonlFile = path.join(tmpDir, "drift.jsonl");
+    try {
+      const notifications = await monitorStablecoinState(configFilePath, {
+        rpcUrl,
+        interval: "0",
+        iterations: "5",
+        jsonlFile,
+        webhookUrl: `http://localhost:${port}/drift`
+      });
+
+      const lines = fs
+        .readFileSync(jsonlFile, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      assert.deepStrictEqual(lines, notifications);
+      assert.deepStrictEqual(received, notifications);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should keep monitoring if a validation fails to run", async () => {
+    sinon.stub(console, "error");
+    getValidationResultStub.onCall(1).rejects(new Error("RPC unavailable"));
+
+    const notifications = await monitorStablecoinState(configFilePath, {
+      rpcUrl,
+      interval: "0",
+      iterations: "3"
+    });
+
+    assert.deepStrictEqual(
+      notifications.map((notification) => notification.status),
+      ["drift"]
+    );
+  });
+
+  it("should fail if the interval is invalid", async () => {
+    await assert.rejects(
+      monitorStablecoinState(configFilePath, { rpcUrl, interval: "soon" }),
+      /Invalid interval soon!/
+    );
+  });
+});
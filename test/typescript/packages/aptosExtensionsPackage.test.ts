@@ -179,6 +179,38 @@ describe("AptosExtensionsPackage", () => {
       });
     });
 
+    describe("pause", async () => {
+      it("should succeed", async () => {
+        await aptosExtensionsPackage.pausable.pause(
+          deployer,
+          stablecoinAddress
+        );
+
+        assert.strictEqual(
+          await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress),
+          true
+        );
+      });
+    });
+
+    describe("unpause", async () => {
+      it("should succeed", async () => {
+        await aptosExtensionsPackage.pausable.pause(
+          deployer,
+          stablecoinAddress
+        );
+        await aptosExtensionsPackage.pausable.unpause(
+          deployer,
+          stablecoinAddress
+        );
+
+        assert.strictEqual(
+          await aptosExtensionsPackage.pausable.isPaused(stablecoinAddress),
+          false
+        );
+      });
+    });
+
     describe("updatePauser", async () => {
       it("should succeed", async () => {
         const newPauser = await generateKeypair({ prefund: false });
@@ -150,6 +150,17 @@ describe("StablecoinPackage", () => {
           mintAllowance
         );
 
+        const allowanceIncrement = BigInt(500_000);
+        await stablecoinPackage.treasury.incrementMinterAllowance(
+          controller,
+          allowanceIncrement
+        );
+
+        assert.strictEqual(
+          await stablecoinPackage.treasury.mintAllowance(minter.accountAddress),
+          mintAllowance + allowanceIncrement
+        );
+
         await stablecoinPackage.treasury.removeMinter(controller);
 
         await stablecoinPackage.treasury.removeController(
@@ -231,5 +242,50 @@ describe("StablecoinPackage", () => {
         );
       });
     });
+
+    describe("updateMetadata", () => {
+      it("should update only the fields that are set", async () => {
+        const stablecoinAddress =
+          await stablecoinPackage.stablecoin.stablecoinAddress();
+        const faMetadataBefore = await aptos.getAccountResource({
+          accountAddress: stablecoinAddress,
+          resourceType: "0x1::fungible_asset::Metadata"
+        });
+
+        await stablecoinPackage.metadata.updateMetadata(deployer, {
+          name: "New Name",
+          projectUri: "https://circle.com/new"
+        });
+
+        const faMetadataAfter = await aptos.getAccountResource({
+          accountAddress: stablecoinAddress,
+          resourceType: "0x1::fungible_asset::Metadata"
+        });
+        assert.strictEqual(faMetadataAfter.name, "New Name");
+        assert.strictEqual(faMetadataAfter.symbol, faMetadataBefore.symbol);
+        assert.strictEqual(faMetadataAfter.icon_uri, faMetadataBefore.icon_uri);
+        assert.strictEqual(
+          faMetadataAfter.project_uri,
+          "https://circle.com/new"
+        );
+      });
+
+      it("should fail if no field is set", () => {
+        assert.throws(
+          () => stablecoinPackage.metadata.updateMetadataPayload({}),
+          /At least one metadata field must be updated!/
+        );
+      });
+
+      it("should fail if a field exceeds its length limit", () => {
+        assert.throws(
+          () =>
+            stablecoinPackage.metadata.updateMetadataPayload({
+              symbol: "A".repeat(11)
+            }),
+          /The symbol must be at most 10 bytes long, got 11!/
+        );
+      });
+    });
   });
 });
@@ -0,0 +1,179 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress, Aptos, LedgerInfo } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import * as aptosFrameworkPackageModule from "../../scripts/typescript/packages/aptosFrameworkPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { reconcileSupply } from "../../scripts/typescript/reconcileSupply";
+import * as eventScannerModule from "../../scripts/typescript/utils/eventScanner";
+import { ScannedEvent } from "../../scripts/typescript/utils/eventScanner";
+
+describe("reconcile-supply", () => {
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const minterA = "0xa";
+  const minterB = "0xb";
+  const rpcUrl = "http://localhost:8080";
+  const indexerUrl = "http://localhost:8090/v1/graphql";
+
+  function scannedEvent(type: string, data: unknown): ScannedEvent {
+    return {
+      type,
+      packageId: stablecoinPackageId,
+      data,
+      transactionVersion: BigInt(150),
+      eventIndex: 0
+    } as ScannedEvent;
+  }
+
+  let aptosFrameworkPackageStub: SinonStub;
+  let scanStablecoinEventsStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    sinon.stub(stablecoinPackageModule, "StablecoinPackage").returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      }
+    });
+    aptosFrameworkPackageStub = sinon.stub(
+      aptosFrameworkPackageModule,
+      "AptosFrameworkPackage"
+    );
+    aptosFrameworkPackageStub.onFirstCall().returns({
+      fungibleAsset: { supply: sinon.fake.resolves(BigInt(1_000)) }
+    });
+    aptosFrameworkPackageStub.onSecondCall().returns({
+      fungibleAsset: { supply: sinon.fake.resolves(BigInt(1_250)) }
+    });
+    // The indexer lags behind the node.
+    sinon
+      .stub(Aptos.prototype, "getLedgerInfo")
+      .resolves({ ledger_version: "250" } as LedgerInfo);
+    sinon
+      .stub(Aptos.prototype, "getIndexerLastSuccessVersion")
+      .resolves(BigInt(200));
+
+    scanStablecoinEventsStub = sinon
+      .stub(eventScannerModule, "scanStablecoinEvents")
+      .callsFake(async ({ onPage }) => {
+        await onPage(
+          [
+            scannedEvent("treasury::Mint", {
+              minter: minterA,
+              amount: BigInt(300)
+            }),
+            scannedEvent("treasury::Mint", {
+              minter: minterB,
+              amount: BigInt(100)
+            }),
+            scannedEvent("treasury::Burn", {
+              burner: minterA,
+              amount: BigInt(150)
+            })
+          ],
+          { transactionVersion: "150", eventIndex: 2 }
+        );
+        return undefined;
+      });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should reconcile the change in supply up to the version that the indexer processed", async () => {
+    const result = await reconcileSupply({
+      stablecoinPackageId,
+      fromVersion: "100",
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.deepStrictEqual(result, {
+      fromVersion: BigInt(100),
+      toVersion: BigInt(200),
+      supplyAtFromVersion: BigInt(1_000),
+      supplyAtToVersion: BigInt(1_250),
+      totalMinted: BigInt(400),
+      totalBurned: BigInt(150),
+      unexplainedDelta: BigInt(0),
+      minters: [
+        { minter: minterA, minted: BigInt(300), burned: BigInt(150) },
+        { minter: minterB, minted: BigInt(100), burned: BigInt(0) }
+      ]
+    });
+
+    // Ensure that only the Mint and Burn events between the two versions are scanned.
+    const {
+      eventTypes,
+      checkpoint,
+      maxTransactionVersion,
+      withTransactionDetails
+    } = scanStablecoinEventsStub.getCall(0).args[0];
+    assert.deepStrictEqual(eventTypes, ["treasury::Mint", "treasury::Burn"]);
+    assert.strictEqual(checkpoint.transactionVersion, "100");
+    assert.strictEqual(maxTransactionVersion, BigInt(200));
+    assert.strictEqual(withTransactionDetails, undefined);
+  });
+
+  it("should fail if the change in supply is not explained by the events", async () => {
+    aptosFrameworkPackageStub.onSecondCall().returns({
+      fungibleAsset: { supply: sinon.fake.resolves(BigInt(1_300)) }
+    });
+
+    await assert.rejects(
+      reconcileSupply({
+        stablecoinPackageId,
+        fromVersion: "100",
+        toVersion: "200",
+        rpcUrl,
+        indexerUrl
+      }),
+      /The supply changed by 50 more than the Mint and Burn events explain!/
+    );
+  });
+
+  it("should fail if the indexer is behind the to version", async () => {
+    await assert.rejects(
+      reconcileSupply({
+        stablecoinPackageId,
+        fromVersion: "100",
+        toVersion: "300",
+        rpcUrl,
+        indexerUrl
+      }),
+      /The indexer has only processed up to version 200, but the to version is 300!/
+    );
+  });
+
+  it("should fail if the from version is not lower than the to version", async () => {
+    await assert.rejects(
+      reconcileSupply({
+        stablecoinPackageId,
+        fromVersion: "200",
+        toVersion: "100",
+        rpcUrl,
+        indexerUrl
+      }),
+      /The from version 200 must be lower than the to version 100!/
+    );
+  });
+});
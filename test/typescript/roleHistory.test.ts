@@ -0,0 +1,176 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon from "sinon";
+import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { roleHistory } from "../../scripts/typescript/roleHistory";
+import * as eventScannerModule from "../../scripts/typescript/utils/eventScanner";
+import { DetailedScannedEvent } from "../../scripts/typescript/utils/eventScanner";
+import * as reviewSheetModule from "../../scripts/typescript/utils/reviewSheet";
+import { TokenState } from "../../scripts/typescript/utils/reviewSheet";
+
+describe("role-history", () => {
+  const aptosExtensionsPackageId = AccountAddress.ONE.toString();
+  const stablecoinPackageId = AccountAddress.TWO.toString();
+  const stablecoinAddress = AccountAddress.THREE.toString();
+  const rpcUrl = "http://localhost:8080";
+  const indexerUrl = "http://localhost:8090/v1/graphql";
+
+  const deployer = "0xd";
+  const owner = "0xa";
+  const pauser = "0xb";
+
+  function scannedEvent(
+    version: number,
+    type: string,
+    data: unknown,
+    sender: string
+  ): DetailedScannedEvent {
+    return {
+      type,
+      packageId:
+        type.startsWith("pausable") || type.startsWith("ownable")
+          ? aptosExtensionsPackageId
+          : stablecoinPackageId,
+      data,
+      transactionVersion: BigInt(version),
+      eventIndex: 0,
+      timestamp: new Date(Date.UTC(2026, 0, version)).toISOString(),
+      transactionHash: `0x${version}`,
+      sender
+    } as DetailedScannedEvent;
+  }
+
+  const events = [
+    scannedEvent(
+      1,
+      "ownable::OwnershipTransferStarted",
+      { objAddress: stablecoinAddress, oldOwner: deployer, newOwner: owner },
+      deployer
+    ),
+    scannedEvent(2, "treasury::Mint", { minter: pauser, amount: 1 }, pauser),
+    scannedEvent(
+      3,
+      "ownable::OwnershipTransferred",
+      { objAddress: stablecoinAddress, oldOwner: deployer, newOwner: owner },
+      owner
+    ),
+    scannedEvent(
+      4,
+      "pausable::PauserChanged",
+      { objAddress: stablecoinAddress, oldPauser: deployer, newPauser: pauser },
+      owner
+    )
+  ];
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    sinon.stub(aptosExtensionsPackageModule, "AptosExtensionsPackage");
+    sinon.stub(stablecoinPackageModule, "StablecoinPackage").returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      }
+    });
+    sinon
+      .stub(eventScannerModule, "scanStablecoinEvents")
+      .callsFake(async ({ onPage }) => {
+        await onPage(events, { transactionVersion: "4", eventIndex: 0 });
+        return undefined;
+      });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should build a timeline of the role changes", async () => {
+    const history = await roleHistory({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.deepStrictEqual(
+      history.timeline.map((change) => [
+        change.role,
+        change.previousHolder,
+        change.newHolder,
+        change.transactionHash,
+        change.signer
+      ]),
+      [
+        ["pendingOwner", null, owner, "0x1", deployer],
+        ["owner", deployer, owner, "0x3", owner],
+        ["pendingOwner", owner, null, "0x3", owner],
+        ["pauser", deployer, pauser, "0x4", owner]
+      ]
+    );
+    assert.strictEqual(history.holders, undefined);
+  });
+
+  it("should report the holder of each role at the given date", async () => {
+    const state = {
+      owner,
+      pendingOwner: null,
+      admin: deployer,
+      pendingAdmin: null,
+      pauser,
+      blocklister: deployer,
+      masterMinter: deployer,
+      metadataUpdater: deployer
+    } as TokenState;
+    sinon.stub(reviewSheetModule, "fetchTokenState").resolves(state);
+
+    const history = await roleHistory({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      asOf: "2026-01-02T12:00:00Z",
+      rpcUrl,
+      indexerUrl
+    });
+
+    // The ownership transfer was started, but not yet accepted.
+    assert.deepStrictEqual(history.holders, {
+      owner: deployer,
+      pendingOwner: owner,
+      admin: deployer,
+      pendingAdmin: null,
+      pauser: deployer,
+      blocklister: deployer,
+      masterMinter: deployer,
+      metadataUpdater: deployer
+    });
+  });
+
+  it("should fail if the date is invalid", async () => {
+    await assert.rejects(
+      roleHistory({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        asOf: "not a date",
+        rpcUrl,
+        indexerUrl
+      }),
+      /Invalid date not a date!/
+    );
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import childProcess from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sinon, { SinonStub } from "sinon";
+import { scanEvents } from "../../scripts/typescript/scanEvents";
+import * as eventScannerModule from "../../scripts/typescript/utils/eventScanner";
+import { DetailedScannedEvent } from "../../scripts/typescript/utils/eventScanner";
+
+describe("scan-events", () => {
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const minter = AccountAddress.THREE.toString();
+  const rpcUrl = "http://localhost:8080";
+  const indexerUrl = "http://localhost:8090/v1/graphql";
+
+  const mintEvent: DetailedScannedEvent = {
+    type: "treasury::Mint",
+    packageId: stablecoinPackageId,
+    data: { minter, amount: BigInt(1_000_000) },
+    transactionVersion: BigInt(10),
+    eventIndex: 0,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    transactionHash: "0x10",
+    sender: minter
+  };
+  const checkpoint = { transactionVersion: "10", eventIndex: 1 };
+
+  let tmpDir: string;
+  let scanStablecoinEventsStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "scan-events-"));
+    scanStablecoinEventsStub = sinon
+      .stub(eventScannerModule, "scanStablecoinEvents")
+      .callsFake(async ({ onPage }) => {
+        await onPage([mintEvent], checkpoint);
+        return checkpoint;
+      });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should write the events as JSONL and save the checkpoint", async () => {
+    const output = path.join(tmpDir, "events.jsonl");
+    const checkpointFile = path.join(tmpDir, "checkpoint.json");
+
+    await scanEvents({
+      stablecoinPackageId,
+      stablecoinAddress,
+      output,
+      checkpointFile,
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.strictEqual(
+      scanStablecoinEventsStub.getCall(0).args[0].withTransactionDetails,
+      true
+    );
+    const lines = fs.readFileSync(output, "utf8").trim().split("\n");
+    assert.deepStrictEqual(
+      lines.map((line) => JSON.parse(line)),
+      [
+        {
+          transactionVersion: "10",
+          eventIndex: 0,
+          timestamp: "2026-01-01T00:00:00.000Z",
+          transactionHash: "0x10",
+          sender: minter,
+          type: "treasury::Mint",
+          packageId: stablecoinPackageId,
+          data: { minter, amount: "1000000" }
+        }
+      ]
+    );
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(checkpointFile, "utf8")),
+      checkpoint
+    );
+  });
+
+  it("should resume from the saved checkpoint and append to the output", async () => {
+    const output = path.join(tmpDir, "events.jsonl");
+    const checkpointFile = path.join(tmpDir, "checkpoint.json");
+    fs.writeFileSync(
+      output,
+      JSON.stringify({ transactionVersion: "5", eventIndex: 2 }) + "\n"
+    );
+    fs.writeFileSync(
+      checkpointFile,
+      JSON.stringify({ transactionVersion: "5", eventIndex: 2 })
+    );
+
+    await scanEvents({
+      stablecoinPackageId,
+      stablecoinAddress,
+      output,
+      checkpointFile,
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.deepStrictEqual(
+      scanStablecoinEventsStub.getCall(0).args[0].checkpoint,
+      { transactionVersion: "5", eventIndex: 2 }
+    );
+    assert.strictEqual(
+      fs.readFileSync(output, "utf8").trim().split("\n").length,
+      2
+    );
+  });
+
+  it("should not write the events again that were written before the checkpoint was saved", async () => {
+    const output = path.join(tmpDir, "events.jsonl");
+    const checkpointFile = path.join(tmpDir, "checkpoint.json");
+    // The previous run wrote the event, but was interrupted before saving the
+    // checkpoint.
+    fs.writeFileSync(
+      output,
+      JSON.stringify({ transactionVersion: "10", eventIndex: 0 }) + "\n"
+    );
+
+    await scanEvents({
+      stablecoinPackageId,
+      stablecoinAddress,
+      output,
+      checkpointFile,
+      rpcUrl,
+      indexerUrl
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(output, "utf8").trim().split("\n").length,
+      1
+    );
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(checkpointFile, "utf8")),
+      checkpoint
+    );
+  });
+
+  it("should write the events to a SQLite file", async () => {
+    const output = path.join(tmpDir, "events.db");
+    const execFileSyncStub = sinon.stub(childProcess, "execFileSync");
+
+    await scanEvents({
+      stablecoinPackageId,
+      stablecoinAddress,
+      output,
+      format: "sqlite",
+      rpcUrl,
+      indexerUrl
+    });
+
+    sinon.assert.calledTwice(execFileSyncStub);
+    for (const call of execFileSyncStub.getCalls()) {
+      assert.strictEqual(call.args[0], "sqlite3");
+      assert.deepStrictEqual(call.args[1], [output]);
+    }
+    assert.strictEqual(
+      execFileSyncStub.getCall(0).args[2]?.input,
+      [
+        "CREATE TABLE IF NOT EXISTS events (",
+        "  transaction_version INTEGER NOT NULL,",
+        "  event_index INTEGER NOT NULL,",
+        "  timestamp TEXT NOT NULL,",
+        "  transaction_hash TEXT NOT NULL,",
+        "  sender TEXT,",
+        "  type TEXT NOT NULL,",
+        "  package_id TEXT NOT NULL,",
+        "  data TEXT NOT NULL,",
+        "  PRIMARY KEY (transaction_version, event_index)",
+        ");"
+      ].join("\n")
+    );
+    assert.strictEqual(
+      execFileSyncStub.getCall(1).args[2]?.input,
+      [
+        "BEGIN;",
+        `INSERT OR IGNORE INTO events VALUES (10, 0, '2026-01-01T00:00:00.000Z', '0x10', '${minter}', 'treasury::Mint', '${stablecoinPackageId}', '{"minter":"${minter}","amount":"1000000"}');`,
+        "COMMIT;"
+      ].join("\n")
+    );
+  });
+
+  it("should fail before scanning if the sqlite3 CLI is not installed", async () => {
+    sinon
+      .stub(childProcess, "execFileSync")
+      .throws(
+        Object.assign(new Error("spawnSync sqlite3 ENOENT"), { code: "ENOENT" })
+      );
+
+    await assert.rejects(
+      scanEvents({
+        stablecoinPackageId,
+        stablecoinAddress,
+        output: path.join(tmpDir, "events.db"),
+        format: "sqlite",
+        rpcUrl,
+        indexerUrl
+      }),
+      /The sqlite format requires the sqlite3 CLI, which was not found on the PATH!/
+    );
+    sinon.assert.notCalled(scanStablecoinEventsStub);
+  });
+});
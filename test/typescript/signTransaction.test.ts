@@ -0,0 +1,188 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  ChainId,
+  Deserializer,
+  Ed25519Account,
+  Ed25519PublicKey,
+  Ed25519Signature,
+  EntryFunction,
+  generateSigningMessageForTransaction,
+  Hex,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import sinon from "sinon";
+import { signTransaction } from "../../scripts/typescript/signTransaction";
+import * as utilsModule from "../../scripts/typescript/utils";
+import { encryptPrivateKey } from "../../scripts/typescript/utils/keystore";
+
+describe("signTransaction", () => {
+  const PRIVATE_KEY_FILE_PATH = "path/to/private_key";
+  const KEYSTORE_FILE_PATH = "path/to/keystore.json";
+  const PRIVATE_KEY_ENV = "TEST_SIGNER_PRIVATE_KEY";
+  const KEYSTORE_PASSWORD_ENV = "TEST_KEYSTORE_PASSWORD";
+
+  let signer: Ed25519Account;
+  let transaction: SimpleTransaction;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+
+    signer = Account.generate();
+    transaction = new SimpleTransaction(
+      new RawTransaction(
+        signer.accountAddress,
+        BigInt(5),
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build(
+            "0x1::aptos_account",
+            "transfer",
+            [],
+            [Account.generate().accountAddress, new U64(1)]
+          )
+        ),
+        BigInt(10_000),
+        BigInt(100),
+        BigInt(Math.floor(Date.now() / 1000) + 600),
+        new ChainId(1)
+      )
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    delete process.env[PRIVATE_KEY_ENV];
+    delete process.env[KEYSTORE_PASSWORD_ENV];
+  });
+
+  function verifySignature({
+    publicKey,
+    signature
+  }: {
+    publicKey: string;
+    signature: string;
+  }) {
+    assert.strictEqual(publicKey, signer.publicKey.bcsToHex().toString());
+    assert.strictEqual(
+      Ed25519PublicKey.deserialize(
+        new Deserializer(Hex.fromHexString(publicKey).toUint8Array())
+      ).verifySignature({
+        message: generateSigningMessageForTransaction(transaction),
+        signature: Ed25519Signature.deserialize(
+          new Deserializer(Hex.fromHexString(signature).toUint8Array())
+        )
+      }),
+      true
+    );
+  }
+
+  it("should sign the transaction with a private key file without contacting an RPC node", async () => {
+    const getAptosClientSpy = sinon.spy(utilsModule, "getAptosClient");
+
+    const existsSyncStub = sinon.stub(fs, "existsSync");
+    existsSyncStub.callThrough();
+    existsSyncStub.withArgs(PRIVATE_KEY_FILE_PATH).returns(true);
+
+    const readFileSyncStub = sinon.stub(fs, "readFileSync");
+    readFileSyncStub.callThrough();
+    readFileSyncStub
+      .withArgs(PRIVATE_KEY_FILE_PATH)
+      .returns(`${signer.privateKey.toString()}\n`);
+
+    const result = await signTransaction({
+      txBytes: transaction.bcsToHex().toString(),
+      privateKeyFile: PRIVATE_KEY_FILE_PATH
+    });
+
+    verifySignature(result);
+    sinon.assert.notCalled(getAptosClientSpy);
+  });
+
+  it("should sign the transaction with a private key from an environment variable", async () => {
+    process.env[PRIVATE_KEY_ENV] = signer.privateKey.toString();
+
+    const result = await signTransaction({
+      txBytes: transaction.bcsToHex().toString(),
+      privateKeyEnv: PRIVATE_KEY_ENV
+    });
+
+    verifySignature(result);
+  });
+
+  it("should sign the transaction with an encrypted keystore", async () => {
+    const password = "correct horse battery staple";
+    process.env[KEYSTORE_PASSWORD_ENV] = password;
+
+    const existsSyncStub = sinon.stub(fs, "existsSync");
+    existsSyncStub.callThrough();
+    existsSyncStub.withArgs(KEYSTORE_FILE_PATH).returns(true);
+
+    const readFileSyncStub = sinon.stub(fs, "readFileSync");
+    readFileSyncStub.callThrough();
+    readFileSyncStub
+      .withArgs(KEYSTORE_FILE_PATH)
+      .returns(JSON.stringify(encryptPrivateKey(signer.privateKey, password)));
+
+    const result = await signTransaction({
+      txBytes: transaction.bcsToHex().toString(),
+      keystore: KEYSTORE_FILE_PATH,
+      keystorePasswordEnv: KEYSTORE_PASSWORD_ENV
+    });
+
+    verifySignature(result);
+  });
+
+  it("should fail if no key source is set", async () => {
+    await assert.rejects(
+      signTransaction({ txBytes: transaction.bcsToHex().toString() }),
+      /Exactly one of --private-key-file, --private-key-env or --keystore must be set!/
+    );
+  });
+
+  it("should fail if multiple key sources are set", async () => {
+    process.env[PRIVATE_KEY_ENV] = signer.privateKey.toString();
+
+    await assert.rejects(
+      signTransaction({
+        txBytes: transaction.bcsToHex().toString(),
+        privateKeyEnv: PRIVATE_KEY_ENV,
+        privateKeyFile: PRIVATE_KEY_FILE_PATH
+      }),
+      /Exactly one of --private-key-file, --private-key-env or --keystore must be set!/
+    );
+  });
+
+  it("should fail if the private key environment variable is not set", async () => {
+    await assert.rejects(
+      signTransaction({
+        txBytes: transaction.bcsToHex().toString(),
+        privateKeyEnv: PRIVATE_KEY_ENV
+      }),
+      new RegExp(
+        `Missing private key! Set the ${PRIVATE_KEY_ENV} environment variable.`
+      )
+    );
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  ChainId,
+  Deserializer,
+  EntryFunction,
+  Hex,
+  MultiKeyAccount,
+  MultiKeySignature,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+  UserTransactionResponse
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import sinon from "sinon";
+import { executeTransaction } from "../../scripts/typescript/executeTransaction";
+import {
+  addSignatureToSigningCeremony,
+  assembleMultiKeySignature,
+  createSigningCeremony,
+  getSigningCeremonyStatus
+} from "../../scripts/typescript/signingCeremony";
+import { getAptosClient, LOCAL_RPC_URL } from "../../scripts/typescript/utils";
+import { generateKOfNMultiKeyAccount } from "./testUtils";
+
+describe("signingCeremony", () => {
+  const CEREMONY_FILE_PATH = "path/to/signing_ceremony.json";
+
+  let files: Map<string, string>;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+
+    // Keep the signing ceremony file in memory.
+    files = new Map();
+    sinon
+      .stub(fs, "existsSync")
+      .callsFake((filePath) => files.has(filePath.toString()));
+    sinon
+      .stub(fs, "readFileSync")
+      .callsFake((filePath) => files.get(filePath.toString()) as string);
+    sinon
+      .stub(fs, "writeFileSync")
+      .callsFake((filePath, data) =>
+        files.set(filePath.toString(), data.toString())
+      );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function buildTransaction(sender: AccountAddress, chainId = 4) {
+    return new SimpleTransaction(
+      new RawTransaction(
+        sender,
+        BigInt(0),
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build(
+            "0x1::aptos_account",
+            "transfer",
+            [],
+            [Account.generate().accountAddress, new U64(1)]
+          )
+        ),
+        BigInt(10_000),
+        BigInt(100),
+        BigInt(Math.floor(Date.now() / 1000) + 600),
+        new ChainId(chainId)
+      )
+    );
+  }
+
+  function fixture(multiKeyAccount: MultiKeyAccount, chainId?: number) {
+    const transaction = buildTransaction(
+      multiKeyAccount.accountAddress,
+      chainId
+    );
+    createSigningCeremony({
+      txBytes: transaction.bcsToHex().toString(),
+      multiKey: multiKeyAccount.publicKey.bcsToHex().toString(),
+      ceremonyFile: CEREMONY_FILE_PATH
+    });
+    return transaction;
+  }
+
+  function addSignature(
+    multiKeyAccount: MultiKeyAccount,
+    transaction: SimpleTransaction,
+    keyIndex: number
+  ) {
+    addSignatureToSigningCeremony({
+      ceremonyFile: CEREMONY_FILE_PATH,
+      keyIndex: keyIndex.toString(),
+      signature: multiKeyAccount.signers[keyIndex]
+        .signTransaction(transaction)
+        .bcsToHex()
+        .toString()
+    });
+  }
+
+  describe("createSigningCeremony", () => {
+    it("should create a signing ceremony file with no signatures", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      assert.deepStrictEqual(JSON.parse(files.get(CEREMONY_FILE_PATH)!), {
+        txBytes: transaction.bcsToHex().toString(),
+        multiKey: multiKeyAccount.publicKey.bcsToHex().toString(),
+        signatures: []
+      });
+    });
+
+    it("should fail if the transaction sender does not match the MultiKey", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = buildTransaction(Account.generate().accountAddress);
+
+      assert.throws(
+        () =>
+          createSigningCeremony({
+            txBytes: transaction.bcsToHex().toString(),
+            multiKey: multiKeyAccount.publicKey.bcsToHex().toString(),
+            ceremonyFile: CEREMONY_FILE_PATH
+          }),
+        /does not match the MultiKey's address/
+      );
+    });
+
+    it("should fail if the signing ceremony file already exists", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      fixture(multiKeyAccount);
+
+      assert.throws(
+        () => fixture(multiKeyAccount),
+        /Signing ceremony file already exists/
+      );
+    });
+  });
+
+  describe("addSignatureToSigningCeremony", () => {
+    it("should add a valid signature to the signing ceremony file", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      addSignature(multiKeyAccount, transaction, 1);
+
+      assert.deepStrictEqual(
+        JSON.parse(files.get(CEREMONY_FILE_PATH)!).signatures,
+        [
+          {
+            keyIndex: 1,
+            signature: multiKeyAccount.signers[1]
+              .signTransaction(transaction)
+              .bcsToHex()
+              .toString()
+          }
+        ]
+      );
+    });
+
+    it("should fail if the signature does not match the public key at the key index", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      assert.throws(
+        () =>
+          addSignatureToSigningCeremony({
+            ceremonyFile: CEREMONY_FILE_PATH,
+            keyIndex: "0",
+            signature: multiKeyAccount.signers[1]
+              .signTransaction(transaction)
+              .bcsToHex()
+              .toString()
+          }),
+        /Invalid signature!/
+      );
+    });
+
+    it("should fail if the signature is over a different transaction", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      fixture(multiKeyAccount);
+      const otherTransaction = buildTransaction(multiKeyAccount.accountAddress);
+
+      assert.throws(
+        () => addSignature(multiKeyAccount, otherTransaction, 0),
+        /Invalid signature!/
+      );
+    });
+
+    it("should fail if the key index is out of range", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      assert.throws(
+        () =>
+          addSignatureToSigningCeremony({
+            ceremonyFile: CEREMONY_FILE_PATH,
+            keyIndex: "3",
+            signature: multiKeyAccount.signers[0]
+              .signTransaction(transaction)
+              .bcsToHex()
+              .toString()
+          }),
+        /Invalid key index 3!/
+      );
+    });
+
+    it("should fail if a signature was already added for the key index", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      addSignature(multiKeyAccount, transaction, 0);
+
+      assert.throws(
+        () => addSignature(multiKeyAccount, transaction, 0),
+        /A signature for key index 0 was already added!/
+      );
+    });
+  });
+
+  describe("getSigningCeremonyStatus", () => {
+    it("should track the collected signatures against the threshold", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      addSignature(multiKeyAccount, transaction, 2);
+      assert.deepStrictEqual(
+        getSigningCeremonyStatus({ ceremonyFile: CEREMONY_FILE_PATH }),
+        {
+          sender: multiKeyAccount.accountAddress.toString(),
+          signaturesRequired: 2,
+          signaturesCollected: 1,
+          signedKeyIndices: [2],
+          pendingKeyIndices: [0, 1],
+          isThresholdMet: false
+        }
+      );
+
+      addSignature(multiKeyAccount, transaction, 0);
+      assert.deepStrictEqual(
+        getSigningCeremonyStatus({ ceremonyFile: CEREMONY_FILE_PATH }),
+        {
+          sender: multiKeyAccount.accountAddress.toString(),
+          signaturesRequired: 2,
+          signaturesCollected: 2,
+          signedKeyIndices: [0, 2],
+          pendingKeyIndices: [1],
+          isThresholdMet: true
+        }
+      );
+    });
+  });
+
+  describe("assembleMultiKeySignature", () => {
+    it("should assemble the signatures in key index order with the correct bitmap", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      // Signatures are added out of order.
+      addSignature(multiKeyAccount, transaction, 2);
+      addSignature(multiKeyAccount, transaction, 0);
+
+      const multiKeySignature = assembleMultiKeySignature({
+        ceremonyFile: CEREMONY_FILE_PATH
+      });
+
+      const expectedMultiKeySignature = new MultiKeyAccount({
+        multiKey: multiKeyAccount.publicKey,
+        signers: [multiKeyAccount.signers[0], multiKeyAccount.signers[2]]
+      }).signTransaction(transaction);
+      assert.strictEqual(
+        multiKeySignature,
+        expectedMultiKeySignature.bcsToHex().toString()
+      );
+      assert.deepStrictEqual(
+        Array.from(
+          MultiKeySignature.deserialize(
+            new Deserializer(
+              Hex.fromHexString(multiKeySignature).toUint8Array()
+            )
+          ).bitmap
+        ),
+        [0b10100000, 0, 0, 0]
+      );
+    });
+
+    it("should fail if the signature threshold is not met", async () => {
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      const transaction = fixture(multiKeyAccount);
+
+      addSignature(multiKeyAccount, transaction, 1);
+
+      assert.throws(
+        () => assembleMultiKeySignature({ ceremonyFile: CEREMONY_FILE_PATH }),
+        /Signature threshold not met! Collected 1 of 2 required signatures./
+      );
+    });
+
+    it("should produce a signature that can be executed", async () => {
+      const aptos = getAptosClient(LOCAL_RPC_URL);
+      const multiKeyAccount = await generateKOfNMultiKeyAccount(2, 3);
+      await aptos.fundAccount({
+        accountAddress: multiKeyAccount.accountAddress,
+        amount: 10 * 10 ** 8,
+        options: { waitForIndexer: false }
+      });
+
+      const transaction = fixture(multiKeyAccount, await aptos.getChainId());
+      addSignature(multiKeyAccount, transaction, 1);
+      addSignature(multiKeyAccount, transaction, 2);
+
+      const result = (await executeTransaction({
+        rpcUrl: LOCAL_RPC_URL,
+        txBytes: transaction.bcsToHex().toString(),
+        publicKey: multiKeyAccount.publicKey.bcsToHex().toString(),
+        signature: assembleMultiKeySignature({
+          ceremonyFile: CEREMONY_FILE_PATH
+        }),
+        multiSig: true
+      })) as UserTransactionResponse;
+
+      assert.strictEqual(result.success, true);
+    });
+  });
+});
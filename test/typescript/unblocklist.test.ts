@@ -0,0 +1,182 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, AccountAddress } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { unblocklist } from "../../scripts/typescript/unblocklist";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { getAptosClient } from "../../scripts/typescript/utils";
+import * as addressListModule from "../../scripts/typescript/utils/addressList";
+
+describe("unblocklist", () => {
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const rpcUrl = "http://localhost:8080";
+  const addressFile = "addresses.csv";
+  const reportFile = "report.json";
+
+  const addresses = [
+    AccountAddress.TWO.toString(),
+    AccountAddress.THREE.toString(),
+    AccountAddress.FOUR.toString()
+  ];
+
+  let stablecoinPackageStub: SinonStub;
+  let writeAddressListReportStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    sinon.stub(console, "error");
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+    sinon
+      .stub(addressListModule, "readAddressList")
+      .returns([
+        { address: addresses[0], caseId: "CASE-1" },
+        { address: addresses[1], caseId: "CASE-2" },
+        { address: addresses[2] }
+      ]);
+    writeAddressListReportStub = sinon.stub(
+      addressListModule,
+      "writeAddressListReport"
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should unblocklist each blocklisted address and write the report", async () => {
+    const blocklister = Account.generate();
+
+    const unblocklistFn = sinon.stub();
+    unblocklistFn.withArgs(blocklister, addresses[0]).resolves({ hash: "0x1" });
+    unblocklistFn.withArgs(blocklister, addresses[2]).resolves({ hash: "0x3" });
+    stablecoinPackageStub.returns({
+      blocklistable: {
+        blocklister: sinon.fake.resolves(blocklister.accountAddress.toString()),
+        isBlocklisted: sinon.fake(
+          async (address: string) => address !== addresses[1]
+        ),
+        unblocklist: unblocklistFn
+      }
+    });
+
+    const results = await unblocklist({
+      stablecoinPackageId,
+      blocklisterKey: blocklister.privateKey.toString(),
+      addressFile,
+      reportFile,
+      rpcUrl
+    });
+
+    // Ensure that the request will be made to the correct package.
+    sinon.assert.calledWithNew(stablecoinPackageStub);
+    sinon.assert.calledWithExactly(
+      stablecoinPackageStub,
+      getAptosClient(rpcUrl),
+      stablecoinPackageId
+    );
+
+    // Ensure that only the blocklisted addresses are submitted.
+    sinon.assert.calledTwice(unblocklistFn);
+
+    const expectedResults = [
+      {
+        address: addresses[0],
+        caseId: "CASE-1",
+        status: "submitted",
+        txHash: "0x1"
+      },
+      { address: addresses[1], caseId: "CASE-2", status: "skipped" },
+      { address: addresses[2], status: "submitted", txHash: "0x3" }
+    ];
+    assert.deepStrictEqual(results, expectedResults);
+    sinon.assert.calledOnceWithExactly(
+      writeAddressListReportStub,
+      reportFile,
+      expectedResults
+    );
+  });
+
+  it("should continue with the remaining addresses if an address fails", async () => {
+    const blocklister = Account.generate();
+
+    const unblocklistFn = sinon.stub();
+    unblocklistFn.withArgs(blocklister, addresses[0]).resolves({ hash: "0x1" });
+    unblocklistFn
+      .withArgs(blocklister, addresses[1])
+      .rejects(new Error("Unexpected transaction failure"));
+    unblocklistFn.withArgs(blocklister, addresses[2]).resolves({ hash: "0x3" });
+    stablecoinPackageStub.returns({
+      blocklistable: {
+        blocklister: sinon.fake.resolves(blocklister.accountAddress.toString()),
+        isBlocklisted: sinon.fake.resolves(true),
+        unblocklist: unblocklistFn
+      }
+    });
+
+    const results = await unblocklist({
+      stablecoinPackageId,
+      blocklisterKey: blocklister.privateKey.toString(),
+      addressFile,
+      reportFile,
+      rpcUrl
+    });
+
+    sinon.assert.calledThrice(unblocklistFn);
+    assert.deepStrictEqual(
+      results.map(({ status }) => status),
+      ["submitted", "failed", "submitted"]
+    );
+    assert.strictEqual(
+      results[1].error,
+      "Error: Unexpected transaction failure"
+    );
+    sinon.assert.calledOnce(writeAddressListReportStub);
+  });
+
+  it("should fail if the signer is not the blocklister", async () => {
+    const blocklister = Account.generate().accountAddress.toString();
+    const signer = Account.generate();
+
+    const unblocklistFn = sinon.fake();
+    stablecoinPackageStub.returns({
+      blocklistable: {
+        blocklister: sinon.fake.resolves(blocklister),
+        isBlocklisted: sinon.fake.resolves(false),
+        unblocklist: unblocklistFn
+      }
+    });
+
+    await assert.rejects(
+      unblocklist({
+        stablecoinPackageId,
+        blocklisterKey: signer.privateKey.toString(),
+        addressFile,
+        reportFile,
+        rpcUrl
+      }),
+      new RegExp(`is not the blocklister ${blocklister}`)
+    );
+    sinon.assert.notCalled(unblocklistFn);
+    sinon.assert.notCalled(writeAddressListReportStub);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { unpause } from "../../scripts/typescript/unpause";
+import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { getAptosClient } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
+
+describe("unpause", () => {
+  const aptosExtensionsPackageId = AccountAddress.ZERO.toString();
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const rpcUrl = "http://localhost:8080";
+
+  let aptosExtensionsPackageStub: SinonStub;
+  let stablecoinPackageStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    aptosExtensionsPackageStub = sinon.stub(
+      aptosExtensionsPackageModule,
+      "AptosExtensionsPackage"
+    );
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+    stablecoinPackageStub.returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.returns(stablecoinAddress)
+      }
+    });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function unpauseEventOutput(objAddress: string) {
+    return {
+      events: [
+        {
+          type: `${aptosExtensionsPackageId}::pausable::Unpause`,
+          data: { obj_address: objAddress }
+        }
+      ]
+    };
+  }
+
+  it("should call the unpause function with correct inputs and verify the new state", async () => {
+    const pauser = Account.generate();
+
+    const unpauseFn = sinon.fake.resolves(
+      unpauseEventOutput(stablecoinAddress)
+    );
+    const isPausedFn = sinon.stub();
+    isPausedFn.onFirstCall().resolves(true);
+    isPausedFn.onSecondCall().resolves(false);
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.resolves(pauser.accountAddress.toString()),
+        isPaused: isPausedFn,
+        unpause: unpauseFn
+      }
+    });
+
+    await unpause({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      pauserKey: pauser.privateKey.toString(),
+      rpcUrl
+    });
+
+    // Ensure that the request will be made to the correct package.
+    sinon.assert.calledWithNew(aptosExtensionsPackageStub);
+    sinon.assert.calledWithExactly(
+      aptosExtensionsPackageStub,
+      getAptosClient(rpcUrl),
+      aptosExtensionsPackageId
+    );
+
+    // Ensure that the request is correct.
+    assert.strictEqual(
+      unpauseFn.calledOnceWithExactly(pauser, stablecoinAddress),
+      true
+    );
+    sinon.assert.calledTwice(isPausedFn);
+  });
+
+  it("should fail if the sender is not the pauser", async () => {
+    const pauser = AccountAddress.THREE.toString();
+    const sender = Account.generate();
+
+    const unpauseFn = sinon.fake();
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.resolves(pauser),
+        isPaused: sinon.fake.resolves(true),
+        unpause: unpauseFn
+      }
+    });
+
+    await assert.rejects(
+      unpause({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        pauserKey: sender.privateKey.toString(),
+        rpcUrl
+      }),
+      new RegExp(`is not the pauser ${pauser}`)
+    );
+    sinon.assert.notCalled(unpauseFn);
+  });
+
+  it("should fail if the Unpause event is not emitted", async () => {
+    const pauser = Account.generate();
+
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.resolves(pauser.accountAddress.toString()),
+        isPaused: sinon.fake.resolves(true),
+        unpause: sinon.fake.resolves({ events: [] })
+      }
+    });
+
+    await assert.rejects(
+      unpause({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        pauserKey: pauser.privateKey.toString(),
+        rpcUrl
+      }),
+      /Event .*::pausable::Unpause not found/
+    );
+  });
+
+  it("should fail if the stablecoin is still paused after the transaction", async () => {
+    const pauser = Account.generate();
+
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.resolves(pauser.accountAddress.toString()),
+        isPaused: sinon.fake.resolves(true),
+        unpause: sinon.fake.resolves(unpauseEventOutput(stablecoinAddress))
+      }
+    });
+
+    await assert.rejects(
+      unpause({
+        aptosExtensionsPackageId,
+        stablecoinPackageId,
+        pauserKey: pauser.privateKey.toString(),
+        rpcUrl
+      }),
+      /The stablecoin is still paused after the transaction!/
+    );
+  });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const pauser = AccountAddress.THREE.toString();
+
+    const payload: InputEntryFunctionData = {
+      function: "0x1::pausable::unpause",
+      functionArguments: []
+    };
+    const unpauseFn = sinon.fake();
+    const unpausePayloadFn = sinon.fake.returns(payload);
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.resolves(pauser),
+        isPaused: sinon.fake.resolves(true),
+        unpause: unpauseFn,
+        unpausePayload: unpausePayloadFn
+      }
+    });
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await unpause({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      rpcUrl,
+      buildOnly: true,
+      sender: pauser
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    assert.strictEqual(
+      unpausePayloadFn.calledOnceWithExactly(stablecoinAddress),
+      true
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: payload,
+      options: { buildOnly: true, sender: pauser }
+    });
+    sinon.assert.notCalled(unpauseFn);
+  });
+});
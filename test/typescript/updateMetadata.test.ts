@@ -0,0 +1,229 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  Aptos,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
+import { updateMetadata } from "../../scripts/typescript/updateMetadata";
+import { getAptosClient } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
+
+describe("update-metadata", () => {
+  const stablecoinPackageId = AccountAddress.ONE.toString();
+  const stablecoinAddress = AccountAddress.TWO.toString();
+  const rpcUrl = "http://localhost:8080";
+
+  const faMetadataBefore = {
+    name: "USDC",
+    symbol: "USDC",
+    decimals: 6,
+    icon_uri: "https://circle.com/usdc-icon",
+    project_uri: "https://circle.com/usdc"
+  };
+  const faMetadataAfter = {
+    ...faMetadataBefore,
+    name: "USD Coin",
+    project_uri: "https://circle.com/new"
+  };
+
+  let stablecoinPackageStub: SinonStub;
+  let getAccountResourceStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    stablecoinPackageStub = sinon.stub(
+      stablecoinPackageModule,
+      "StablecoinPackage"
+    );
+    getAccountResourceStub = sinon.stub(Aptos.prototype, "getAccountResource");
+    getAccountResourceStub.onFirstCall().resolves(faMetadataBefore);
+    getAccountResourceStub.onSecondCall().resolves(faMetadataAfter);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function metadataPackage(
+    metadataUpdater: string,
+    overrides: Record<string, unknown> = {}
+  ) {
+    return {
+      stablecoin: {
+        stablecoinAddress: sinon.fake.resolves(stablecoinAddress)
+      },
+      metadata: {
+        metadataUpdater: sinon.fake.resolves(metadataUpdater),
+        updateMetadataPayload: sinon.fake.returns({
+          function: `${stablecoinPackageId}::metadata::update_metadata`,
+          functionArguments: []
+        }),
+        updateMetadata: sinon.fake.resolves({
+          events: [
+            {
+              type: `${stablecoinPackageId}::metadata::MetadataUpdated`,
+              data: faMetadataAfter
+            }
+          ]
+        }),
+        ...overrides
+      }
+    };
+  }
+
+  it("should call the updateMetadata function with correct inputs and verify the new metadata", async () => {
+    const metadataUpdater = Account.generate();
+    const stablecoinPackage = metadataPackage(
+      metadataUpdater.accountAddress.toString()
+    );
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await updateMetadata({
+      stablecoinPackageId,
+      metadataUpdaterKey: metadataUpdater.privateKey.toString(),
+      name: "USD Coin",
+      projectUri: "https://circle.com/new",
+      rpcUrl
+    });
+
+    // Ensure that the request will be made to the correct package.
+    sinon.assert.calledWithNew(stablecoinPackageStub);
+    sinon.assert.calledWithExactly(
+      stablecoinPackageStub,
+      getAptosClient(rpcUrl),
+      stablecoinPackageId
+    );
+
+    // Ensure that the request is correct.
+    const expectedUpdate = {
+      name: "USD Coin",
+      symbol: undefined,
+      iconUri: undefined,
+      projectUri: "https://circle.com/new"
+    };
+    sinon.assert.calledOnceWithExactly(
+      stablecoinPackage.metadata.updateMetadata,
+      metadataUpdater,
+      expectedUpdate
+    );
+    sinon.assert.calledTwice(getAccountResourceStub);
+  });
+
+  it("should fail if the sender is not the metadata updater", async () => {
+    const metadataUpdater = Account.generate().accountAddress.toString();
+    const sender = Account.generate();
+    const stablecoinPackage = metadataPackage(metadataUpdater);
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    await assert.rejects(
+      updateMetadata({
+        stablecoinPackageId,
+        metadataUpdaterKey: sender.privateKey.toString(),
+        name: "USD Coin",
+        rpcUrl
+      }),
+      new RegExp(`is not the metadata updater ${metadataUpdater}`)
+    );
+    sinon.assert.notCalled(stablecoinPackage.metadata.updateMetadata);
+  });
+
+  it("should fail if the MetadataUpdated event does not match the update", async () => {
+    const metadataUpdater = Account.generate();
+    stablecoinPackageStub.returns(
+      metadataPackage(metadataUpdater.accountAddress.toString(), {
+        updateMetadata: sinon.fake.resolves({
+          events: [
+            {
+              type: `${stablecoinPackageId}::metadata::MetadataUpdated`,
+              data: faMetadataBefore
+            }
+          ]
+        })
+      })
+    );
+
+    await assert.rejects(
+      updateMetadata({
+        stablecoinPackageId,
+        metadataUpdaterKey: metadataUpdater.privateKey.toString(),
+        name: "USD Coin",
+        projectUri: "https://circle.com/new",
+        rpcUrl
+      }),
+      /Unexpected MetadataUpdated event/
+    );
+  });
+
+  it("should fail if the metadata does not match the update after the transaction", async () => {
+    const metadataUpdater = Account.generate();
+    stablecoinPackageStub.returns(
+      metadataPackage(metadataUpdater.accountAddress.toString())
+    );
+    getAccountResourceStub.onSecondCall().resolves(faMetadataBefore);
+
+    await assert.rejects(
+      updateMetadata({
+        stablecoinPackageId,
+        metadataUpdaterKey: metadataUpdater.privateKey.toString(),
+        name: "USD Coin",
+        projectUri: "https://circle.com/new",
+        rpcUrl
+      }),
+      /Unexpected metadata after the transaction/
+    );
+  });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const metadataUpdater = Account.generate().accountAddress.toString();
+    const payload: InputEntryFunctionData = {
+      function: `${stablecoinPackageId}::metadata::update_metadata`,
+      functionArguments: []
+    };
+    const stablecoinPackage = metadataPackage(metadataUpdater, {
+      updateMetadataPayload: sinon.fake.returns(payload)
+    });
+    stablecoinPackageStub.returns(stablecoinPackage);
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await updateMetadata({
+      stablecoinPackageId,
+      symbol: "USDC2",
+      rpcUrl,
+      buildOnly: true,
+      sender: metadataUpdater
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: payload,
+      options: { buildOnly: true, sender: metadataUpdater }
+    });
+    sinon.assert.notCalled(stablecoinPackage.metadata.updateMetadata);
+  });
+});
@@ -16,13 +16,18 @@
  * limitations under the License.
  */
 
-import { Account, AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+  Account,
+  AccountAddress,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
 import { strict as assert } from "assert";
 import sinon, { SinonStub } from "sinon";
 import { updatePauser } from "../../scripts/typescript/updatePauser";
 import * as aptosExtensionsPackageModule from "../../scripts/typescript/packages/aptosExtensionsPackage";
 import * as stablecoinPackageModule from "../../scripts/typescript/packages/stablecoinPackage";
 import { getAptosClient } from "../../scripts/typescript/utils";
+import * as buildOnlyModule from "../../scripts/typescript/utils/buildOnly";
 
 describe("updatePauser", () => {
   let aptosExtensionsPackageStub: SinonStub;
@@ -88,4 +93,60 @@ describe("updatePauser", () => {
       true
     );
   });
+
+  it("should build the transaction for offline signing if --build-only is set", async () => {
+    const aptosExtensionsPackageId = AccountAddress.ZERO.toString();
+    const stablecoinPackageId = AccountAddress.ONE.toString();
+    const stablecoinAddress = AccountAddress.TWO.toString();
+    const owner = AccountAddress.from("0x05").toString();
+    const pauser = AccountAddress.THREE.toString();
+    const newPauser = AccountAddress.FOUR.toString();
+    const rpcUrl = "http://localhost:8080";
+
+    const payload: InputEntryFunctionData = {
+      function: "0x1::pausable::update_pauser",
+      functionArguments: []
+    };
+    const updatePauserFn = sinon.fake();
+    const updatePauserPayloadFn = sinon.fake.returns(payload);
+    aptosExtensionsPackageStub.returns({
+      pausable: {
+        pauser: sinon.fake.returns(pauser),
+        updatePauser: updatePauserFn,
+        updatePauserPayload: updatePauserPayloadFn
+      }
+    });
+
+    stablecoinPackageStub.returns({
+      stablecoin: {
+        stablecoinAddress: sinon.fake.returns(stablecoinAddress)
+      }
+    });
+
+    const buildTransactionStub = sinon.stub(
+      buildOnlyModule,
+      "buildTransactionForOfflineSigning"
+    );
+
+    await updatePauser({
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      newPauser,
+      rpcUrl,
+      buildOnly: true,
+      sender: owner
+    });
+
+    // Ensure that the transaction is built, but not submitted.
+    assert.strictEqual(
+      updatePauserPayloadFn.calledOnceWithExactly(stablecoinAddress, newPauser),
+      true
+    );
+    sinon.assert.calledOnceWithExactly(buildTransactionStub, {
+      aptos: getAptosClient(rpcUrl),
+      data: payload,
+      options: { buildOnly: true, sender: owner }
+    });
+    sinon.assert.notCalled(updatePauserFn);
+  });
 });
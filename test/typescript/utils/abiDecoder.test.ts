@@ -0,0 +1,217 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  Bool,
+  MoveFunction,
+  MoveOption,
+  MoveString,
+  MoveVector,
+  parseTypeTag,
+  Serializable,
+  U128,
+  U256,
+  U64,
+  U8
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import path from "path";
+import { REPOSITORY_ROOT } from "../../../scripts/typescript/utils";
+import {
+  decodeEntryFunctionArguments,
+  findEntryFunctionAbi,
+  readModuleAbis
+} from "../../../scripts/typescript/utils/abiDecoder";
+
+describe("abiDecoder", () => {
+  const TEST_MODULE_ADDRESS = AccountAddress.from(
+    "0x000000000000000000000000000000000000000000000000000000000000cafe"
+  );
+
+  const abis = readModuleAbis(
+    path.join(REPOSITORY_ROOT, "test/typescript/testdata/module_abis.json")
+  );
+
+  function getFunctionAbi(
+    address: AccountAddress,
+    moduleName: string,
+    functionName: string
+  ): MoveFunction {
+    const functionAbi = findEntryFunctionAbi(
+      abis,
+      address,
+      moduleName,
+      functionName
+    );
+    assert(functionAbi != null);
+    return functionAbi;
+  }
+
+  function serialize(args: Serializable[]) {
+    return args.map((arg) => arg.bcsToBytes());
+  }
+
+  describe("findEntryFunctionAbi", () => {
+    it("should find the entry function ABI by address, module and function name", () => {
+      const functionAbi = findEntryFunctionAbi(
+        abis,
+        AccountAddress.ONE,
+        "primary_fungible_store",
+        "transfer"
+      );
+
+      assert.strictEqual(functionAbi?.name, "transfer");
+    });
+
+    it("should not find an entry function in a module at a different address", () => {
+      assert.strictEqual(
+        findEntryFunctionAbi(
+          abis,
+          AccountAddress.TWO,
+          "primary_fungible_store",
+          "transfer"
+        ),
+        undefined
+      );
+    });
+  });
+
+  describe("decodeEntryFunctionArguments", () => {
+    it("should decode 0x1::primary_fungible_store::transfer", () => {
+      const metadata = Account.generate().accountAddress;
+      const recipient = Account.generate().accountAddress;
+
+      const args = decodeEntryFunctionArguments(
+        getFunctionAbi(
+          AccountAddress.ONE,
+          "primary_fungible_store",
+          "transfer"
+        ),
+        [parseTypeTag("0x1::fungible_asset::Metadata")],
+        serialize([metadata, recipient, new U64(1_000_000)])
+      );
+
+      assert.deepStrictEqual(args, [
+        metadata.toString(),
+        recipient.toString(),
+        "1000000"
+      ]);
+    });
+
+    it("should decode 0x1::multisig_account::create_with_owners", () => {
+      const owners = [
+        Account.generate().accountAddress,
+        Account.generate().accountAddress
+      ];
+
+      const args = decodeEntryFunctionArguments(
+        getFunctionAbi(
+          AccountAddress.ONE,
+          "multisig_account",
+          "create_with_owners"
+        ),
+        [],
+        serialize([
+          new MoveVector(owners),
+          new U64(2),
+          MoveVector.MoveString(["name"]),
+          new MoveVector([MoveVector.U8("0x1234"), MoveVector.U8([])])
+        ])
+      );
+
+      assert.deepStrictEqual(args, [
+        owners.map((owner) => owner.toString()),
+        "2",
+        ["name"],
+        ["0x1234", "0x"]
+      ]);
+    });
+
+    it("should decode options, booleans, wide integers and nested vectors", () => {
+      const args = decodeEntryFunctionArguments(
+        getFunctionAbi(TEST_MODULE_ADDRESS, "test_module", "set_values"),
+        [],
+        serialize([
+          new MoveOption(new MoveString("USDC")),
+          new MoveOption<U64>(),
+          new Bool(true),
+          new U8(6),
+          new U128(BigInt(2) ** BigInt(100)),
+          new U256(BigInt(2) ** BigInt(200)),
+          new MoveVector([MoveVector.U64([1, 2]), MoveVector.U64([])])
+        ])
+      );
+
+      assert.deepStrictEqual(args, [
+        "USDC",
+        null,
+        true,
+        6,
+        (BigInt(2) ** BigInt(100)).toString(),
+        (BigInt(2) ** BigInt(200)).toString(),
+        [["1", "2"], []]
+      ]);
+    });
+
+    it("should fail if the number of arguments does not match the ABI", () => {
+      assert.throws(
+        () =>
+          decodeEntryFunctionArguments(
+            getFunctionAbi(
+              TEST_MODULE_ADDRESS,
+              "test_module",
+              "set_two_values"
+            ),
+            [],
+            serialize([new U64(1)])
+          ),
+        /Expected 2 arguments for set_two_values, but got 1!/
+      );
+    });
+
+    it("should fail if an argument has trailing bytes", () => {
+      assert.throws(
+        () =>
+          decodeEntryFunctionArguments(
+            getFunctionAbi(TEST_MODULE_ADDRESS, "test_module", "set_u8"),
+            [],
+            serialize([new U64(1)])
+          ),
+        /Unexpected trailing bytes when decoding argument 0 as u8!/
+      );
+    });
+
+    it("should fail for unsupported argument types", () => {
+      assert.throws(
+        () =>
+          decodeEntryFunctionArguments(
+            getFunctionAbi(
+              TEST_MODULE_ADDRESS,
+              "test_module",
+              "set_fixed_point"
+            ),
+            [],
+            serialize([new U64(1)])
+          ),
+        /Unsupported argument type: 0x1::fixed_point32::FixedPoint32/
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import sinon, { SinonStub } from "sinon";
+import {
+  readAddressList,
+  writeAddressListReport
+} from "../../../scripts/typescript/utils/addressList";
+
+describe("addressList", () => {
+  const address = AccountAddress.TWO.toString();
+  const otherAddress = AccountAddress.THREE.toString();
+
+  let readFileSyncStub: SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(fs, "existsSync").returns(true);
+    readFileSyncStub = sinon.stub(fs, "readFileSync");
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("readAddressList", () => {
+    it("should read a JSON list of addresses and entries with case IDs", () => {
+      readFileSyncStub.returns(
+        JSON.stringify([
+          "0x2",
+          { address: otherAddress, caseId: "CASE-1" },
+          { address: "0x4" }
+        ])
+      );
+
+      assert.deepStrictEqual(readAddressList("addresses.json"), [
+        { address },
+        { address: otherAddress, caseId: "CASE-1" },
+        { address: AccountAddress.FOUR.toString() }
+      ]);
+    });
+
+    it("should read a CSV list of addresses with an optional header", () => {
+      readFileSyncStub.returns(
+        `address,caseId\n0x2,CASE-1\r\n\n${otherAddress}\n`
+      );
+
+      assert.deepStrictEqual(readAddressList("addresses.csv"), [
+        { address, caseId: "CASE-1" },
+        { address: otherAddress }
+      ]);
+    });
+
+    it("should fail if an address is invalid", () => {
+      readFileSyncStub.returns("0xZZ\n");
+
+      assert.throws(() => readAddressList("addresses.csv"));
+    });
+
+    it("should fail if an address is in its short form or truncated", () => {
+      const truncatedAddress = otherAddress.slice(0, -1);
+      for (const invalidAddress of ["0xabc", truncatedAddress]) {
+        readFileSyncStub.returns(JSON.stringify([address, invalidAddress]));
+
+        assert.throws(
+          () => readAddressList("addresses.json"),
+          /Hex string is too short/
+        );
+      }
+    });
+
+    it("should fail if an address is listed more than once", () => {
+      readFileSyncStub.returns(JSON.stringify(["0x2", address]));
+
+      assert.throws(
+        () => readAddressList("addresses.json"),
+        new RegExp(`Address ${address} is listed more than once!`)
+      );
+    });
+
+    it("should fail if the file does not exist", () => {
+      (fs.existsSync as SinonStub).returns(false);
+
+      assert.throws(
+        () => readAddressList("missing.json"),
+        /Failed to load address list file: missing.json/
+      );
+    });
+  });
+
+  describe("writeAddressListReport", () => {
+    it("should write the results as JSON", () => {
+      const writeFileSyncStub = sinon.stub(fs, "writeFileSync");
+      const results = [
+        { address, status: "submitted" as const, txHash: "0x1" },
+        { address: otherAddress, status: "skipped" as const }
+      ];
+
+      writeAddressListReport("report.json", results);
+
+      sinon.assert.calledOnce(writeFileSyncStub);
+      assert.strictEqual(writeFileSyncStub.getCall(0).args[0], "report.json");
+      assert.deepStrictEqual(
+        JSON.parse(writeFileSyncStub.getCall(0).args[1] as string),
+        results
+      );
+    });
+  });
+});
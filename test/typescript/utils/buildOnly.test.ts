@@ -0,0 +1,169 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Account,
+  AccountAddress,
+  Deserializer,
+  Hex,
+  SimpleTransaction,
+  U64,
+  UserTransactionResponse
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon from "sinon";
+import { executeTransaction } from "../../../scripts/typescript/executeTransaction";
+import { generateKeypair } from "../../../scripts/typescript/generateKeypair";
+import {
+  getAptosClient,
+  LOCAL_RPC_URL
+} from "../../../scripts/typescript/utils";
+import {
+  buildTransactionForOfflineSigning,
+  getSenderAddress,
+  getSigner
+} from "../../../scripts/typescript/utils/buildOnly";
+
+describe("buildOnly", () => {
+  const aptos = getAptosClient(LOCAL_RPC_URL);
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("getSigner", () => {
+    it("should return the signer for the private key", () => {
+      const account = Account.generate();
+
+      assert.deepStrictEqual(getSigner(account.privateKey.toString()), account);
+    });
+
+    it("should fail if the private key is not set", () => {
+      assert.throws(() => getSigner(undefined), /Missing private key!/);
+    });
+  });
+
+  describe("getSenderAddress", () => {
+    it("should derive the sender address from the private key", () => {
+      const account = Account.generate();
+
+      assert.deepStrictEqual(
+        getSenderAddress(account.privateKey.toString(), {}),
+        account.accountAddress
+      );
+    });
+
+    it("should read the sender address from the --sender option in build-only mode", () => {
+      const sender = Account.generate().accountAddress.toString();
+
+      assert.deepStrictEqual(
+        getSenderAddress(undefined, { buildOnly: true, sender }),
+        AccountAddress.fromStrict(sender)
+      );
+    });
+
+    it("should fail if --sender is not set in build-only mode", () => {
+      assert.throws(
+        () => getSenderAddress(undefined, { buildOnly: true }),
+        /--sender must be set when --build-only is set!/
+      );
+    });
+  });
+
+  describe("buildTransactionForOfflineSigning", () => {
+    it("should build a transaction that can be signed offline and executed", async () => {
+      const sender = await generateKeypair({ prefund: true });
+      const recipient = Account.generate();
+
+      const builtTransaction = await buildTransactionForOfflineSigning({
+        aptos,
+        data: {
+          function: "0x1::aptos_account::transfer",
+          functionArguments: [recipient.accountAddress, new U64(1000)]
+        },
+        options: {
+          buildOnly: true,
+          sender: sender.accountAddress.toString(),
+          sequenceNumber: "0",
+          expirationSecs: "600",
+          maxGasAmount: "10000",
+          gasUnitPrice: "100"
+        }
+      });
+
+      assert.strictEqual(
+        builtTransaction.sender,
+        sender.accountAddress.toString()
+      );
+      assert.strictEqual(builtTransaction.sequenceNumber, "0");
+      assert.strictEqual(builtTransaction.maxGasAmount, "10000");
+      assert.strictEqual(builtTransaction.gasUnitPrice, "100");
+      assert.strictEqual(
+        builtTransaction.chainId,
+        (await aptos.getChainId()).toString()
+      );
+
+      // The transaction should be signed offline, and executed separately.
+      const transaction = SimpleTransaction.deserialize(
+        new Deserializer(
+          Hex.fromHexString(builtTransaction.txBytes).toUint8Array()
+        )
+      );
+      const result = (await executeTransaction({
+        rpcUrl: LOCAL_RPC_URL,
+        txBytes: builtTransaction.txBytes,
+        publicKey: sender.publicKey.bcsToHex().toString(),
+        signature: sender.signTransaction(transaction).bcsToHex().toString()
+      })) as UserTransactionResponse;
+
+      assert.strictEqual(result.success, true);
+    });
+
+    for (const [option, key] of [
+      ["--expiration-secs", "expirationSecs"],
+      ["--max-gas-amount", "maxGasAmount"],
+      ["--gas-unit-price", "gasUnitPrice"]
+    ]) {
+      it(`should fail if ${option} is not a non-negative integer`, async () => {
+        for (const value of ["-1", "1.5", "abc", ""]) {
+          await assert.rejects(
+            buildTransactionForOfflineSigning({
+              aptos,
+              data: {
+                function: "0x1::aptos_account::transfer",
+                functionArguments: [AccountAddress.ONE, new U64(1000)]
+              },
+              options: {
+                buildOnly: true,
+                sender: AccountAddress.ONE.toString(),
+                [key]: value
+              }
+            }),
+            new RegExp(
+              `${option} must be a non-negative integer, got ${value}!`
+            )
+          );
+        }
+      });
+    }
+  });
+});
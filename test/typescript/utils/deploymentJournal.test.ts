@@ -0,0 +1,97 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DeploymentJournal } from "../../../scripts/typescript/utils/deploymentJournal";
+
+describe("DeploymentJournal", () => {
+  const deployment = {
+    deployer: AccountAddress.ONE.toStringLong(),
+    aptosExtensionsPackageId: AccountAddress.TWO.toStringLong(),
+    stablecoinPackageId: AccountAddress.THREE.toStringLong()
+  };
+
+  let tmpDir: string;
+  let journalFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-journal-"));
+    journalFile = path.join(tmpDir, "journal.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should persist each recorded step and restore them when resuming", () => {
+    const journal = DeploymentJournal.open(journalFile, deployment, false);
+    journal.record({ name: "step 1", status: "executed", txHash: "0x1" });
+    journal.record({ name: "step 2", status: "skipped" });
+
+    const data = JSON.parse(fs.readFileSync(journalFile, "utf8"));
+    assert.deepStrictEqual(
+      data.steps.map((step: { name: string }) => step.name),
+      ["step 1", "step 2"]
+    );
+    assert.strictEqual(data.steps[0].txHash, "0x1");
+
+    const resumedJournal = DeploymentJournal.open(
+      journalFile,
+      deployment,
+      true
+    );
+    assert.strictEqual(resumedJournal.isExecuted("step 1"), true);
+    assert.strictEqual(resumedJournal.isExecuted("step 2"), false);
+    assert.strictEqual(resumedJournal.isExecuted("step 3"), false);
+  });
+
+  it("should fail if the journal file exists and --resume is unset", () => {
+    DeploymentJournal.open(journalFile, deployment, false);
+
+    assert.throws(
+      () => DeploymentJournal.open(journalFile, deployment, false),
+      /already exists. Set --resume to continue the deployment./
+    );
+  });
+
+  it("should fail if the journal file belongs to a different deployment", () => {
+    DeploymentJournal.open(journalFile, deployment, false);
+
+    assert.throws(
+      () =>
+        DeploymentJournal.open(
+          journalFile,
+          { ...deployment, deployer: AccountAddress.FOUR.toStringLong() },
+          true
+        ),
+      /belongs to a deployment with deployer/
+    );
+  });
+
+  it("should only keep the steps in memory if no file is set", () => {
+    const journal = DeploymentJournal.open(undefined, deployment, false);
+    journal.record({ name: "step 1", status: "executed", txHash: "0x1" });
+
+    assert.strictEqual(journal.isExecuted("step 1"), true);
+    assert.deepStrictEqual(fs.readdirSync(tmpDir), []);
+  });
+});
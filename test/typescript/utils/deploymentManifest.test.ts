@@ -0,0 +1,167 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AccountAddress,
+  AptosApiError,
+  AptosApiType,
+  AptosResponse,
+  TransactionResponse,
+  TransactionResponseType
+} from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sinon from "sinon";
+import { getAptosClient } from "../../../scripts/typescript/utils";
+import {
+  DeploymentManifest,
+  getManifestPackageId,
+  getManifestTransactions,
+  readDeploymentManifest,
+  readMoveCompilerSettings,
+  writeDeploymentManifest
+} from "../../../scripts/typescript/utils/deploymentManifest";
+
+describe("deploymentManifest", () => {
+  let tmpDir: string;
+  let manifestFile: string;
+  let manifest: DeploymentManifest;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-manifest-"));
+    manifestFile = path.join(tmpDir, "manifest.json");
+    manifest = {
+      chainId: 4,
+      deployer: AccountAddress.ONE.toStringLong(),
+      seeds: { stablecoin: "stablecoin" },
+      packageIds: { stablecoin: AccountAddress.TWO.toStringLong() },
+      transactions: [{ name: "publish stablecoin", hash: "0x1", version: "1" }],
+      compilerVersion: "2",
+      languageVersion: "2",
+      sourceUploaded: false
+    };
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should read a written manifest", () => {
+    writeDeploymentManifest(manifestFile, manifest);
+
+    const result = readDeploymentManifest(manifestFile);
+    assert.deepStrictEqual(result, manifest);
+    assert.strictEqual(
+      getManifestPackageId(result, "stablecoin"),
+      AccountAddress.TWO.toStringLong()
+    );
+  });
+
+  it("should fail if the manifest does not contain a package", () => {
+    assert.throws(
+      () => getManifestPackageId(manifest, "aptos_extensions"),
+      /The manifest does not contain the aptos_extensions package!/
+    );
+  });
+
+  it("should fail if the manifest is invalid", () => {
+    fs.writeFileSync(
+      manifestFile,
+      JSON.stringify({ ...manifest, deployer: "0x123" })
+    );
+
+    assert.throws(() => readDeploymentManifest(manifestFile));
+  });
+
+  it("should read the Move compiler settings from the Makefile", () => {
+    assert.deepStrictEqual(readMoveCompilerSettings(), {
+      compilerVersion: "2",
+      languageVersion: "2"
+    });
+  });
+
+  it("should recover the transactions of the steps from the journal", async () => {
+    const aptos = getAptosClient();
+    const getTransactionByHashStub = sinon
+      .stub(aptos, "getTransactionByHash")
+      .callsFake(async ({ transactionHash }) => {
+        if (transactionHash === "0x4") {
+          throw new AptosApiError({
+            apiType: AptosApiType.FULLNODE,
+            aptosRequest: { url: "", method: "GET" },
+            aptosResponse: { status: 404, data: {} } as AptosResponse<
+              unknown,
+              unknown
+            >
+          });
+        }
+        return {
+          type: TransactionResponseType.User,
+          success: transactionHash !== "0x3",
+          version: "30"
+        } as TransactionResponse;
+      });
+    const timestamp = new Date().toISOString();
+
+    const result = await getManifestTransactions(aptos, [
+      // Executed in the first run.
+      {
+        name: "first",
+        status: "executed",
+        txHash: "0x1",
+        txVersion: "10",
+        timestamp
+      },
+      // Submitted in the first run, which stopped before it completed.
+      { name: "second", status: "submitted", txHash: "0x2", timestamp },
+      // Failed in the first run, and executed again in the second run.
+      { name: "third", status: "submitted", txHash: "0x3", timestamp },
+      { name: "first", status: "skipped", timestamp },
+      { name: "second", status: "skipped", timestamp },
+      {
+        name: "third",
+        status: "executed",
+        txHash: "0x5",
+        txVersion: "50",
+        timestamp
+      },
+      // Submitted but never committed, or took effect without being recorded.
+      { name: "fourth", status: "submitted", txHash: "0x4", timestamp },
+      { name: "fourth", status: "skipped", timestamp },
+      { name: "fifth", status: "skipped", timestamp }
+    ]);
+
+    assert.deepStrictEqual(result, {
+      transactions: [
+        { name: "first", hash: "0x1", version: "10" },
+        { name: "second", hash: "0x2", version: "30" },
+        { name: "third", hash: "0x5", version: "50" }
+      ],
+      unrecoveredSteps: ["fourth", "fifth"]
+    });
+    assert.deepStrictEqual(
+      getTransactionByHashStub.args.map(
+        ([{ transactionHash }]) => transactionHash
+      ),
+      ["0x2", "0x4"]
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account, Aptos, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import * as utilsModule from "../../../scripts/typescript/utils";
+import {
+  DeploymentStep,
+  formatApt,
+  renderSimulatedSteps,
+  simulateDeploymentSteps
+} from "../../../scripts/typescript/utils/deploymentSteps";
+
+describe("deploymentSteps", () => {
+  const deployer = Account.generate();
+
+  let executeTransactionStub: SinonStub;
+
+  beforeEach(() => {
+    executeTransactionStub = sinon
+      .stub(utilsModule, "executeTransaction")
+      .resolves();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function fakeAptos(simulations: object[]) {
+    const simulate = sinon.stub();
+    simulations.forEach((simulation, i) =>
+      simulate.onCall(i).resolves([simulation])
+    );
+    return {
+      transaction: {
+        build: { simple: sinon.fake.resolves({}) },
+        simulate: { simple: simulate }
+      }
+    } as unknown as Aptos;
+  }
+
+  function step(name: string): DeploymentStep {
+    return {
+      name,
+      isDone: sinon.fake.resolves(false),
+      payload: sinon.fake.resolves({
+        function: `0x1::module::${name}`,
+        functionArguments: []
+      })
+    };
+  }
+
+  function simulation(
+    success: boolean,
+    gasUsed: number,
+    events: string[]
+  ): UserTransactionResponse {
+    return {
+      success,
+      vm_status: success ? "Executed successfully" : "Move abort",
+      gas_used: gasUsed.toString(),
+      events: [
+        ...events.map((type) => ({ type })),
+        { type: "0x1::transaction_fee::FeeStatement" }
+      ]
+    } as UserTransactionResponse;
+  }
+
+  it("should simulate each step before executing it on the stand-in", async () => {
+    const aptos = fakeAptos([
+      simulation(true, 100, ["0x1::code::PublishPackage"]),
+      simulation(true, 50, ["0x2::treasury::ControllerConfigured"])
+    ]);
+    const targetAptos = fakeAptos([
+      simulation(true, 100, ["0x1::code::PublishPackage"])
+    ]);
+
+    const simulatedSteps = await simulateDeploymentSteps(
+      aptos,
+      deployer,
+      [step("first"), step("second")],
+      targetAptos
+    );
+
+    assert.deepStrictEqual(simulatedSteps, [
+      {
+        name: "first",
+        gasUsed: BigInt(100),
+        events: ["0x1::code::PublishPackage"]
+      },
+      {
+        name: "second",
+        gasUsed: BigInt(50),
+        events: ["0x2::treasury::ControllerConfigured"]
+      }
+    ]);
+    sinon.assert.calledTwice(executeTransactionStub);
+    sinon.assert.calledOnce(
+      targetAptos.transaction.simulate.simple as SinonStub
+    );
+  });
+
+  it("should fail if a simulation fails", async () => {
+    const aptos = fakeAptos([
+      simulation(true, 100, []),
+      simulation(false, 10, [])
+    ]);
+
+    await assert.rejects(
+      simulateDeploymentSteps(aptos, deployer, [step("first"), step("second")]),
+      /The simulation of 'second' failed with Move abort!/
+    );
+    sinon.assert.calledOnce(executeTransactionStub);
+  });
+
+  it("should fail if the first step fails on the target network", async () => {
+    const aptos = fakeAptos([simulation(true, 100, [])]);
+    const targetAptos = fakeAptos([simulation(false, 10, [])]);
+
+    await assert.rejects(
+      simulateDeploymentSteps(aptos, deployer, [step("first")], targetAptos),
+      /The simulation of 'first' failed on the target network with Move abort!/
+    );
+    sinon.assert.notCalled(executeTransactionStub);
+  });
+
+  it("should render the steps with the estimated cost", () => {
+    const table = renderSimulatedSteps(
+      [
+        {
+          name: "first",
+          gasUsed: BigInt(1500),
+          events: ["0x1::code::PublishPackage"]
+        },
+        { name: "second", gasUsed: BigInt(500), events: [] }
+      ],
+      BigInt(100)
+    );
+
+    assert(table.includes("first  | 1500      | code::PublishPackage"));
+    assert(table.includes("Total gas units: 2000"));
+    assert(table.includes("Estimated cost: 0.002 APT"));
+  });
+
+  it("should format APT amounts without losing precision", () => {
+    assert.strictEqual(formatApt(BigInt(1)), "0.00000001");
+    assert.strictEqual(formatApt(BigInt(200_000_000)), "2");
+    assert.strictEqual(
+      formatApt(BigInt("123456789012345678901")),
+      "1234567890123.45678901"
+    );
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress, Aptos, TransactionResponse } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon, { SinonStub } from "sinon";
+import { getAptosClient } from "../../../scripts/typescript/utils";
+import {
+  DetailedScannedEvent,
+  EventCheckpoint,
+  scanStablecoinEvents
+} from "../../../scripts/typescript/utils/eventScanner";
+
+describe("eventScanner", () => {
+  const aptosExtensionsPackageId = AccountAddress.ONE.toString();
+  const stablecoinPackageId = AccountAddress.TWO.toString();
+  const stablecoinAddress = AccountAddress.THREE.toString();
+  const otherStablecoinAddress = AccountAddress.FOUR.toString();
+
+  let aptos: Aptos;
+  let getEventsStub: SinonStub;
+  let getTransactionByVersionStub: SinonStub;
+
+  beforeEach(() => {
+    aptos = getAptosClient();
+    getEventsStub = sinon.stub(aptos, "getEvents");
+    getTransactionByVersionStub = sinon
+      .stub(aptos, "getTransactionByVersion")
+      .callsFake(
+        async ({ ledgerVersion }) =>
+          ({
+            timestamp: String(BigInt(ledgerVersion) * BigInt(1_000_000)),
+            hash: `0x${ledgerVersion}`,
+            sender: "0x5"
+          }) as unknown as TransactionResponse
+      );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function rawEvent(
+    version: number,
+    eventIndex: number,
+    type: string,
+    data: unknown
+  ) {
+    return {
+      transaction_version: version,
+      event_index: eventIndex,
+      type,
+      data
+    };
+  }
+
+  it("should page through the events and report the checkpoint of each page", async () => {
+    getEventsStub.onCall(0).resolves([
+      rawEvent(10, 0, `${stablecoinPackageId}::treasury::Mint`, {
+        minter: "0x5",
+        amount: "100"
+      }),
+      rawEvent(10, 1, `${aptosExtensionsPackageId}::pausable::Pause`, {
+        obj_address: stablecoinAddress
+      })
+    ]);
+    getEventsStub.onCall(1).resolves([
+      // The aptos_extensions package is shared, so events for other stablecoins are skipped.
+      rawEvent(12, 0, `${aptosExtensionsPackageId}::pausable::Pause`, {
+        obj_address: otherStablecoinAddress
+      })
+    ]);
+
+    const pages: [DetailedScannedEvent[], EventCheckpoint][] = [];
+    const checkpoint = await scanStablecoinEvents({
+      aptos,
+      aptosExtensionsPackageId,
+      stablecoinPackageId,
+      stablecoinAddress,
+      pageSize: 2,
+      withTransactionDetails: true,
+      onPage: (events, pageCheckpoint) => {
+        pages.push([events, pageCheckpoint]);
+      }
+    });
+
+    assert.deepStrictEqual(checkpoint, {
+      transactionVersion: "12",
+      eventIndex: 0
+    });
+    assert.strictEqual(pages.length, 2);
+
+    const [firstPage, firstCheckpoint] = pages[0];
+    assert.deepStrictEqual(firstCheckpoint, {
+      transactionVersion: "10",
+      eventIndex: 1
+    });
+    assert.deepStrictEqual(
+      firstPage.map((event) => event.type),
+      ["treasury::Mint", "pausable::Pause"]
+    );
+    assert.strictEqual(firstPage[0].transactionVersion, BigInt(10));
+    assert.strictEqual(firstPage[0].timestamp, "1970-01-01T00:00:10.000Z");
+    assert.strictEqual(firstPage[0].transactionHash, "0x10");
+    assert.strictEqual(firstPage[0].sender, "0x5");
+    assert.deepStrictEqual(pages[1][0], []);
+
+    // Ensure that the second page starts after the first page.
+    const where = getEventsStub.getCall(1).args[0].options.where;
+    assert.deepStrictEqual(where._and, [
+      {
+        _or: [
+          { transaction_version: { _gt: "10" } },
+          { transaction_version: { _eq: "10" }, event_index: { _gt: 1 } }
+        ]
+      }
+    ]);
+  });
+
+  it("should resume after the given checkpoint", async () => {
+    getEventsStub.resolves([]);
+
+    const checkpoint = { transactionVersion: "42", eventIndex: 3 };
+    const onPage = sinon.fake();
+    const result = await scanStablecoinEvents({
+      aptos,
+      stablecoinPackageId,
+      stablecoinAddress,
+      checkpoint,
+      onPage
+    });
+
+    assert.deepStrictEqual(result, checkpoint);
+    sinon.assert.notCalled(onPage);
+
+    const where = getEventsStub.getCall(0).args[0].options.where;
+    assert.deepStrictEqual(where._and[0]._or[0], {
+      transaction_version: { _gt: "42" }
+    });
+    assert.strictEqual(where._and.length, 1);
+    // Only the stablecoin package's events are queried.
+    assert.deepStrictEqual(where._or, [
+      { indexed_type: { _like: `${stablecoinPackageId}::%` } }
+    ]);
+  });
+
+  it("should stop after the given transaction version", async () => {
+    getEventsStub.resolves([]);
+
+    await scanStablecoinEvents({
+      aptos,
+      stablecoinPackageId,
+      stablecoinAddress,
+      maxTransactionVersion: BigInt(99),
+      onPage: sinon.fake()
+    });
+
+    const where = getEventsStub.getCall(0).args[0].options.where;
+    assert.deepStrictEqual(where._and, [
+      { transaction_version: { _lte: "99" } }
+    ]);
+  });
+
+  it("should only query the given event types", async () => {
+    // Event types may include the package address in either form.
+    const packageId = `0x${"2c".padStart(64, "0")}`;
+    getEventsStub.resolves([
+      rawEvent(10, 0, `${packageId}::treasury::Mint`, {
+        minter: "0x5",
+        amount: "100"
+      })
+    ]);
+
+    const onPage = sinon.fake();
+    await scanStablecoinEvents({
+      aptos,
+      stablecoinPackageId: packageId,
+      stablecoinAddress,
+      eventTypes: ["treasury::Mint", "treasury::Burn"],
+      onPage
+    });
+
+    const where = getEventsStub.getCall(0).args[0].options.where;
+    assert.deepStrictEqual(where, {
+      indexed_type: {
+        _in: [
+          `${packageId}::treasury::Mint`,
+          "0x2c::treasury::Mint",
+          `${packageId}::treasury::Burn`,
+          "0x2c::treasury::Burn"
+        ]
+      }
+    });
+    // Transaction details are only fetched on request.
+    sinon.assert.notCalled(getTransactionByVersionStub);
+    assert.deepStrictEqual(onPage.getCall(0).args[0], [
+      {
+        type: "treasury::Mint",
+        packageId,
+        data: { minter: "0x5", amount: BigInt(100) },
+        transactionVersion: BigInt(10),
+        eventIndex: 0
+      }
+    ]);
+  });
+
+  it("should fail if the package of an event type is not given", async () => {
+    await assert.rejects(
+      scanStablecoinEvents({
+        aptos,
+        stablecoinPackageId,
+        stablecoinAddress,
+        eventTypes: ["pausable::Pause"],
+        onPage: sinon.fake()
+      }),
+      /The aptos_extensions package ID is required to scan pausable::Pause events!/
+    );
+  });
+});
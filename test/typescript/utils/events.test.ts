@@ -0,0 +1,160 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountAddress, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import {
+  filterEventsByType,
+  getTypedEvent,
+  getTypedEvents,
+  parseEvent
+} from "../../../scripts/typescript/utils/events";
+
+describe("events", () => {
+  const aptosExtensionsPackageId = AccountAddress.ONE.toString();
+  const stablecoinPackageId = AccountAddress.TWO.toString();
+  const packageIds = { aptosExtensionsPackageId, stablecoinPackageId };
+
+  const controller = AccountAddress.THREE.toString();
+  const minter = AccountAddress.FOUR.toString();
+
+  const txOutput = {
+    events: [
+      {
+        type: "0x1::transaction_fee::FeeStatement",
+        data: { total_charge_gas_units: "10" }
+      },
+      {
+        // Module addresses may be in their short form.
+        type: "0x2::treasury::MinterConfigured",
+        data: { controller: "0x3", minter: "0x4", allowance: "1000000" }
+      },
+      {
+        type: `${aptosExtensionsPackageId}::pausable::Pause`,
+        data: { obj_address: "0x5" }
+      },
+      {
+        type: `${stablecoinPackageId}::treasury::Mint`,
+        data: { minter: "0x4", amount: "500" }
+      }
+    ]
+  } as unknown as UserTransactionResponse;
+
+  describe("parseEvent", () => {
+    it("should normalize addresses and convert u64 values to bigint", () => {
+      assert.deepStrictEqual(parseEvent(txOutput.events[1], packageIds), {
+        type: "treasury::MinterConfigured",
+        packageId: stablecoinPackageId,
+        data: { controller, minter, allowance: BigInt(1_000_000) }
+      });
+    });
+
+    it("should convert field names to camel case and u8 values to numbers", () => {
+      assert.deepStrictEqual(
+        parseEvent(
+          {
+            type: `${stablecoinPackageId}::metadata::MetadataUpdated`,
+            data: {
+              name: "USDC",
+              symbol: "USDC",
+              decimals: 6,
+              icon_uri: "https://circle.com/usdc-icon",
+              project_uri: "https://circle.com/usdc"
+            }
+          },
+          packageIds
+        )?.data,
+        {
+          name: "USDC",
+          symbol: "USDC",
+          decimals: 6,
+          iconUri: "https://circle.com/usdc-icon",
+          projectUri: "https://circle.com/usdc"
+        }
+      );
+    });
+
+    it("should return null for events emitted by other packages", () => {
+      assert.strictEqual(parseEvent(txOutput.events[0], packageIds), null);
+      assert.strictEqual(
+        parseEvent(
+          {
+            type: `${stablecoinPackageId}::pausable::Pause`,
+            data: { obj_address: "0x5" }
+          },
+          packageIds
+        ),
+        null
+      );
+      assert.strictEqual(
+        parseEvent(txOutput.events[2], { stablecoinPackageId }),
+        null
+      );
+    });
+
+    it("should fail if a field is missing", () => {
+      assert.throws(
+        () =>
+          parseEvent(
+            {
+              type: `${stablecoinPackageId}::treasury::Mint`,
+              data: { minter: "0x4" }
+            },
+            packageIds
+          ),
+        /Missing field amount in event treasury::Mint/
+      );
+    });
+  });
+
+  describe("getTypedEvents", () => {
+    it("should return the events emitted by the given packages", () => {
+      const events = getTypedEvents(txOutput, packageIds);
+
+      assert.deepStrictEqual(
+        events.map((event) => event.type),
+        ["treasury::MinterConfigured", "pausable::Pause", "treasury::Mint"]
+      );
+      assert.deepStrictEqual(
+        filterEventsByType(events, "treasury::Mint").map(
+          (event) => event.data.amount
+        ),
+        [BigInt(500)]
+      );
+    });
+  });
+
+  describe("getTypedEvent", () => {
+    it("should find and parse the event", () => {
+      const event = getTypedEvent(
+        txOutput,
+        aptosExtensionsPackageId,
+        "pausable::Pause"
+      );
+
+      assert.strictEqual(event.data.objAddress, "0x5");
+    });
+
+    it("should fail if the event is not found", () => {
+      assert.throws(
+        () => getTypedEvent(txOutput, stablecoinPackageId, "treasury::Burn"),
+        /Event .*::treasury::Burn not found/
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "assert";
+import { formatTokenAmount } from "../../../scripts/typescript/utils/formatting";
+
+describe("formatting", () => {
+  describe("formatTokenAmount", () => {
+    it("should format the amount using the token's decimals", () => {
+      assert.strictEqual(
+        formatTokenAmount("1000500000", 6, "USDC"),
+        "1000.5 USDC (1000500000 base units)"
+      );
+      assert.strictEqual(
+        formatTokenAmount(BigInt(1_000_000), 6, "USDC"),
+        "1 USDC (1000000 base units)"
+      );
+      assert.strictEqual(formatTokenAmount("1", 6), "0.000001 (1 base units)");
+    });
+
+    it("should return the amount in base units if the decimals are unknown", () => {
+      assert.strictEqual(formatTokenAmount("1000"), "1000 base units");
+    });
+  });
+});
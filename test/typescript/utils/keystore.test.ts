@@ -0,0 +1,112 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import fs from "fs";
+import sinon from "sinon";
+import {
+  decryptPrivateKey,
+  encryptPrivateKey,
+  readKeystore,
+  writeKeystore
+} from "../../../scripts/typescript/utils/keystore";
+
+describe("keystore", () => {
+  const KEYSTORE_FILE_PATH = "path/to/keystore.json";
+  const PASSWORD = "correct horse battery staple";
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should encrypt and decrypt a private key", () => {
+    const account = Account.generate();
+    const keystore = encryptPrivateKey(account.privateKey, PASSWORD);
+
+    assert.strictEqual(keystore.address, account.accountAddress.toString());
+    assert.strictEqual(keystore.publicKey, account.publicKey.toString());
+    assert.strictEqual(
+      keystore.crypto.ciphertext.includes(
+        account.privateKey.toString().slice(2)
+      ),
+      false
+    );
+    assert.strictEqual(
+      decryptPrivateKey(keystore, PASSWORD).toString(),
+      account.privateKey.toString()
+    );
+  });
+
+  it("should fail to decrypt with an incorrect password", () => {
+    const keystore = encryptPrivateKey(Account.generate().privateKey, PASSWORD);
+
+    assert.throws(
+      () => decryptPrivateKey(keystore, "incorrect password"),
+      /Failed to decrypt keystore! Is the password correct\?/
+    );
+  });
+
+  it("should fail to decrypt a keystore with a tampered address", () => {
+    const keystore = encryptPrivateKey(Account.generate().privateKey, PASSWORD);
+    keystore.address = Account.generate().accountAddress.toString();
+
+    assert.throws(
+      () => decryptPrivateKey(keystore, PASSWORD),
+      /Decrypted private key does not match the keystore address/
+    );
+  });
+
+  it("should write and read a keystore file", () => {
+    const keystore = encryptPrivateKey(Account.generate().privateKey, PASSWORD);
+
+    const existsSyncStub = sinon.stub(fs, "existsSync");
+    existsSyncStub.withArgs(KEYSTORE_FILE_PATH).returns(false);
+    const writeFileSyncStub = sinon.stub(fs, "writeFileSync");
+
+    writeKeystore(KEYSTORE_FILE_PATH, keystore);
+
+    sinon.assert.calledOnceWithExactly(
+      writeFileSyncStub,
+      KEYSTORE_FILE_PATH,
+      JSON.stringify(keystore, null, 2),
+      { mode: 0o600 }
+    );
+
+    existsSyncStub.withArgs(KEYSTORE_FILE_PATH).returns(true);
+    sinon
+      .stub(fs, "readFileSync")
+      .withArgs(KEYSTORE_FILE_PATH)
+      .returns(writeFileSyncStub.firstCall.args[1] as string);
+
+    assert.deepStrictEqual(readKeystore(KEYSTORE_FILE_PATH), keystore);
+  });
+
+  it("should not overwrite an existing keystore file", () => {
+    sinon.stub(fs, "existsSync").withArgs(KEYSTORE_FILE_PATH).returns(true);
+
+    assert.throws(
+      () =>
+        writeKeystore(
+          KEYSTORE_FILE_PATH,
+          encryptPrivateKey(Account.generate().privateKey, PASSWORD)
+        ),
+      /Keystore file already exists/
+    );
+  });
+});
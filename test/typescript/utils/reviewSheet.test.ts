@@ -0,0 +1,356 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Account } from "@aptos-labs/ts-sdk";
+import { strict as assert } from "assert";
+import sinon from "sinon";
+import { DecodedTransaction } from "../../../scripts/typescript/decodeTransaction";
+import { StablecoinPackage } from "../../../scripts/typescript/packages/stablecoinPackage";
+import {
+  getAptosClient,
+  LOCAL_RPC_URL,
+  MAX_U64
+} from "../../../scripts/typescript/utils";
+import {
+  buildReviewSheet,
+  formatTimestamp,
+  getNetworkName,
+  renderReviewSheet,
+  TokenState
+} from "../../../scripts/typescript/utils/reviewSheet";
+
+describe("reviewSheet", () => {
+  const aptosExtensionsPackageId = Account.generate().accountAddress.toString();
+  const stablecoinPackageId = Account.generate().accountAddress.toString();
+  const packageIds = { aptosExtensionsPackageId, stablecoinPackageId };
+  const stablecoinAddress = Account.generate().accountAddress.toString();
+  const owner = Account.generate().accountAddress.toString();
+  const pauser = Account.generate().accountAddress.toString();
+  const newPauser = Account.generate().accountAddress.toString();
+  const controller = Account.generate().accountAddress.toString();
+  const minter = Account.generate().accountAddress.toString();
+
+  const tokenState: TokenState = {
+    stablecoinAddress,
+    name: "USDC",
+    symbol: "USDC",
+    decimals: 6,
+    iconUri: "https://circle.com/usdc-icon",
+    projectUri: "https://circle.com/usdc",
+    paused: false,
+
+    admin: owner,
+    pendingAdmin: null,
+    owner,
+    pendingOwner: null,
+    pauser,
+    blocklister: owner,
+    masterMinter: owner,
+    metadataUpdater: owner
+  };
+
+  let stablecoinPackage: StablecoinPackage;
+
+  beforeEach(() => {
+    stablecoinPackage = new StablecoinPackage(
+      getAptosClient(LOCAL_RPC_URL),
+      stablecoinPackageId
+    );
+    sinon
+      .stub(stablecoinPackage.treasury, "getMinter")
+      .callsFake(async (address) => (address === controller ? minter : null));
+    sinon.stub(stablecoinPackage.treasury, "isMinter").resolves(false);
+    sinon
+      .stub(stablecoinPackage.treasury, "mintAllowance")
+      .resolves(BigInt(1_000_000));
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function decodedTransaction(
+    sender: `0x${string}`,
+    functionId: `0x${string}`,
+    args: unknown[]
+  ): DecodedTransaction {
+    return {
+      sender,
+      secondarySigners: undefined,
+      sequenceNumber: "5",
+      maxGasAmount: "10000",
+      gasUnitPrice: "100",
+      expirationTimestampSecs: "1767225600",
+      chainId: "1",
+      feePayer: undefined,
+      payload: { function: functionId, typeArgs: [], args }
+    };
+  }
+
+  describe("getNetworkName", () => {
+    it("should map known chain IDs to their network", () => {
+      assert.strictEqual(getNetworkName("1"), "mainnet (chain ID 1)");
+      assert.strictEqual(getNetworkName("2"), "testnet (chain ID 2)");
+      assert.strictEqual(getNetworkName("4"), "local (chain ID 4)");
+    });
+
+    it("should fall back for unknown chain IDs", () => {
+      assert.strictEqual(getNetworkName("27"), "unknown network (chain ID 27)");
+    });
+  });
+
+  describe("formatTimestamp", () => {
+    it("should format the timestamp as a UTC date", () => {
+      assert.strictEqual(
+        formatTimestamp("1767225600"),
+        "2026-01-01 00:00:00 UTC"
+      );
+    });
+
+    it("should return the seconds if the timestamp is beyond the range of a date", () => {
+      assert.strictEqual(
+        formatTimestamp(MAX_U64.toString()),
+        `${MAX_U64} seconds since the epoch`
+      );
+    });
+  });
+
+  describe("buildReviewSheet", () => {
+    it("should describe the intent without the live state", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${aptosExtensionsPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        ),
+        { packageIds }
+      );
+
+      assert.strictEqual(sheet.network, "mainnet (chain ID 1)");
+      assert.strictEqual(sheet.expiration, "2026-01-01 00:00:00 UTC");
+      assert.strictEqual(sheet.senderRoles, null);
+      assert.strictEqual(
+        sheet.intent,
+        `changes pauser of stablecoin ${stablecoinAddress} to ${newPauser}`
+      );
+      assert.deepStrictEqual(sheet.changes, [
+        { field: "pauser", current: undefined, resulting: newPauser }
+      ]);
+    });
+
+    it("should describe the intent and the current values with the live state", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${aptosExtensionsPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        ),
+        { packageIds, state: tokenState, stablecoinPackage }
+      );
+
+      assert.deepStrictEqual(sheet.senderRoles, [
+        "admin",
+        "owner",
+        "blocklister",
+        "master minter",
+        "metadata updater"
+      ]);
+      assert.strictEqual(
+        sheet.intent,
+        `changes pauser of stablecoin ${stablecoinAddress} from ${pauser} to ${newPauser}`
+      );
+      assert.deepStrictEqual(sheet.changes, [
+        { field: "pauser", current: pauser, resulting: newPauser }
+      ]);
+    });
+
+    it("should format token amounts using the token's decimals", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          controller,
+          `${stablecoinPackageId}::treasury::increment_minter_allowance`,
+          ["2500000"]
+        ),
+        { packageIds, state: tokenState, stablecoinPackage }
+      );
+
+      assert.deepStrictEqual(sheet.senderRoles, [
+        `controller of minter ${minter}`
+      ]);
+      assert.strictEqual(
+        sheet.intent,
+        `increments mint allowance of ${minter} on stablecoin ${stablecoinAddress} by 2.5 USDC (2500000 base units)`
+      );
+      assert.deepStrictEqual(sheet.changes, [
+        {
+          field: `mint allowance of ${minter}`,
+          current: "1 USDC (1000000 base units)",
+          resulting: "3.5 USDC (3500000 base units)"
+        }
+      ]);
+    });
+
+    it("should describe the intent of an entry function called through a multisig account", async () => {
+      const multisigAccount = Account.generate().accountAddress.toString();
+      const sheet = await buildReviewSheet(
+        {
+          ...decodedTransaction(owner, "0x1::multisig_account::unused", []),
+          payload: {
+            multisig: {
+              multisigAddress: multisigAccount,
+              payload: {
+                function: `${stablecoinPackageId}::treasury::configure_controller`,
+                typeArgs: [],
+                args: [controller, minter]
+              }
+            }
+          }
+        },
+        { packageIds, state: tokenState, stablecoinPackage }
+      );
+
+      assert.strictEqual(sheet.multisigAccount, multisigAccount);
+      assert.deepStrictEqual(sheet.multisigAccountRoles, []);
+      assert.strictEqual(
+        sheet.intent,
+        `configures controller ${controller} to manage minter ${minter} on stablecoin ${stablecoinAddress}, executed by multisig account ${multisigAccount}`
+      );
+      assert.deepStrictEqual(sheet.payload.details, [
+        ["Type", "multisig"],
+        ["Multisig account", multisigAccount],
+        ["Function", `${stablecoinPackageId}::treasury::configure_controller`]
+      ]);
+    });
+
+    it("should describe the intent of a script payload", async () => {
+      const sheet = await buildReviewSheet({
+        ...decodedTransaction(owner, "0x1::script::unused", []),
+        payload: {
+          script: {
+            bytecodeHash: "0x1234",
+            typeArgs: [],
+            args: [{ type: "u64", value: "100" }]
+          }
+        }
+      });
+
+      assert.strictEqual(
+        sheet.intent,
+        "runs a Move script with bytecode hash 0x1234"
+      );
+      assert.deepStrictEqual(sheet.payload.args, ["100 (u64)"]);
+    });
+
+    it("should fall back for entry functions without a known intent", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(owner, "0x1::aptos_account::transfer", [
+          newPauser,
+          "100"
+        ])
+      );
+
+      assert.strictEqual(
+        sheet.intent,
+        "calls 0x1::aptos_account::transfer, which has no known intent"
+      );
+      assert.deepStrictEqual(sheet.changes, []);
+    });
+
+    it("should not describe functions of other packages with the same names", async () => {
+      const otherPackageId = Account.generate().accountAddress.toString();
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${otherPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        ),
+        { packageIds, state: tokenState, stablecoinPackage }
+      );
+
+      assert.strictEqual(
+        sheet.intent,
+        `calls ${otherPackageId}::pausable::update_pauser, which has no known intent`
+      );
+      assert.deepStrictEqual(sheet.changes, []);
+    });
+
+    it("should not describe functions without the package IDs", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${aptosExtensionsPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        )
+      );
+
+      assert.strictEqual(
+        sheet.intent,
+        `calls ${aptosExtensionsPackageId}::pausable::update_pauser, which has no known intent`
+      );
+    });
+  });
+
+  describe("renderReviewSheet", () => {
+    it("should render the review sheet as Markdown", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${aptosExtensionsPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        ),
+        { packageIds, state: tokenState, stablecoinPackage }
+      );
+
+      const output = renderReviewSheet(sheet, "markdown");
+
+      assert(output.startsWith("# Transaction Review Sheet\n"));
+      assert(output.includes("| Network | mainnet (chain ID 1) |"));
+      assert(output.includes("| Expiration | 2026-01-01 00:00:00 UTC |"));
+      assert(
+        output.includes(
+          `Changes pauser of stablecoin ${stablecoinAddress} from ${pauser} to ${newPauser}.`
+        )
+      );
+      assert(output.includes(`| pauser | ${pauser} | ${newPauser} |`));
+      assert(output.includes(`2. \`${newPauser}\``));
+    });
+
+    it("should render the review sheet as plain text", async () => {
+      const sheet = await buildReviewSheet(
+        decodedTransaction(
+          owner,
+          `${aptosExtensionsPackageId}::pausable::update_pauser`,
+          [stablecoinAddress, newPauser]
+        ),
+        { packageIds }
+      );
+
+      const output = renderReviewSheet(sheet, "text");
+
+      assert(output.startsWith("TRANSACTION REVIEW SHEET\n"));
+      assert(
+        output.includes(
+          "Sender role:     unknown (set --rpc-url, --aptos-extensions-package-id and --stablecoin-package-id to resolve)"
+        )
+      );
+      assert(
+        output.includes(`  Current:   unknown\n  Resulting: ${newPauser}`)
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Copyright 2024 Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "assert";
+import {
+  renderJunitReport,
+  renderMismatchTable,
+  ValidationCollector
+} from "../../../scripts/typescript/utils/validationReport";
+
+describe("validationReport", () => {
+  describe("ValidationCollector", () => {
+    it("should collect every mismatch and succeed if there are only warnings", () => {
+      const validation = new ValidationCollector();
+      validation.compare("name", "USDC", "USDC");
+      validation.compare("stablecoinPackage.upgradeNumber", 1, 2);
+      validation.addMismatch({
+        field: "minters",
+        expected: 1,
+        actual: 0,
+        severity: "warning",
+        message: "The indexer may be behind"
+      });
+
+      const result = validation.result();
+      assert.deepStrictEqual(result.checkedFields, [
+        "name",
+        "stablecoinPackage.upgradeNumber",
+        "minters"
+      ]);
+      assert.deepStrictEqual(result.mismatches[0], {
+        field: "stablecoinPackage.upgradeNumber",
+        expected: 1,
+        actual: 2,
+        severity: "error",
+        message: "Mismatched stablecoinPackage.upgradeNumber"
+      });
+      assert.strictEqual(result.success, false);
+
+      const warningsOnly = new ValidationCollector();
+      warningsOnly.addMismatch(result.mismatches[1]);
+      assert.strictEqual(warningsOnly.result().success, true);
+    });
+  });
+
+  describe("renderMismatchTable", () => {
+    it("should render a row per mismatch", () => {
+      const validation = new ValidationCollector();
+      validation.compare("paused", false, true);
+
+      const table = renderMismatchTable(validation.result());
+      assert.match(
+        table,
+        /Severity \| Field {2}\| Expected \| Actual \| Message/
+      );
+      assert.ok(
+        table.includes(
+          "\u001b[31merror    | paused | false    | true   | Mismatched paused\u001b[0m"
+        )
+      );
+    });
+
+    it("should report that all checks passed if there are no mismatches", () => {
+      const validation = new ValidationCollector();
+      validation.compare("paused", false, false);
+
+      assert.strictEqual(
+        renderMismatchTable(validation.result()),
+        "All 1 checks passed."
+      );
+    });
+  });
+
+  describe("renderJunitReport", () => {
+    it("should render a test case per checked field", () => {
+      const validation = new ValidationCollector();
+      validation.compare("name", "USDC", "USDC");
+      validation.compare("symbol", "USDC", "<USDC>");
+
+      assert.strictEqual(
+        renderJunitReport(validation.result()),
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<testsuites tests="2" failures="1">',
+          '  <testsuite name="validate-stablecoin-state" tests="2" failures="1">',
+          '    <testcase name="name" classname="validate-stablecoin-state"/>',
+          '    <testcase name="symbol" classname="validate-stablecoin-state">',
+          '      <failure message="Mismatched symbol" type="error">Expected: USDC',
+          "Actual: &lt;USDC&gt;</failure>",
+          "    </testcase>",
+          "  </testsuite>",
+          "</testsuites>",
+          ""
+        ].join("\n")
+      );
+    });
+  });
+});
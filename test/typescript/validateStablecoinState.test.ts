@@ -23,6 +23,7 @@ import { deployAndInitializeToken } from "../../scripts/typescript/deployAndInit
 import { generateKeypair } from "../../scripts/typescript/generateKeypair";
 import {
   getAptosClient,
+  LOCAL_INDEXER_URL,
   LOCAL_RPC_URL,
   normalizeAddress
 } from "../../scripts/typescript/utils";
@@ -295,6 +296,12 @@ describe("validateStablecoinState", () => {
 
   for (const [title, expectedStatesOverride] of expectedStatesTestCases) {
     it(title, async () => {
+      const [key, value] = Object.entries(expectedStatesOverride)[0];
+      const field =
+        typeof value === "object" && value != null
+          ? `${key}.${Object.keys(value)[0]}`
+          : key;
+
       await setup(sourceCodeUnverifiedPackages, {
         expectedStates: expectedStatesOverride
       });
@@ -302,11 +309,42 @@ describe("validateStablecoinState", () => {
         validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
           rpcUrl: LOCAL_RPC_URL
         }),
-        /AssertionError.*: Expected values to be strictly deep-equal/
+        new RegExp(`- ${field}: Mismatched ${field}`)
       );
     });
   }
 
+  it("should report every mismatch", async () => {
+    await setup(sourceCodeUnverifiedPackages, {
+      expectedStates: {
+        name: "name",
+        paused: true,
+        blocklist: [normalizeAddress("0x1")]
+      }
+    });
+    const writeFileSyncStub = sinon.stub(fs, "writeFileSync");
+
+    try {
+      await assert.rejects(
+        validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
+          rpcUrl: LOCAL_RPC_URL,
+          reportFile: "path/to/report.json"
+        }),
+        /Validation failed with 3 errors:\n- name: .*\n- paused: .*\n- blocklist: /
+      );
+
+      sinon.assert.calledOnce(writeFileSyncStub);
+      const report = JSON.parse(writeFileSyncStub.getCall(0).args[1] as string);
+      assert.strictEqual(report.success, false);
+      assert.deepStrictEqual(
+        report.mismatches.map((mismatch: { field: string }) => mismatch.field),
+        ["name", "paused", "blocklist"]
+      );
+    } finally {
+      writeFileSyncStub.restore();
+    }
+  });
+
   it("should fail if a controller is unconfigured", async () => {
     await setup(sourceCodeUnverifiedPackages, {
       expectedStates: {
@@ -351,6 +389,23 @@ describe("validateStablecoinState", () => {
     );
   });
 
+  it("should name the additional controllers if an indexer URL is set", async () => {
+    await setup(sourceCodeUnverifiedPackages, {
+      expectedStates: {
+        controllers: {}
+      }
+    });
+    await assert.rejects(
+      validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
+        rpcUrl: LOCAL_RPC_URL,
+        indexerUrl: LOCAL_INDEXER_URL
+      }),
+      new RegExp(
+        `Additional controllers configured: ${controller.accountAddress.toString()}`
+      )
+    );
+  });
+
   it("should fail if a minter is unconfigured", async () => {
     await setup(sourceCodeUnverifiedPackages, {
       expectedStates: {
@@ -395,6 +450,23 @@ describe("validateStablecoinState", () => {
     );
   });
 
+  it("should name the additional minters if an indexer URL is set", async () => {
+    await setup(sourceCodeUnverifiedPackages, {
+      expectedStates: {
+        minters: {}
+      }
+    });
+    await assert.rejects(
+      validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
+        rpcUrl: LOCAL_RPC_URL,
+        indexerUrl: LOCAL_INDEXER_URL
+      }),
+      new RegExp(
+        `Additional minters configured: ${minter.accountAddress.toString()}`
+      )
+    );
+  });
+
   it("should fail if an address is not blocklisted", async () => {
     await setup(sourceCodeUnverifiedPackages, {
       expectedStates: {
@@ -405,7 +477,44 @@ describe("validateStablecoinState", () => {
       validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
         rpcUrl: LOCAL_RPC_URL
       }),
-      /Invalid blocklist configuration/
+      new RegExp(
+        `Invalid blocklist configuration, addresses not blocklisted: ${normalizeAddress("0x1")}`
+      )
+    );
+  });
+
+  it("should validate the state at the given ledger version", async () => {
+    await setup(sourceCodeUnverifiedPackages, {});
+    const { ledger_version: ledgerVersion } = await aptos.getLedgerInfo();
+
+    const addressToBlock = normalizeAddress("0x222");
+    await stablecoinPackage.blocklistable.blocklist(
+      blocklister,
+      addressToBlock
+    );
+
+    try {
+      // The address was not blocklisted yet at the pinned ledger version.
+      const result = await validateStablecoinState(
+        TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH,
+        { rpcUrl: LOCAL_RPC_URL, ledgerVersion }
+      );
+      assert.strictEqual(result.ledgerVersion, ledgerVersion);
+    } finally {
+      await stablecoinPackage.blocklistable.unblocklist(
+        blocklister,
+        addressToBlock
+      );
+    }
+  });
+
+  it("should fail if the ledger version is invalid", async () => {
+    await assert.rejects(
+      validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
+        rpcUrl: LOCAL_RPC_URL,
+        ledgerVersion: "latest"
+      }),
+      /Invalid ledger version latest!/
     );
   });
 
@@ -422,7 +531,7 @@ describe("validateStablecoinState", () => {
       validateStablecoinState(TEST_VALIDATE_STABLECOIN_STATE_CONFIG_PATH, {
         rpcUrl: LOCAL_RPC_URL
       }),
-      /Additional addresses blocklisted/
+      new RegExp(`Additional addresses blocklisted: ${addressToBlock}`)
     );
     // Reset blocklisted address
     await stablecoinPackage.blocklistable.unblocklist(
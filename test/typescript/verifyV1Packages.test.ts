@@ -17,11 +17,14 @@
  */
 
 import { strict as assert } from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import sinon from "sinon";
 import { verifyV1Packages } from "../../scripts/typescript/verifyV1Packages";
 import { calculateDeploymentAddresses } from "../../scripts/typescript/calculateDeploymentAddresses";
 import * as verifyPackageModule from "../../scripts/typescript/verifyPackage";
-import { Account } from "@aptos-labs/ts-sdk";
+import { Account, Aptos, LedgerInfo } from "@aptos-labs/ts-sdk";
 
 describe("Verify V1 packages", () => {
   let deployerAddress: string;
@@ -42,6 +45,37 @@ describe("Verify V1 packages", () => {
     sinon.restore();
   });
 
+  async function withManifest(
+    callback: (manifest: string) => Promise<unknown>
+  ) {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+    const manifest = path.join(tmpDir, "manifest.json");
+    fs.writeFileSync(
+      manifest,
+      JSON.stringify({
+        chainId: 4,
+        deployer: deployerAddress,
+        seeds: {
+          aptos_extensions: "package_name",
+          stablecoin: "stablecoin"
+        },
+        packageIds: {
+          aptos_extensions: aptosExtensionsPackageId,
+          stablecoin: stablecoinPackageId
+        },
+        transactions: [],
+        compilerVersion: "2",
+        languageVersion: "2",
+        sourceUploaded: true
+      })
+    );
+    try {
+      await callback(manifest);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
   it("should call the verifyPackage function with correct inputs", async () => {
     const rpcUrl = "http://localhost:8080";
     const sourceUploaded = false;
@@ -95,4 +129,65 @@ describe("Verify V1 packages", () => {
 
     assert.deepEqual(results, [stubbedResult, stubbedResult]);
   });
+
+  it("should read the deployment from the manifest if it is set", async () => {
+    sinon
+      .stub(Aptos.prototype, "getLedgerInfo")
+      .resolves({ chain_id: 4 } as LedgerInfo);
+    const verifyPackageStub = sinon
+      .stub(verifyPackageModule, "verifyPackage")
+      .resolves();
+
+    await withManifest((manifest) =>
+      verifyV1Packages({ rpcUrl: "http://localhost:8080", manifest })
+    );
+
+    sinon.assert.calledTwice(verifyPackageStub);
+    sinon.assert.calledWithMatch(verifyPackageStub, {
+      packageName: "stablecoin",
+      packageId: stablecoinPackageId,
+      namedDeps: [
+        { name: "deployer", address: deployerAddress },
+        { name: "aptos_extensions", address: aptosExtensionsPackageId }
+      ],
+      sourceUploaded: true
+    });
+  });
+
+  it("should fail if the manifest belongs to a different network", async () => {
+    sinon
+      .stub(Aptos.prototype, "getLedgerInfo")
+      .resolves({ chain_id: 1 } as LedgerInfo);
+    const verifyPackageStub = sinon
+      .stub(verifyPackageModule, "verifyPackage")
+      .resolves();
+
+    await assert.rejects(
+      withManifest((manifest) =>
+        verifyV1Packages({ rpcUrl: "http://localhost:8080", manifest })
+      ),
+      /The manifest belongs to chain ID 4, but the network at the RPC URL has chain ID 1!/
+    );
+    sinon.assert.notCalled(verifyPackageStub);
+  });
+
+  it("should fail if the addresses are set alongside the manifest", async () => {
+    await assert.rejects(
+      withManifest((manifest) =>
+        verifyV1Packages({
+          rpcUrl: "http://localhost:8080",
+          manifest,
+          deployer: deployerAddress
+        })
+      ),
+      /cannot be combined with --manifest!/
+    );
+  });
+
+  it("should fail if neither the addresses nor the manifest are set", async () => {
+    await assert.rejects(
+      verifyV1Packages({ rpcUrl: "http://localhost:8080" }),
+      /must be set when --manifest is unset!/
+    );
+  });
 });